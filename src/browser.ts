@@ -1,7 +1,35 @@
-import { type Browser, type Page, chromium } from "playwright";
+import { type Browser, type Locator, type Page, chromium } from "playwright";
 import TurndownService from "turndown";
 import type { Node } from "turndown";
-import { withRetry } from "./utils.js";
+import { type RawPageLinks, collectPageLinks } from "./links.js";
+import { fenceCode, languageFromClass, tidyMarkdown } from "./markdown.js";
+import { type PageState, readPageState } from "./pagediff.js";
+import {
+  type RawArticleMetadata,
+  extractArticleMetadata,
+  findReadableContent,
+  normalizeArticleMetadata,
+} from "./readability.js";
+import {
+  type RenderedSnapshot,
+  type RoleLocator,
+  parseAriaSnapshot,
+  renderSnapshot,
+} from "./snapshot.js";
+import { type RawTable, buildTableGrid, readTables, tableToMarkdown } from "./tables.js";
+import type {
+  ArticleMetadata,
+  ContentFormat,
+  ElementState,
+  ElementTarget,
+  ImageFormat,
+  PageRegion,
+  ScreenshotImage,
+  ScrollDirection,
+  SessionInfo,
+  Viewport,
+} from "./types.js";
+import { MAX_SCREENSHOT_SIZE, readEnvNumber, withRetry } from "./utils.js";
 
 /**
  * Initialize Turndown service for converting HTML to Markdown with custom settings
@@ -16,6 +44,12 @@ const turndownService = new TurndownService({
   linkStyle: "inlined",
 });
 
+/**
+ * Encodes the characters that would end a Markdown link destination early.
+ */
+const toMarkdownUrl = (url: string) =>
+  url.trim().replace(/\s/g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+
 // Custom Turndown rules for content processing
 turndownService.addRule("removeScripts", {
   filter: ["script", "style", "noscript"],
@@ -27,7 +61,10 @@ turndownService.addRule("preserveLinks", {
   replacement: (content: string, node: Node) => {
     const element = node as HTMLAnchorElement;
     const href = element.getAttribute("href");
-    return href ? `[${content}](${href})` : content;
+    if (!href || /^\s*javascript:/i.test(href)) {
+      return content;
+    }
+    return `[${content}](${toMarkdownUrl(href)})`;
   },
 });
 
@@ -37,17 +74,262 @@ turndownService.addRule("preserveImages", {
     const element = node as HTMLImageElement;
     const alt = element.getAttribute("alt") || "";
     const src = element.getAttribute("src");
-    return src ? `![${alt}](${src})` : "";
+    return src ? `![${alt}](${toMarkdownUrl(src)})` : "";
+  },
+});
+
+/**
+ * Class names of the line number gutters highlighters put inside code blocks
+ */
+const LINE_NUMBER_CLASS = /(?:^|\s)(?:line-?numbers?|linenos?|gutter|hljs-ln-numbers)(?:\s|$)/i;
+
+/**
+ * Reads the exact text of a code block, flattening highlighter markup, turning
+ * `<br>` and per-line `<div>` wrappers into line breaks and leaving out line numbers.
+ */
+const codeText = (element: Element): string => {
+  let text = "";
+  for (const child of Array.from(element.childNodes)) {
+    if (child.nodeType === 3) {
+      text += child.nodeValue ?? "";
+      continue;
+    }
+    if (child.nodeType !== 1) continue;
+    const el = child as Element;
+    if (el.tagName === "BR") {
+      text += "\n";
+    } else if (!LINE_NUMBER_CLASS.test(el.getAttribute("class") ?? "")) {
+      text += codeText(el);
+      if (el.tagName === "DIV" && !text.endsWith("\n")) text += "\n";
+    }
+  }
+  return text;
+};
+
+/**
+ * Finds the language of a code block from `data-lang` or class names on the block,
+ * its `<code>` element or the wrappers highlighters put around it.
+ */
+const codeLanguage = (pre: Element): string => {
+  const wrapper = pre.parentElement;
+  const candidates = [pre.querySelector("code"), pre, wrapper, wrapper?.parentElement];
+  for (const el of candidates) {
+    if (!el) continue;
+    const dataLang = el.getAttribute("data-lang") || el.getAttribute("data-language");
+    const language = dataLang
+      ? languageFromClass(`language-${dataLang.trim()}`)
+      : languageFromClass(el.getAttribute("class") ?? "");
+    if (language !== undefined) return language;
+  }
+  return "";
+};
+
+turndownService.addRule("codeBlocks", {
+  filter: "pre",
+  replacement: (_content: string, node: Node) => {
+    const element = node as HTMLElement;
+    const code = codeText(element);
+    return code.trim() ? `\n\n${fenceCode(code, codeLanguage(element))}\n\n` : "";
+  },
+});
+
+turndownService.addRule("tables", {
+  filter: "table",
+  replacement: (content: string, node: Node) => {
+    const [table] = readTables([node as HTMLTableElement], (cell) =>
+      turndownService.turndown(cell.innerHTML)
+    );
+    // Layout tables are not data, so only their content is kept
+    const markdown = table ? tableToMarkdown(buildTableGrid(table)) : "";
+    return markdown ? `\n\n${markdown}\n\n` : `\n\n${content}\n\n`;
   },
 });
 
+/**
+ * Options for {@link BrowserManager.extractContent}
+ */
+export interface ContentExtractionOptions {
+  /** CSS selector of the element to extract instead of the detected main content */
+  selector?: string;
+  /** Output format (default: "markdown") */
+  format?: ContentFormat;
+  /** Keep hyperlinks in Markdown and HTML output; when false only link text is kept (default: true) */
+  includeLinks?: boolean;
+  /** Keep images in Markdown and HTML output (default: true) */
+  includeImages?: boolean;
+}
+
+/**
+ * Outcome of a successful {@link BrowserManager.safePageNavigation}
+ */
+export interface PageNavigation {
+  /** HTTP status of the page response */
+  status: number;
+  /** URL the page ended up at after redirects */
+  finalUrl: string;
+  /** Page title */
+  title: string;
+  /** Number of words in the page's visible text */
+  wordCount: number;
+}
+
+/**
+ * Viewport size used unless another is requested
+ * @constant {Viewport}
+ */
+export const DEFAULT_VIEWPORT: Viewport = { width: 1600, height: 900 };
+
+/**
+ * Quality of jpeg and webp screenshots unless another is requested
+ * @constant {number}
+ */
+export const DEFAULT_SCREENSHOT_QUALITY = 80;
+
+/**
+ * Qualities tried in turn when a jpeg or webp screenshot is over the size limit
+ * @constant {number[]}
+ */
+const FALLBACK_SCREENSHOT_QUALITIES = [60, 40, 20];
+
+/**
+ * Largest number of tiles a capture is split into to fit the size limit
+ * @constant {number}
+ */
+export const MAX_SCREENSHOT_TILES = 16;
+
+/**
+ * How long tiled captures wait for images in view to load, in milliseconds
+ * @constant {number}
+ */
+export const LAZY_IMAGE_TIMEOUT = 2000;
+
+/**
+ * Smallest tile height in pixels; captures needing thinner tiles fail
+ * @constant {number}
+ */
+const MIN_TILE_HEIGHT = 100;
+
+/**
+ * Options for {@link BrowserManager.takeScreenshotWithSizeLimit}
+ */
+export interface ScreenshotOptions {
+  /** Capture the whole scrollable page instead of the viewport */
+  fullPage?: boolean;
+  /** CSS selector of an element to capture instead of the page */
+  selector?: string;
+  /** Viewport size (default: {@link DEFAULT_VIEWPORT}) */
+  viewport?: Viewport;
+  /** Image format (default: "png") */
+  format?: ImageFormat;
+  /** Quality of jpeg and webp images (default: {@link DEFAULT_SCREENSHOT_QUALITY}) */
+  quality?: number;
+  /** Capture the page as viewport-sized segments by scrolling, instead of in one image */
+  tiled?: boolean;
+}
+
+/**
+ * Longest time in milliseconds an interaction waits for its element to be actionable
+ * @constant {number}
+ */
+export const ACTION_TIMEOUT = 5000;
+
+/**
+ * Longest time in milliseconds to wait for the network to go idle after an interaction
+ * @constant {number}
+ */
+export const SETTLE_TIMEOUT = 3000;
+
+/**
+ * Options for {@link BrowserManager.typeText}
+ */
+export interface TypeTextOptions {
+  /** Replace the field's value instead of typing after it (default: true) */
+  clear?: boolean;
+  /** Press Enter after typing */
+  submit?: boolean;
+}
+
+/**
+ * Options for {@link BrowserManager.scroll}
+ */
+export interface ScrollOptions {
+  /** Element to scroll into view instead of scrolling the page */
+  target?: ElementTarget;
+  /** Direction to scroll the page in (default: down) */
+  direction?: ScrollDirection;
+  /** Pixels to scroll up or down (default: one viewport height) */
+  amount?: number;
+}
+
+/**
+ * Largest number of pages open at once for calls without a session, and so of such
+ * calls using the browser concurrently. Override with `MCP_MAX_PAGES`.
+ * @constant {number}
+ */
+export const MAX_BROWSER_PAGES = readEnvNumber("MCP_MAX_PAGES", 3) || 1;
+
+/**
+ * Largest number of named sessions open at once. Override with `MCP_MAX_SESSIONS`.
+ * @constant {number}
+ */
+export const MAX_BROWSER_SESSIONS = readEnvNumber("MCP_MAX_SESSIONS", 5) || 1;
+
+/**
+ * Options for {@link BrowserManager.withPage}
+ */
+export interface PageOptions {
+  /** Named session whose page to use, opened on first use */
+  sessionId?: string;
+  /** Use the page used last by a call without a session, e.g. to capture what it loaded */
+  current?: boolean;
+}
+
+/**
+ * A pool page and whether a call is using it
+ *
+ * @internal
+ */
+interface PooledPage {
+  page: Page;
+  busy: boolean;
+}
+
+/**
+ * A named session's page and its bookkeeping
+ *
+ * @internal
+ */
+interface BrowserSession extends PooledPage {
+  id: string;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
 /**
  * Manages browser instances and provides high-level browser operations
  * for web page interaction, content extraction, and screenshot capture.
  */
 export class BrowserManager {
   private browser?: Browser;
+  /** Launch in progress, shared by calls that need the browser meanwhile */
+  private launching?: Promise<Browser>;
+  /** Page used last by a call without a session, which "current page" calls act on */
   private page?: Page;
+  /** Page served from the cache since, which the current page loads before its next use */
+  private deferredUrl?: string;
+  /** Pages shared by calls without a session, least recently used first */
+  private pool: PooledPage[] = [];
+  /** Pool pages being opened, counted so concurrent calls respect the limit */
+  private openingPages = 0;
+  private sessions = new Map<string, BrowserSession>();
+  /** IDs of sessions whose page is being opened */
+  private openingSessions = new Set<string>();
+  /** Calls waiting for a page or session to be released */
+  private waiters: Array<() => void> = [];
+  /** Element refs of each page's snapshots, until the page navigates */
+  private snapshotRefs = new WeakMap<Page, Map<string, RoleLocator>>();
+  /** Pages whose navigations are watched to drop their refs */
+  private watchedPages = new WeakSet<Page>();
 
   /**
    * Resets the browser and page instances for testing purposes.
@@ -59,12 +341,20 @@ export class BrowserManager {
    */
   resetBrowser(): void {
     this.browser = undefined;
+    this.launching = undefined;
     this.page = undefined;
+    this.deferredUrl = undefined;
+    this.pool = [];
+    this.openingPages = 0;
+    this.sessions.clear();
+    this.openingSessions.clear();
+    this.waiters = [];
   }
 
   /**
    * Ensures a browser instance and page are available.
-   * Creates new ones if they don't exist.
+   * Creates new ones if they don't exist. The page is the current page: the one
+   * used last by a call without a session.
    *
    * @returns Promise resolving to a Page instance
    *
@@ -75,31 +365,145 @@ export class BrowserManager {
    */
   async ensureBrowser(): Promise<Page> {
     console.log("ensureBrowser: started");
-    if (!this.browser) {
-      console.log("ensureBrowser: launching browser");
-      try {
-        this.browser = await chromium.launch({
-          headless: true,
-        });
-        console.log("ensureBrowser: browser launched");
-      } catch (e) {
-        const error = new Error(`Browser launch failed: ${(e as Error).message}`);
-        console.error("ensureBrowser: Browser launch failed", error);
-        throw error;
-      }
-
-      const context = await this.browser.newContext();
-      this.page = await context.newPage();
-    }
-
     if (!this.page) {
-      const context = await this.browser.newContext();
-      this.page = await context.newPage();
+      this.page = await this.openPage();
+      this.pool.push({ page: this.page, busy: false });
     }
     console.log("ensureBrowser: finished");
     return this.page;
   }
 
+  /**
+   * Runs a task on a page that no other call uses meanwhile, so concurrent tool calls
+   * never share a tab. Without a session, a free page of the shared pool is used,
+   * preferring the one used last, and new pages are opened up to
+   * {@link MAX_BROWSER_PAGES}; beyond that, calls wait for a page to be released.
+   * With `current`, the task waits for the page used last instead, to act on what
+   * was loaded before, navigating it first to a page set by {@link deferNavigation}.
+   * With a session ID, the task runs on that session's own page, which is opened on
+   * first use and kept until {@link closeSession}; calls on one session run one at a
+   * time.
+   *
+   * @param task - Work to do with the page
+   * @param options - Session to use, or whether to use the current page
+   * @returns Promise resolving to the task's result
+   * @throws {Error} If the browser can't be launched, a new session would exceed
+   * {@link MAX_BROWSER_SESSIONS}, or the task fails
+   *
+   * @example
+   * ```typescript
+   * const title = await browserManager.withPage(async (page) => {
+   *   await browserManager.safePageNavigation(page, "https://example.com");
+   *   return page.title();
+   * }, { sessionId: "docs" });
+   * ```
+   */
+  async withPage<T>(task: (page: Page) => Promise<T>, options: PageOptions = {}): Promise<T> {
+    const { sessionId, current = false } = options;
+    const lease = sessionId
+      ? await this.acquireSession(sessionId)
+      : await this.acquirePage(current);
+    // Without a session, this call's page becomes the current page
+    const deferredUrl = sessionId ? undefined : this.deferredUrl;
+    if (!sessionId) this.deferredUrl = undefined;
+    try {
+      if (current && deferredUrl) {
+        console.log("withPage: loading the deferred page", deferredUrl);
+        await this.safePageNavigation(lease.page, deferredUrl);
+      }
+      return await task(lease.page);
+    } finally {
+      lease.busy = false;
+      if (sessionId) {
+        (lease as BrowserSession).lastUsedAt = new Date().toISOString();
+      } else {
+        // Keep the pool ordered by use, dropping pages that crashed or were closed
+        this.pool = this.pool.filter((entry) => entry !== lease);
+        if (!lease.page.isClosed()) {
+          this.pool.push(lease);
+          this.page = lease.page;
+        } else if (this.page === lease.page) {
+          this.page = undefined;
+        }
+      }
+      this.notifyWaiters();
+    }
+  }
+
+  /**
+   * Makes a page that was served without a browser, such as from the cache, the
+   * current page. It is loaded when a call with `current` uses the current page
+   * next, unless a call without a session uses a page before that.
+   *
+   * @param url - URL of the page
+   *
+   * @example
+   * ```typescript
+   * browserManager.deferNavigation("https://example.com/docs");
+   * await browserManager.withPage((page) => browserManager.snapshotPage(page), { current: true });
+   * ```
+   */
+  deferNavigation(url: string): void {
+    this.deferredUrl = url;
+  }
+
+  /**
+   * Lists the open sessions, most recently used first.
+   *
+   * @returns Promise resolving to the sessions with the page each one shows
+   *
+   * @example
+   * ```typescript
+   * const sessions = await browserManager.listSessions();
+   * ```
+   */
+  async listSessions(): Promise<SessionInfo[]> {
+    const sessions = [...this.sessions.values()].sort((a, b) =>
+      b.lastUsedAt.localeCompare(a.lastUsedAt)
+    );
+    return Promise.all(
+      sessions.map(async (session) => ({
+        sessionId: session.id,
+        url: session.page.url(),
+        title: await session.page.title().catch(() => ""),
+        busy: session.busy,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+      }))
+    );
+  }
+
+  /**
+   * Closes a session's page, waiting for a call running on it, or for its page to
+   * open, to finish first.
+   *
+   * @param sessionId - ID of the session to close
+   * @returns Promise resolving to true if the session existed
+   *
+   * @example
+   * ```typescript
+   * await browserManager.closeSession("docs");
+   * ```
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    console.log("closeSession: started", sessionId);
+    let session = this.sessions.get(sessionId);
+    while (session?.busy || this.openingSessions.has(sessionId)) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+      session = this.sessions.get(sessionId);
+    }
+    if (!session) return false;
+    this.sessions.delete(sessionId);
+    try {
+      await session.page.context().close();
+    } catch (e) {
+      console.error("closeSession: Error closing session page", e);
+    }
+    this.notifyWaiters();
+    console.log("closeSession: finished", sessionId);
+    return true;
+  }
+
   /**
    * Cleans up browser resources by closing the browser instance.
    *
@@ -117,26 +521,155 @@ export class BrowserManager {
       } finally {
         this.browser = undefined;
         this.page = undefined;
+        this.deferredUrl = undefined;
+        this.pool = [];
+        this.sessions.clear();
+        this.notifyWaiters();
       }
     }
     console.log("cleanup: finished");
   }
 
+  /**
+   * Launches the browser if needed and opens a page in a context of its own, so
+   * pages don't share cookies or storage.
+   *
+   * @internal
+   */
+  private async openPage(): Promise<Page> {
+    if (!this.browser) {
+      if (!this.launching) {
+        console.log("openPage: launching browser");
+        this.launching = chromium.launch({
+          headless: true,
+        });
+      }
+      try {
+        this.browser = await this.launching;
+        console.log("openPage: browser launched");
+      } catch (e) {
+        const error = new Error(`Browser launch failed: ${(e as Error).message}`);
+        console.error("openPage: Browser launch failed", error);
+        throw error;
+      } finally {
+        this.launching = undefined;
+      }
+    }
+    const context = await this.browser.newContext();
+    return context.newPage();
+  }
+
+  /**
+   * Takes a free pool page, or the current page when `current` is set, opening a new
+   * page while the pool is below its limit and otherwise waiting for a release.
+   *
+   * @internal
+   */
+  private async acquirePage(current: boolean): Promise<PooledPage> {
+    for (;;) {
+      const entry = current
+        ? this.pool.find((candidate) => candidate.page === this.page)
+        : [...this.pool].reverse().find((candidate) => !candidate.busy);
+      if (entry && !entry.busy) {
+        entry.busy = true;
+        return entry;
+      }
+      if (!entry && this.pool.length + this.openingPages < MAX_BROWSER_PAGES) {
+        this.openingPages++;
+        let page: Page;
+        try {
+          page = await this.openPage();
+        } catch (error) {
+          this.notifyWaiters();
+          throw error;
+        } finally {
+          this.openingPages--;
+        }
+        const opened: PooledPage = { page, busy: true };
+        this.pool.push(opened);
+        if (current) this.page = page;
+        return opened;
+      }
+      console.log("acquirePage: waiting for a free page");
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Takes a session's page, opening the session on first use and waiting while
+   * another call uses it.
+   *
+   * @internal
+   */
+  private async acquireSession(sessionId: string): Promise<BrowserSession> {
+    for (;;) {
+      const session = this.sessions.get(sessionId);
+      if (session && !session.busy) {
+        session.busy = true;
+        return session;
+      }
+      if (!session && !this.openingSessions.has(sessionId)) {
+        if (this.sessions.size + this.openingSessions.size >= MAX_BROWSER_SESSIONS) {
+          const error = new Error(
+            `Cannot open session "${sessionId}": ${MAX_BROWSER_SESSIONS} sessions are open`
+          );
+          console.error("acquireSession: Too many sessions", error);
+          throw error;
+        }
+        this.openingSessions.add(sessionId);
+        let page: Page;
+        try {
+          page = await this.openPage();
+        } catch (error) {
+          this.notifyWaiters();
+          throw error;
+        } finally {
+          this.openingSessions.delete(sessionId);
+        }
+        const now = new Date().toISOString();
+        const opened: BrowserSession = {
+          id: sessionId,
+          page,
+          busy: true,
+          createdAt: now,
+          lastUsedAt: now,
+        };
+        this.sessions.set(sessionId, opened);
+        console.log("acquireSession: opened session", sessionId);
+        return opened;
+      }
+      console.log("acquireSession: waiting for session", sessionId);
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+  }
+
+  /**
+   * Wakes every waiting call so it can check again for a free page or session.
+   *
+   * @internal
+   */
+  private notifyWaiters(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const wake of waiters) wake();
+  }
+
   /**
    * Safely navigates to a URL with comprehensive validation and security checks.
    * Handles common anti-bot measures and validates page content.
    *
    * @param page - Playwright Page instance
    * @param url - URL to navigate to
+   * @returns Promise resolving to the response status, final URL, title and word count
    * @throws {Error} If navigation fails, bot protection is detected, or content is invalid
    *
    * @example
    * ```typescript
    * const page = await browserManager.ensureBrowser();
-   * await browserManager.safePageNavigation(page, "https://example.com");
+   * const { finalUrl, status } = await browserManager.safePageNavigation(page, "https://example.com");
    * ```
    */
-  async safePageNavigation(page: Page, url: string): Promise<void> {
+  async safePageNavigation(page: Page, url: string): Promise<PageNavigation> {
     console.log("safePageNavigation: started", url);
     try {
       const context = await page.context();
@@ -224,6 +757,14 @@ export class BrowserManager {
         console.error("safePageNavigation: Page contains insufficient content", error);
         throw error;
       }
+
+      console.log("safePageNavigation: finished");
+      return {
+        status,
+        finalUrl: page.url(),
+        title: validation.title,
+        wordCount: validation.wordCount,
+      };
     } catch (error) {
       if (
         error instanceof Error &&
@@ -237,7 +778,6 @@ export class BrowserManager {
       console.error("safePageNavigation: Navigation failed", navigationError);
       throw navigationError;
     }
-    console.log("safePageNavigation: finished");
   }
 
   /**
@@ -257,160 +797,829 @@ export class BrowserManager {
    * ```
    */
   async extractContentAsMarkdown(page: Page, selector?: string): Promise<string> {
-    console.log("extractContentAsMarkdown: started", selector);
+    return this.extractContent(page, { selector });
+  }
+
+  /**
+   * Extracts content from a webpage as Markdown, plain text or HTML.
+   * Uses the element matching `selector`, or else the article found by
+   * {@link findReadableContent}, or else the main content area found with common
+   * selectors, or else the body without navigation and other page chrome.
+   *
+   * @param page - Playwright Page instance
+   * @param options - Selector, output format and link and image toggles
+   * @returns Promise resolving to the content in the requested format
+   * @throws {Error} If no element matches the selector or extraction fails
+   *
+   * @example
+   * ```typescript
+   * const text = await browserManager.extractContent(page, {
+   *   selector: "#readme",
+   *   format: "text",
+   * });
+   * ```
+   */
+  async extractContent(page: Page, options: ContentExtractionOptions = {}): Promise<string> {
+    const { selector, format = "markdown", includeLinks = true, includeImages = true } = options;
+    console.log("extractContent: started", options);
     try {
-      const html = await page.evaluate((sel) => {
-        if (sel) {
-          const element = document.querySelector(sel);
-          return element ? element.outerHTML : "";
-        }
+      const readable = selector ? null : await page.evaluate(findReadableContent);
+      console.log("extractContent: readable content found", Boolean(readable));
 
-        const contentSelectors = [
-          "main",
-          "article",
-          '[role="main"]',
-          "#content",
-          ".content",
-          ".main",
-          ".post",
-          ".article",
-        ];
-
-        for (const contentSelector of contentSelectors) {
-          const element = document.querySelector(contentSelector);
-          if (element) {
-            return element.outerHTML;
+      const html = await page.evaluate(
+        ({ sel, article, text, links, images }) => {
+          let root: Element | null = null;
+          if (sel) {
+            root = document.querySelector(sel);
+            if (!root) {
+              return null;
+            }
+          } else if (article) {
+            root = document.createElement("div");
+            root.innerHTML = article;
+          }
+
+          const contentSelectors = [
+            "main",
+            "article",
+            '[role="main"]',
+            "#content",
+            ".content",
+            ".main",
+            ".post",
+            ".article",
+          ];
+
+          for (const contentSelector of contentSelectors) {
+            if (root) break;
+            root = document.querySelector(contentSelector);
+          }
+
+          if (!root) {
+            // Strip page chrome from a copy, since later calls keep using the live page
+            const body = document.body.cloneNode(true) as HTMLElement;
+            const elementsToRemove = [
+              "header",
+              "footer",
+              "nav",
+              '[role="navigation"]',
+              "aside",
+              ".sidebar",
+              '[role="complementary"]',
+              ".nav",
+              ".menu",
+              ".header",
+              ".footer",
+              ".advertisement",
+              ".ads",
+              ".cookie-notice",
+            ];
+
+            for (const removeSelector of elementsToRemove) {
+              for (const el of body.querySelectorAll(removeSelector)) {
+                el.remove();
+              }
+            }
+            root = body;
+          }
+
+          if (text) {
+            if (root.isConnected) {
+              return (root as HTMLElement).innerText;
+            }
+            // innerText only reflects line breaks of rendered elements, so render the
+            // extracted copy off-screen while reading it
+            const holder = root as HTMLElement;
+            holder.style.cssText = "position:absolute;left:-100000px;top:0;width:1000px";
+            document.body.append(holder);
+            const rendered = holder.innerText;
+            holder.remove();
+            return rendered;
           }
-        }
 
-        const body = document.body;
-        const elementsToRemove = [
-          "header",
-          "footer",
-          "nav",
-          '[role="navigation"]',
-          "aside",
-          ".sidebar",
-          '[role="complementary"]',
-          ".nav",
-          ".menu",
-          ".header",
-          ".footer",
-          ".advertisement",
-          ".ads",
-          ".cookie-notice",
-        ];
-
-        for (const sel of elementsToRemove) {
-          for (const el of body.querySelectorAll(sel)) {
-            el.remove();
+          // Work on a copy so the toggles never change the live page
+          const copy = root.cloneNode(true) as Element;
+          if (!images) {
+            for (const el of copy.querySelectorAll("img, picture")) {
+              el.remove();
+            }
           }
+          if (!links) {
+            for (const el of copy.querySelectorAll("a")) {
+              el.replaceWith(...el.childNodes);
+            }
+          }
+          // Resolve URLs against the page and its <base>, so they work outside the page
+          for (const el of copy.querySelectorAll("a[href]")) {
+            if (!(el instanceof HTMLAnchorElement)) continue;
+            if (/^\s*javascript:/i.test(el.getAttribute("href") ?? "")) {
+              el.removeAttribute("href");
+            } else {
+              el.setAttribute("href", el.href);
+            }
+          }
+          for (const el of copy.querySelectorAll("img[src]")) {
+            el.setAttribute("src", (el as HTMLImageElement).src);
+          }
+          return copy.outerHTML;
+        },
+        {
+          sel: selector,
+          article: readable,
+          text: format === "text",
+          links: includeLinks,
+          images: includeImages,
         }
+      );
 
-        return body.outerHTML;
-      }, selector);
+      if (html === null) {
+        throw new Error(`No element matches selector "${selector}"`);
+      }
 
       if (!html) {
-        console.log("extractContentAsMarkdown: html is empty");
+        console.log("extractContent: content is empty");
         return "";
       }
 
-      try {
-        console.log("extractContentAsMarkdown: converting HTML to markdown");
-        const markdown = turndownService.turndown(html);
-        const processedMarkdown = markdown
+      if (format === "text") {
+        return html
+          .replace(/[ \t]+\n/g, "\n")
           .replace(/\n{3,}/g, "\n\n")
-          .replace(/^- $/gm, "")
-          .replace(/^\s+$/gm, "")
           .trim();
-        console.log("extractContentAsMarkdown: finished", processedMarkdown);
+      }
+
+      if (format === "html") {
+        return html.trim();
+      }
+
+      try {
+        console.log("extractContent: converting HTML to markdown");
+        const markdown = turndownService.turndown(html);
+        const processedMarkdown = tidyMarkdown(markdown);
+        console.log("extractContent: finished", processedMarkdown.length);
         return processedMarkdown;
       } catch (error) {
-        console.error("extractContentAsMarkdown: Error converting HTML to Markdown:", error);
+        console.error("extractContent: Error converting HTML to Markdown:", error);
         return html;
       }
     } catch (e) {
       const error = new Error(`Content extraction failed: ${(e as Error).message}`);
-      console.error("extractContentAsMarkdown: Content extraction failed", error);
+      console.error("extractContent: Content extraction failed", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the byline, publication date, site name and excerpt of the loaded page.
+   * Metadata is best effort: failures are logged and yield empty metadata.
+   *
+   * @param page - Playwright Page instance
+   * @returns Promise resolving to the metadata found
+   *
+   * @example
+   * ```typescript
+   * const { byline, publishedAt } = await browserManager.extractMetadata(page);
+   * ```
+   */
+  async extractMetadata(page: Page): Promise<ArticleMetadata> {
+    console.log("extractMetadata: started");
+    try {
+      const raw: RawArticleMetadata = await page.evaluate(extractArticleMetadata);
+      const metadata = normalizeArticleMetadata(raw ?? {});
+      console.log("extractMetadata: finished", metadata);
+      return metadata;
+    } catch (error) {
+      console.error("extractMetadata: Metadata extraction failed", error);
+      return {};
+    }
+  }
+
+  /**
+   * Reads the data tables of the loaded page, skipping layout tables.
+   *
+   * @param page - Playwright Page instance
+   * @param selector - CSS selector of the tables, or of elements containing them
+   * (default: every table)
+   * @returns Promise resolving to the tables in document order
+   * @throws {Error} If no element matches the selector, or reading the tables fails
+   *
+   * @example
+   * ```typescript
+   * const tables = await browserManager.extractTables(page, "#pricing");
+   * ```
+   */
+  async extractTables(page: Page, selector?: string): Promise<RawTable[]> {
+    console.log("extractTables: started", selector);
+    try {
+      if (selector && !(await page.$(selector))) {
+        throw new Error(`No element matches selector "${selector}"`);
+      }
+      const tables = await page.$$eval(selector || "table", readTables, undefined);
+      console.log("extractTables: finished", tables.length);
+      return tables;
+    } catch (e) {
+      const error = new Error(`Table extraction failed: ${(e as Error).message}`);
+      console.error("extractTables: Table extraction failed", error);
       throw error;
     }
   }
 
   /**
-   * Takes a screenshot of the current page with automatic size optimization.
-   * Reduces viewport size if screenshot exceeds size limit.
+   * Reads the links and headings of the loaded page in document order.
    *
    * @param page - Playwright Page instance
-   * @returns Promise resolving to base64 encoded screenshot
-   * @throws {Error} If screenshot can't be reduced to under size limit
+   * @param selector - CSS selector of the element to read instead of the whole page
+   * @returns Promise resolving to the links, headings and base URL of the page
+   * @throws {Error} If no element matches the selector, or reading the links fails
    *
    * @example
    * ```typescript
-   * const screenshot = await browserManager.takeScreenshotWithSizeLimit(page);
+   * const { links, headings } = await browserManager.extractLinks(page, "main");
    * ```
    */
-  async takeScreenshotWithSizeLimit(page: Page): Promise<string> {
-    console.log("takeScreenshotWithSizeLimit: started");
-    const MAX_DIMENSION = 1920;
-    const MIN_DIMENSION = 800;
+  async extractLinks(page: Page, selector?: string): Promise<RawPageLinks> {
+    console.log("extractLinks: started", selector);
+    try {
+      const raw = await page.evaluate(collectPageLinks, selector);
+      if (!raw) {
+        throw new Error(`No element matches selector "${selector}"`);
+      }
+      console.log("extractLinks: finished", {
+        links: raw.links.length,
+        headings: raw.headings.length,
+      });
+      return raw;
+    } catch (e) {
+      const error = new Error(`Link extraction failed: ${(e as Error).message}`);
+      console.error("extractLinks: Link extraction failed", error);
+      throw error;
+    }
+  }
 
-    console.log("takeScreenshotWithSizeLimit: setting viewport size 1600x900");
-    await page.setViewportSize({
-      width: 1600,
-      height: 900,
+  /**
+   * Clicks an element, waiting for a navigation it starts to begin.
+   *
+   * @param page - Playwright Page instance
+   * @param target - Element to click, by CSS selector, visible text or snapshot ref
+   * @returns Promise that resolves once the element has been clicked
+   * @throws {Error} If no visible element matches within {@link ACTION_TIMEOUT}
+   *
+   * @example
+   * ```typescript
+   * await browserManager.click(page, { text: "Accept all" });
+   * ```
+   */
+  async click(page: Page, target: ElementTarget): Promise<void> {
+    await this.performAction("click", "Click", () =>
+      this.locate(page, target).click({ timeout: ACTION_TIMEOUT })
+    );
+  }
+
+  /**
+   * Types text into a form field, replacing its value unless `clear` is false.
+   *
+   * @param page - Playwright Page instance
+   * @param target - Field to type into, by CSS selector or by label or placeholder
+   * @param value - Text to type
+   * @param options - Whether to replace the value and to press Enter afterwards
+   * @returns Promise that resolves once the text has been typed
+   * @throws {Error} If no editable field matches within {@link ACTION_TIMEOUT}
+   *
+   * @example
+   * ```typescript
+   * await browserManager.typeText(page, { text: "Search" }, "playwright", { submit: true });
+   * ```
+   */
+  async typeText(
+    page: Page,
+    target: ElementTarget,
+    value: string,
+    { clear = true, submit = false }: TypeTextOptions = {}
+  ): Promise<void> {
+    await this.performAction("typeText", "Typing", async () => {
+      const field = this.locate(page, target, true);
+      if (clear) {
+        await field.fill(value, { timeout: ACTION_TIMEOUT });
+      } else {
+        await field.press("End", { timeout: ACTION_TIMEOUT });
+        await field.pressSequentially(value, { timeout: ACTION_TIMEOUT });
+      }
+      if (submit) await field.press("Enter", { timeout: ACTION_TIMEOUT });
     });
+  }
 
-    console.log("takeScreenshotWithSizeLimit: taking screenshot attempt 1");
-    let screenshot = await page.screenshot({
-      type: "png",
-      fullPage: false,
+  /**
+   * Presses a key or key combination, on an element when given and otherwise on
+   * whatever has focus.
+   *
+   * @param page - Playwright Page instance
+   * @param key - Key such as `Enter` or `ArrowDown`, or a combination like `Control+A`
+   * @param target - Element to focus first
+   * @returns Promise that resolves once the key has been pressed
+   * @throws {Error} If the key is unknown, or no visible element matches the target
+   *
+   * @example
+   * ```typescript
+   * await browserManager.pressKey(page, "Escape");
+   * ```
+   */
+  async pressKey(page: Page, key: string, target?: ElementTarget): Promise<void> {
+    await this.performAction("pressKey", "Key press", () =>
+      target
+        ? this.locate(page, target).press(key, { timeout: ACTION_TIMEOUT })
+        : page.keyboard.press(key)
+    );
+  }
+
+  /**
+   * Scrolls the page by an amount or to its top or bottom, or scrolls an element
+   * into view.
+   *
+   * @param page - Playwright Page instance
+   * @param options - Element to reveal, or direction and distance to scroll
+   * @returns Promise that resolves once the page has scrolled
+   * @throws {Error} If no visible element matches the target
+   *
+   * @example
+   * ```typescript
+   * await browserManager.scroll(page, { direction: "bottom" });
+   * ```
+   */
+  async scroll(
+    page: Page,
+    { target, direction = "down", amount }: ScrollOptions = {}
+  ): Promise<void> {
+    await this.performAction("scroll", "Scroll", async () => {
+      if (target) {
+        await this.locate(page, target).scrollIntoViewIfNeeded({ timeout: ACTION_TIMEOUT });
+        return;
+      }
+      await page.evaluate(
+        ({ direction, amount }) => {
+          const distance = amount ?? window.innerHeight;
+          const top =
+            direction === "top"
+              ? 0
+              : direction === "bottom"
+                ? document.documentElement.scrollHeight
+                : window.scrollY + (direction === "up" ? -distance : distance);
+          window.scrollTo({ top, behavior: "instant" });
+        },
+        { direction, amount }
+      );
     });
+  }
 
-    let attempts = 0;
-    const MAX_ATTEMPTS = 3;
+  /**
+   * Selects options of a select element by value or label.
+   *
+   * @param page - Playwright Page instance
+   * @param target - Select element, by CSS selector or by label
+   * @param values - Values or labels of the options to select
+   * @returns Promise resolving to the values of the selected options
+   * @throws {Error} If no select matches, or it has no option with a given value
+   *
+   * @example
+   * ```typescript
+   * const selected = await browserManager.selectOption(page, { text: "Sort by" }, ["Newest"]);
+   * ```
+   */
+  async selectOption(page: Page, target: ElementTarget, values: string[]): Promise<string[]> {
+    return this.performAction("selectOption", "Selection", () =>
+      this.locate(page, target, true).selectOption(values, { timeout: ACTION_TIMEOUT })
+    );
+  }
+
+  /**
+   * Waits for an element to become visible or hidden, or to be added to or removed
+   * from the page.
+   *
+   * @param page - Playwright Page instance
+   * @param target - Element to wait for, by CSS selector, visible text or snapshot ref
+   * @param state - State to wait for
+   * @param timeout - Longest time to wait in milliseconds
+   * @returns Promise that resolves once the element is in the state
+   * @throws {Error} If the element doesn't reach the state in time
+   *
+   * @example
+   * ```typescript
+   * await browserManager.waitFor(page, { selector: ".results li" }, "visible", 10000);
+   * ```
+   */
+  async waitFor(
+    page: Page,
+    target: ElementTarget,
+    state: ElementState,
+    timeout: number
+  ): Promise<void> {
+    await this.performAction("waitFor", "Wait", () =>
+      this.locate(page, target).waitFor({ state, timeout })
+    );
+  }
 
-    while (screenshot.length > 5 * 1024 * 1024 && attempts < MAX_ATTEMPTS) {
-      attempts++;
-      const scaleFactor = 0.75 ** attempts;
-      const newWidth = Math.round(1600 * scaleFactor);
-      let newHeight = Math.round(900 * scaleFactor);
+  /**
+   * Waits up to {@link SETTLE_TIMEOUT} for the page to finish loading and the
+   * network to go idle after an interaction, so its effects show.
+   *
+   * @param page - Playwright Page instance
+   * @returns Promise that resolves once the page settled or the time is up
+   */
+  async waitForSettle(page: Page): Promise<void> {
+    await page.waitForLoadState("domcontentloaded", { timeout: SETTLE_TIMEOUT }).catch(() => {
+      /* ignore timeout */
+    });
+    await page.waitForLoadState("networkidle", { timeout: SETTLE_TIMEOUT }).catch(() => {
+      /* ignore timeout */
+    });
+  }
 
-      // Ensure dimensions stay within bounds  newWidth = Math.max(MIN_DIMENSION, Math.min(MAX_DIMENSION, newWidth));
-      newHeight = Math.max(MIN_DIMENSION, Math.min(MAX_DIMENSION, newHeight));
+  /**
+   * Reads the URL, title, visible text and scroll offset of the page, to compare
+   * before and after an interaction.
+   *
+   * @param page - Playwright Page instance
+   * @returns Promise resolving to the state of the page
+   */
+  async readPageState(page: Page): Promise<PageState> {
+    return page.evaluate(readPageState);
+  }
 
-      console.log(`takeScreenshotWithSizeLimit: reducing viewport size to ${newWidth}x${newHeight}, attempt ${attempts}`);
-      await page.setViewportSize({
-        width: newWidth,
-        height: newHeight,
+  /**
+   * Takes a snapshot of the page's accessibility tree as an indented outline, giving
+   * links, buttons, form fields, headings and similar elements refs that interactive
+   * methods accept as targets. Refs stay the same across snapshots for elements with
+   * the same role, name and position, until the page navigates, whether through
+   * {@link safePageNavigation} or a click, key press or form submit.
+   *
+   * @param page - Playwright Page instance
+   * @param interactiveOnly - List only elements with a ref
+   * @returns Promise resolving to the outline and the number of refs in it
+   * @throws {Error} If the accessibility tree can't be read
+   *
+   * @example
+   * ```typescript
+   * const { outline } = await browserManager.snapshotPage(page);
+   * await browserManager.click(page, { ref: "e3" });
+   * ```
+   */
+  async snapshotPage(
+    page: Page,
+    interactiveOnly = false
+  ): Promise<Pick<RenderedSnapshot, "outline" | "refCount">> {
+    console.log("snapshotPage: started");
+    if (!this.watchedPages.has(page)) {
+      this.watchedPages.add(page);
+      // Refs point at elements of the document they were taken from, so any
+      // navigation of the main frame voids them, including one an interaction caused
+      page.on("framenavigated", (frame) => {
+        if (frame === page.mainFrame()) this.snapshotRefs.delete(page);
       });
-
-      console.log(`takeScreenshotWithSizeLimit: taking screenshot attempt ${attempts + 1}`);
-      screenshot = await page.screenshot({
-        type: "png",
-        fullPage: false,
+    }
+    try {
+      const tree = parseAriaSnapshot(await page.locator("body").ariaSnapshot());
+      const { outline, refs, refCount } = renderSnapshot(tree, {
+        previous: this.snapshotRefs.get(page),
+        interactiveOnly,
       });
+      this.snapshotRefs.set(page, refs);
+      console.log("snapshotPage: finished", { refCount });
+      return { outline, refCount };
+    } catch (e) {
+      const error = new Error(`Page snapshot failed: ${(e as Error).message}`);
+      console.error("snapshotPage: Page snapshot failed", error);
+      throw error;
     }
+  }
 
-    if (screenshot.length > 5 * 1024 * 1024) {
-      console.log("takeScreenshotWithSizeLimit: screenshot still too large, reducing to minimum dimensions");
-      await page.setViewportSize({
-        width: MIN_DIMENSION,
-        height: MIN_DIMENSION,
-      });
+  /**
+   * Finds the first element matching a target. Visible text matches case-insensitively
+   * and only visible elements; for form fields it matches labels and placeholders.
+   * Refs are looked up in the page's snapshots.
+   *
+   * @internal
+   */
+  private locate(page: Page, target: ElementTarget, field = false): Locator {
+    if (target.ref) {
+      const locator = this.snapshotRefs.get(page)?.get(target.ref);
+      if (!locator) {
+        throw new Error(`Unknown ref "${target.ref}"; take a new page_snapshot of the page`);
+      }
+      const { role, name, nth } = locator;
+      return page.getByRole(role, name ? { name, exact: true } : {}).nth(nth);
+    }
+    if (target.selector) return page.locator(target.selector).first();
+    const text = target.text ?? "";
+    const matches = field
+      ? page.getByLabel(text).or(page.getByPlaceholder(text))
+      : page.getByText(text);
+    return matches.locator("visible=true").first();
+  }
 
-      screenshot = await page.screenshot({
-        type: "png",
-        fullPage: false,
-      });
+  /**
+   * Runs an interaction, logging it and wrapping failures in an error named after it
+   * that keeps only the first line of Playwright's message.
+   *
+   * @internal
+   */
+  private async performAction<T>(
+    caller: string,
+    label: string,
+    action: () => Promise<T>
+  ): Promise<T> {
+    console.log(`${caller}: started`);
+    try {
+      const result = await action();
+      console.log(`${caller}: finished`);
+      return result;
+    } catch (e) {
+      const error = new Error(`${label} failed: ${(e as Error).message.split("\n")[0]}`);
+      console.error(`${caller}: ${label} failed`, error);
+      throw error;
+    }
+  }
 
-      if (screenshot.length > 5 * 1024 * 1024) {
-        const error = new Error("Failed to reduce screenshot to under 5MB even with minimum settings");
-        console.error("takeScreenshotWithSizeLimit: Failed to reduce screenshot size", error);
-        throw error;
+  /**
+   * Takes a screenshot of the viewport, the whole page or one element, keeping every
+   * image under the 5MB limit. An oversized jpeg or webp capture is retried at lower
+   * quality; if that is not enough, or for png, the captured region is split into
+   * horizontal tiles that each fit the limit, returned top to bottom with the region
+   * they show.
+   *
+   * @param page - Playwright Page instance
+   * @param options - What to capture and in which format (default: png of a 1600x900 viewport)
+   * @returns Promise resolving to one image, or to several tiles of a large capture
+   * @throws {Error} If no element matches the selector, or the capture can't be split
+   * into at most {@link MAX_SCREENSHOT_TILES} tiles under the size limit
+   *
+   * @example
+   * ```typescript
+   * const [image] = await browserManager.takeScreenshotWithSizeLimit(page);
+   * const tiles = await browserManager.takeScreenshotWithSizeLimit(page, {
+   *   fullPage: true,
+   *   format: "jpeg",
+   * });
+   * ```
+   */
+  async takeScreenshotWithSizeLimit(
+    page: Page,
+    options: ScreenshotOptions = {}
+  ): Promise<ScreenshotImage[]> {
+    const { fullPage = false, selector, viewport = DEFAULT_VIEWPORT, format = "png" } = options;
+    console.log("takeScreenshotWithSizeLimit: started", options);
+    const mimeType = `image/${format}`;
+    const initialQuality =
+      format === "png" ? undefined : (options.quality ?? DEFAULT_SCREENSHOT_QUALITY);
+    if (options.tiled && selector) {
+      const error = new Error("Tiled screenshots cover the whole page and can't use a selector");
+      console.error("takeScreenshotWithSizeLimit: Invalid options", error);
+      throw error;
+    }
+
+    console.log(
+      `takeScreenshotWithSizeLimit: setting viewport size ${viewport.width}x${viewport.height}`
+    );
+    await page.setViewportSize(viewport);
+
+    if (options.tiled) {
+      return this.captureScrollSegments(page, format, initialQuality);
+    }
+
+    // Region in document coordinates, needed to clip elements and cut tiles
+    const region: PageRegion | null = await page.evaluate(
+      ({ sel, full }) => {
+        if (sel) {
+          const element = document.querySelector(sel);
+          if (!element) return null;
+          element.scrollIntoView({ block: "nearest" });
+          const rect = element.getBoundingClientRect();
+          return {
+            x: rect.left + window.scrollX,
+            y: rect.top + window.scrollY,
+            width: rect.width,
+            height: rect.height,
+          };
+        }
+        const root = document.documentElement;
+        return full
+          ? { x: 0, y: 0, width: root.scrollWidth, height: root.scrollHeight }
+          : {
+              x: window.scrollX,
+              y: window.scrollY,
+              width: window.innerWidth,
+              height: window.innerHeight,
+            };
+      },
+      { sel: selector, full: fullPage }
+    );
+    if (selector && !region) {
+      const error = new Error(`No element matches selector "${selector}"`);
+      console.error("takeScreenshotWithSizeLimit: Element not found", error);
+      throw error;
+    }
+
+    const clip = selector || fullPage ? (region ?? undefined) : undefined;
+    const { screenshot, quality } = await this.captureWithinQuality(
+      page,
+      format,
+      initialQuality,
+      clip
+    );
+    if (screenshot.length <= MAX_SCREENSHOT_SIZE) {
+      console.log("takeScreenshotWithSizeLimit: finished", screenshot.length);
+      return [{ data: screenshot.toString("base64"), mimeType }];
+    }
+
+    // Cut the region into strips, doubling their number until every strip fits
+    let tileCount = Math.ceil(screenshot.length / MAX_SCREENSHOT_SIZE) + 1;
+    while (region && tileCount <= MAX_SCREENSHOT_TILES) {
+      const tileHeight = Math.ceil(region.height / tileCount);
+      if (tileHeight < MIN_TILE_HEIGHT) break;
+      console.log(`takeScreenshotWithSizeLimit: splitting into ${tileCount} tiles`);
+      const tiles: ScreenshotImage[] = [];
+      for (let offset = 0; offset < region.height; offset += tileHeight) {
+        const tileClip = {
+          x: region.x,
+          y: region.y + offset,
+          width: region.width,
+          height: Math.min(tileHeight, region.height - offset),
+        };
+        const tile = await this.captureImage(page, format, quality, tileClip);
+        if (tile.length > MAX_SCREENSHOT_SIZE) break;
+        tiles.push({ data: tile.toString("base64"), mimeType, clip: tileClip });
       }
+      if (tiles.length === Math.ceil(region.height / tileHeight)) {
+        console.log("takeScreenshotWithSizeLimit: finished", { tiles: tiles.length });
+        return tiles;
+      }
+      tileCount *= 2;
+    }
+
+    const limit = `${MAX_SCREENSHOT_SIZE / (1024 * 1024)}MB`;
+    const error = new Error(
+      `Failed to reduce screenshot to under ${limit}; capture a smaller region or use jpeg or webp`
+    );
+    console.error("takeScreenshotWithSizeLimit: Failed to reduce screenshot size", error);
+    throw error;
+  }
+
+  /**
+   * Scrolls down the page one viewport at a time, capturing each. Before each capture,
+   * images in view that are still loading, such as lazy-loaded ones, get up to
+   * {@link LAZY_IMAGE_TIMEOUT} ms to finish. Full-width fixed or sticky bars pinned to
+   * the top or bottom of the viewport, like headers and cookie banners, are hidden
+   * after the first segment so they don't cover content in every image; they are
+   * restored and the page is scrolled back to the top afterwards. The last segment
+   * may overlap the one before it, as the page can't scroll past its end. At most
+   * {@link MAX_SCREENSHOT_TILES} segments are taken; each records the page height, so
+   * callers can tell when they stop short of the end.
+   *
+   * @internal
+   */
+  private async captureScrollSegments(
+    page: Page,
+    format: ImageFormat,
+    initialQuality: number | undefined
+  ): Promise<ScreenshotImage[]> {
+    const images: ScreenshotImage[] = [];
+    try {
+      for (let index = 0; index < MAX_SCREENSHOT_TILES; index++) {
+        const position = await page.evaluate(
+          async ({ segment, timeout }) => {
+            window.scrollTo(0, segment * window.innerHeight);
+            // Let lazy loaders react to the scroll, then wait for the images they started
+            await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve, 100)));
+            const pending = Array.from(document.images).filter((image) => {
+              const rect = image.getBoundingClientRect();
+              return !image.complete && rect.bottom > 0 && rect.top < window.innerHeight;
+            });
+            await Promise.race([
+              Promise.all(
+                pending.map(
+                  (image) =>
+                    new Promise((resolve) => {
+                      image.addEventListener("load", resolve, { once: true });
+                      image.addEventListener("error", resolve, { once: true });
+                    })
+                )
+              ),
+              new Promise((resolve) => setTimeout(resolve, timeout)),
+            ]);
+            return {
+              scrollY: Math.round(window.scrollY),
+              width: window.innerWidth,
+              height: window.innerHeight,
+              scrollHeight: document.documentElement.scrollHeight,
+            };
+          },
+          { segment: index, timeout: LAZY_IMAGE_TIMEOUT }
+        );
+        const previous = images[images.length - 1];
+        if (previous && position.scrollY <= (previous.scrollY ?? 0)) break;
+
+        if (index === 1) {
+          await page.evaluate(() => {
+            for (const el of document.querySelectorAll<HTMLElement>("body *")) {
+              const { position } = getComputedStyle(el);
+              if (position !== "fixed" && position !== "sticky") continue;
+              const rect = el.getBoundingClientRect();
+              const pinned = rect.top <= 1 || rect.bottom >= window.innerHeight - 1;
+              if (pinned && rect.width >= window.innerWidth / 2) {
+                el.dataset.screenshotVisibility = el.style.visibility;
+                el.style.visibility = "hidden";
+              }
+            }
+          });
+        }
+
+        const { screenshot } = await this.captureWithinQuality(page, format, initialQuality);
+        if (screenshot.length > MAX_SCREENSHOT_SIZE) {
+          const limit = `${MAX_SCREENSHOT_SIZE / (1024 * 1024)}MB`;
+          throw new Error(
+            `Segment at ${position.scrollY}px exceeds ${limit}; use jpeg or a smaller viewport`
+          );
+        }
+        console.log(`captureScrollSegments: captured segment at ${position.scrollY}px`);
+        images.push({
+          data: screenshot.toString("base64"),
+          mimeType: `image/${format}`,
+          scrollY: position.scrollY,
+          clip: { x: 0, y: position.scrollY, width: position.width, height: position.height },
+          pageHeight: position.scrollHeight,
+        });
+        if (position.scrollY + position.height >= position.scrollHeight) break;
+        if (index === MAX_SCREENSHOT_TILES - 1) {
+          console.log("captureScrollSegments: stopped before the end of the page", {
+            pageHeight: position.scrollHeight,
+          });
+        }
+      }
+    } finally {
+      await page.evaluate(() => {
+        for (const el of document.querySelectorAll<HTMLElement>("[data-screenshot-visibility]")) {
+          el.style.visibility = el.dataset.screenshotVisibility ?? "";
+          delete el.dataset.screenshotVisibility;
+        }
+        window.scrollTo(0, 0);
+      });
+    }
+    console.log("captureScrollSegments: finished", { segments: images.length });
+    return images;
+  }
+
+  /**
+   * Captures an image, retrying jpeg and webp at lower qualities while it is over the
+   * size limit. Returns the last capture, which may still be too large, and its quality.
+   *
+   * @internal
+   */
+  private async captureWithinQuality(
+    page: Page,
+    format: ImageFormat,
+    initialQuality: number | undefined,
+    clip?: PageRegion
+  ): Promise<{ screenshot: Buffer; quality: number | undefined }> {
+    let quality = initialQuality;
+    let screenshot = await this.captureImage(page, format, quality, clip);
+    for (const fallback of FALLBACK_SCREENSHOT_QUALITIES) {
+      if (screenshot.length <= MAX_SCREENSHOT_SIZE || quality === undefined) break;
+      if (fallback >= quality) continue;
+      quality = fallback;
+      console.log(`captureWithinQuality: reducing quality to ${quality}`);
+      screenshot = await this.captureImage(page, format, quality, clip);
+    }
+    return { screenshot, quality };
+  }
+
+  /**
+   * Captures the viewport, or the given region of the document, as an image.
+   * Playwright only encodes png and jpeg, so webp goes through the DevTools protocol.
+   *
+   * @internal
+   */
+  private async captureImage(
+    page: Page,
+    format: ImageFormat,
+    quality: number | undefined,
+    clip?: PageRegion
+  ): Promise<Buffer> {
+    if (format !== "webp") {
+      return page.screenshot({
+        type: format,
+        ...(quality !== undefined ? { quality } : {}),
+        ...(clip ? { fullPage: true, clip } : { fullPage: false }),
+      });
+    }
+    const session = await page.context().newCDPSession(page);
+    try {
+      const { data } = await session.send("Page.captureScreenshot", {
+        format: "webp",
+        quality,
+        ...(clip ? { clip: { ...clip, scale: 1 }, captureBeyondViewport: true } : {}),
+      });
+      return Buffer.from(data, "base64");
+    } finally {
+      await session.detach();
     }
-    console.log("takeScreenshotWithSizeLimit: finished");
-    return screenshot.toString("base64");
   }
 }
 
@@ -0,0 +1,217 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { CacheInfo, PageContent, SearchResponse } from "./types.js";
+import { readEnvNumber } from "./utils.js";
+
+/**
+ * Root directory of the on-disk cache. Unlike screenshots, cached entries are kept
+ * across server restarts so repeated queries do not hit DuckDuckGo again.
+ * Override with the `MCP_CACHE_DIR` environment variable.
+ * @constant {string}
+ */
+export const CACHE_DIR =
+  process.env.MCP_CACHE_DIR || path.join(os.tmpdir(), "mcp-duckduckresearch-cache");
+
+/**
+ * Time-to-live for cached search responses in milliseconds (default: 1 hour).
+ * Override with `MCP_SEARCH_CACHE_TTL` in seconds; `0` disables the search cache.
+ * @constant {number}
+ */
+export const SEARCH_CACHE_TTL = readEnvNumber("MCP_SEARCH_CACHE_TTL", 60 * 60) * 1000;
+
+/**
+ * Time-to-live for cached page content in milliseconds (default: 6 hours).
+ * Override with `MCP_PAGE_CACHE_TTL` in seconds; `0` disables the page cache.
+ * @constant {number}
+ */
+export const PAGE_CACHE_TTL = readEnvNumber("MCP_PAGE_CACHE_TTL", 6 * 60 * 60) * 1000;
+
+/**
+ * A value stored in the cache together with its lifetime
+ */
+export interface CacheEntry<T> {
+  /** Cached value */
+  value: T;
+  /** Epoch milliseconds when the value was stored */
+  storedAt: number;
+  /** Epoch milliseconds after which the value is stale */
+  expiresAt: number;
+}
+
+/**
+ * File-backed key/value cache with a fixed TTL. Each entry is stored as a JSON file
+ * named after the SHA-256 hash of its key, so keys of any length are safe to use.
+ * I/O failures are logged and treated as cache misses rather than surfaced to callers.
+ */
+export class DiskCache<T> {
+  /**
+   * @param dir - Directory holding this cache's entries
+   * @param ttl - Time-to-live of new entries in milliseconds; `0` disables the cache
+   */
+  constructor(
+    readonly dir: string,
+    readonly ttl: number
+  ) {}
+
+  /**
+   * Whether the cache stores and returns entries at all.
+   */
+  get enabled(): boolean {
+    return this.ttl > 0;
+  }
+
+  /**
+   * Looks up a fresh entry for a key. Expired entries are removed.
+   *
+   * @param key - Cache key
+   * @returns Promise resolving to the entry, or undefined on a miss
+   *
+   * @example
+   * ```typescript
+   * const entry = await searchCache.get(key);
+   * if (entry) return entry.value;
+   * ```
+   */
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const file = this.fileFor(key);
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(file, "utf8")) as CacheEntry<T>;
+      if (entry.expiresAt <= Date.now()) {
+        await fs.promises.unlink(file).catch(() => {
+          /* already removed */
+        });
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("DiskCache.get: Error reading cache entry", error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a value under a key, replacing any existing entry.
+   *
+   * @param key - Cache key
+   * @param value - JSON-serializable value to store
+   * @returns Promise resolving to the stored entry
+   */
+  async set(key: string, value: T): Promise<CacheEntry<T>> {
+    const storedAt = Date.now();
+    const entry: CacheEntry<T> = { value, storedAt, expiresAt: storedAt + this.ttl };
+    if (!this.enabled) {
+      return entry;
+    }
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      // Write to a temporary file first so concurrent readers never see partial JSON
+      const file = this.fileFor(key);
+      const tmpFile = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpFile, JSON.stringify(entry), "utf8");
+      await fs.promises.rename(tmpFile, file);
+    } catch (error) {
+      console.error("DiskCache.set: Error writing cache entry", error);
+    }
+    return entry;
+  }
+
+  /**
+   * Removes every entry from the cache.
+   *
+   * @returns Promise that resolves when the cache directory has been removed
+   */
+  async clear(): Promise<void> {
+    try {
+      await fs.promises.rm(this.dir, { recursive: true, force: true });
+    } catch (error) {
+      console.error("DiskCache.clear: Error clearing cache", error);
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
+
+/**
+ * Describes a cache entry for inclusion in a response.
+ *
+ * @param entry - Entry that was read from or written to the cache
+ * @param hit - Whether the entry was served from the cache
+ * @returns Cache status with ISO timestamps
+ */
+export function toCacheInfo(entry: CacheEntry<unknown>, hit: boolean): CacheInfo {
+  return {
+    hit,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Normalizes a search query for use in a cache key: trims, collapses whitespace
+ * and lower-cases it, since DuckDuckGo treats these spellings identically.
+ *
+ * @param query - Search query
+ * @returns Normalized query
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Builds a stable cache key from a namespace and the arguments identifying a request.
+ * Object keys are sorted and undefined values dropped, so argument order and omitted
+ * optional arguments do not produce distinct entries.
+ *
+ * @param namespace - Tool or operation the key belongs to
+ * @param value - Arguments identifying the request
+ * @returns Stable cache key
+ *
+ * @example
+ * ```typescript
+ * createCacheKey("search", { query: normalizeQuery("  TypeScript "), region: "us-en" });
+ * // => 'search:{"query":"typescript","region":"us-en"}'
+ * ```
+ */
+export function createCacheKey(namespace: string, value: unknown): string {
+  return `${namespace}:${JSON.stringify(sortKeys(value))}`;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, sortKeys(v)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Cache for web search responses, keyed on normalized query and options
+ */
+export const searchCache = new DiskCache<SearchResponse>(
+  path.join(CACHE_DIR, "search"),
+  SEARCH_CACHE_TTL
+);
+
+/**
+ * Cache for loaded pages and their extracted content, keyed on canonical URL and
+ * extraction options
+ */
+export const pageCache = new DiskCache<PageContent>(path.join(CACHE_DIR, "pages"), PAGE_CACHE_TTL);
@@ -0,0 +1,236 @@
+import type { TocEntry } from "./types.js";
+
+/**
+ * Maximum length of a chunk in characters. Longer sections are split into parts.
+ * @constant {number}
+ */
+export const MAX_CHUNK_LENGTH = 8000;
+
+/**
+ * ID of the chunk holding the content before the first heading
+ * @constant {string}
+ */
+export const INTRO_CHUNK_ID = "intro";
+
+/**
+ * A section of a Markdown document, small enough to read on its own
+ */
+export interface MarkdownChunk {
+  /** Stable ID derived from the headings leading to this section */
+  id: string;
+  /** Heading of the section, absent for the introduction */
+  title?: string;
+  /** Heading level, 0 for the introduction */
+  level: number;
+  /** Titles of the enclosing headings, outermost first, including this one */
+  path: string[];
+  /** Markdown text of the chunk */
+  text: string;
+}
+
+/**
+ * Chunks of a Markdown document and its table of contents
+ */
+export interface ChunkedMarkdown {
+  /** Chunks in document order */
+  chunks: MarkdownChunk[];
+  /** Every heading with the ID of the chunk it starts in */
+  toc: TocEntry[];
+}
+
+/**
+ * Turns a heading into an ID segment, keeping letters and digits of any script.
+ *
+ * @internal
+ */
+function slugify(heading: string): string {
+  return (
+    heading
+      .toLowerCase()
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
+
+/**
+ * Updates the open code fence after a line: a fence opens on ``` or ~~~ and closes on
+ * a marker of the same kind that is at least as long.
+ *
+ * @param line - Markdown line
+ * @param fence - Marker of the fence open before the line, if any
+ * @returns Marker of the fence open after the line, if any
+ */
+export function trackFence(line: string, fence: string | undefined): string | undefined {
+  const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+  if (!marker) return fence;
+  if (!fence) return marker;
+  return marker.startsWith(fence) ? undefined : fence;
+}
+
+/**
+ * Splits Markdown into blocks separated by blank lines, keeping fenced code blocks
+ * whole.
+ *
+ * @internal
+ */
+function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let fence: string | undefined;
+  for (const line of markdown.split("\n")) {
+    fence = trackFence(line, fence);
+    if (!fence && line.trim() === "") {
+      if (current.length) blocks.push(current.join("\n"));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length) blocks.push(current.join("\n"));
+  return blocks;
+}
+
+/**
+ * Packs text into parts of at most `maxLength` characters, breaking between blocks,
+ * then between lines, and only cutting lines that are too long on their own.
+ *
+ * @internal
+ */
+function splitText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const pieces: Array<{ text: string; separator: string }> = [];
+  for (const block of splitBlocks(text)) {
+    if (block.length <= maxLength) {
+      pieces.push({ text: block, separator: "\n\n" });
+      continue;
+    }
+    block.split("\n").forEach((line, index) => {
+      for (let start = 0; start < Math.max(line.length, 1); start += maxLength) {
+        const separator = index === 0 && start === 0 ? "\n\n" : start === 0 ? "\n" : "";
+        pieces.push({ text: line.slice(start, start + maxLength), separator });
+      }
+    });
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const { text: piece, separator } of pieces) {
+    if (current && current.length + separator.length + piece.length > maxLength) {
+      parts.push(current);
+      current = piece;
+    } else {
+      current = current ? current + separator + piece : piece;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Splits a Markdown document into chunks at its headings, for reading long pages
+ * piece by piece. Every section becomes a chunk with an ID built from the slugs of
+ * its heading and the headings above it, e.g. `installation/linux`, so the same
+ * section gets the same ID on every extraction of the page. Content before the first
+ * heading is the {@link INTRO_CHUNK_ID} chunk. Headings directly followed by a
+ * subheading are kept with the subheading's chunk. Sections longer than `maxLength`
+ * are split into parts with IDs suffixed `:2`, `:3` and so on. Headings inside
+ * fenced code blocks are ignored.
+ *
+ * @param markdown - Markdown document
+ * @param maxLength - Maximum chunk length in characters
+ * @returns Chunks in document order and a table of contents
+ *
+ * @example
+ * ```typescript
+ * const { chunks, toc } = chunkMarkdown("Intro\n\n# Setup\n\n## Linux\n\napt install foo");
+ * // chunks.map((chunk) => chunk.id) => ["intro", "setup/linux"]
+ * // toc => [{ id: "intro", ... }, { id: "setup/linux", title: "Setup", level: 1, ... }, ...]
+ * ```
+ */
+export function chunkMarkdown(markdown: string, maxLength = MAX_CHUNK_LENGTH): ChunkedMarkdown {
+  const sections: Array<{ level: number; title?: string; lines: string[] }> = [
+    { level: 0, lines: [] },
+  ];
+  let fence: string | undefined;
+  for (const line of markdown.split("\n")) {
+    fence = trackFence(line, fence);
+    const heading = fence ? null : /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+    if (heading?.[2]) {
+      sections.push({ level: heading[1].length, title: heading[2], lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const chunks: MarkdownChunk[] = [];
+  const toc: TocEntry[] = [];
+  const usedIds = new Map<string, number>();
+  const stack: Array<{ level: number; title: string; slug: string }> = [];
+  let pendingHeadings: string[] = [];
+  let pendingEntries: Array<Omit<TocEntry, "id" | "length">> = [];
+
+  for (const section of sections) {
+    if (section.title) {
+      while (stack.length && stack[stack.length - 1].level >= section.level) stack.pop();
+      stack.push({ level: section.level, title: section.title, slug: slugify(section.title) });
+      pendingEntries.push({ title: section.title, level: section.level });
+    }
+    const body = section.lines
+      .slice(section.title ? 1 : 0)
+      .join("\n")
+      .trim();
+    if (!body) {
+      if (section.title) pendingHeadings.push(section.lines[0]);
+      continue;
+    }
+
+    const baseId = section.title ? stack.map(({ slug }) => slug).join("/") : INTRO_CHUNK_ID;
+    const seen = usedIds.get(baseId) ?? 0;
+    usedIds.set(baseId, seen + 1);
+    const id = seen ? `${baseId}-${seen + 1}` : baseId;
+
+    const text = [...pendingHeadings, section.lines.join("\n").trim()].join("\n\n");
+    const parts = splitText(text, maxLength);
+    parts.forEach((part, index) => {
+      chunks.push({
+        id: index === 0 ? id : `${id}:${index + 1}`,
+        ...(section.title ? { title: section.title } : {}),
+        level: section.level,
+        path: stack.map(({ title }) => title),
+        text: part,
+      });
+    });
+
+    const length = parts.reduce((total, part) => total + part.length, 0);
+    if (!section.title) {
+      toc.push({ id, title: "Introduction", level: 0, length });
+    }
+    for (const entry of pendingEntries) {
+      toc.push({ id, ...entry, length });
+    }
+    pendingHeadings = [];
+    pendingEntries = [];
+  }
+
+  // Headings at the very end with nothing below them still belong somewhere
+  if (pendingHeadings.length) {
+    const text = pendingHeadings.join("\n\n");
+    const baseId = stack.map(({ slug }) => slug).join("/");
+    const id = usedIds.has(baseId) ? `${baseId}-${(usedIds.get(baseId) ?? 0) + 1}` : baseId;
+    const last = stack[stack.length - 1];
+    chunks.push({
+      id,
+      title: last.title,
+      level: last.level,
+      path: stack.map(({ title }) => title),
+      text,
+    });
+    for (const entry of pendingEntries) {
+      toc.push({ id, ...entry, length: text.length });
+    }
+  }
+
+  return { chunks, toc };
+}
@@ -0,0 +1,253 @@
+import { z } from "zod";
+
+/**
+ * Kinds of content a search result can be classified as
+ * @constant
+ */
+export const CONTENT_TYPES = [
+  "documentation",
+  "code_repository",
+  "qa",
+  "forum",
+  "news",
+  "academic",
+  "video",
+  "pdf",
+  "encyclopedia",
+  "ecommerce",
+  "social",
+  "article",
+] as const;
+
+/**
+ * Schema for a content type name
+ */
+export const ContentTypeSchema = z.enum(CONTENT_TYPES);
+
+/**
+ * Kind of content a search result points to
+ */
+export type ContentType = z.infer<typeof ContentTypeSchema>;
+
+/**
+ * Rule assigning a content type to matching URLs. A rule with both `domains` and
+ * `urlPattern` only matches URLs satisfying both.
+ */
+export interface ContentTypeRule {
+  /** Content type assigned by this rule */
+  type: ContentType;
+  /** Hostnames matched exactly or as a parent domain, e.g. "github.com" matches "gist.github.com" */
+  domains?: string[];
+  /** Pattern tested against the lower-cased URL */
+  urlPattern?: RegExp;
+}
+
+/**
+ * Built-in classification table, checked in order after any configured rules; the
+ * first matching rule wins. More specific rules come first, e.g. docs.github.com
+ * before github.com, and domain lists before generic URL patterns.
+ * @constant
+ */
+export const DEFAULT_CONTENT_TYPE_RULES: ContentTypeRule[] = [
+  { type: "pdf", urlPattern: /\.pdf($|[?#])/ },
+  {
+    type: "documentation",
+    domains: [
+      "docs.github.com",
+      "developer.mozilla.org",
+      "learn.microsoft.com",
+      "docs.rs",
+      "pkg.go.dev",
+      "readthedocs.io",
+      "readthedocs.org",
+      "devdocs.io",
+      "cppreference.com",
+      "docs.oracle.com",
+    ],
+  },
+  {
+    type: "qa",
+    domains: [
+      "stackoverflow.com",
+      "stackexchange.com",
+      "superuser.com",
+      "serverfault.com",
+      "askubuntu.com",
+      "mathoverflow.net",
+      "quora.com",
+      "zhihu.com",
+      "answers.microsoft.com",
+    ],
+  },
+  {
+    type: "forum",
+    domains: ["reddit.com", "news.ycombinator.com", "lobste.rs", "v2ex.com", "tieba.baidu.com"],
+  },
+  {
+    type: "code_repository",
+    domains: [
+      "github.com",
+      "gitlab.com",
+      "bitbucket.org",
+      "codeberg.org",
+      "sourceforge.net",
+      "sr.ht",
+      "gitee.com",
+    ],
+  },
+  {
+    type: "academic",
+    domains: [
+      "arxiv.org",
+      "biorxiv.org",
+      "scholar.google.com",
+      "semanticscholar.org",
+      "researchgate.net",
+      "doi.org",
+      "ncbi.nlm.nih.gov",
+      "sciencedirect.com",
+      "link.springer.com",
+      "onlinelibrary.wiley.com",
+      "ieeexplore.ieee.org",
+      "dl.acm.org",
+      "aclanthology.org",
+      "openreview.net",
+      "jstor.org",
+      "ssrn.com",
+      "nature.com",
+      "plos.org",
+    ],
+  },
+  {
+    type: "encyclopedia",
+    domains: [
+      "wikipedia.org",
+      "britannica.com",
+      "wikiwand.com",
+      "encyclopedia.com",
+      "scholarpedia.org",
+      "baike.baidu.com",
+    ],
+  },
+  {
+    type: "video",
+    domains: [
+      "youtube.com",
+      "youtu.be",
+      "vimeo.com",
+      "dailymotion.com",
+      "twitch.tv",
+      "ted.com",
+      "bilibili.com",
+      "tiktok.com",
+      "nicovideo.jp",
+    ],
+  },
+  {
+    type: "social",
+    domains: [
+      "twitter.com",
+      "x.com",
+      "facebook.com",
+      "linkedin.com",
+      "instagram.com",
+      "threads.net",
+      "bsky.app",
+      "mastodon.social",
+      "weibo.com",
+      "pinterest.com",
+      "tumblr.com",
+    ],
+  },
+  {
+    type: "ecommerce",
+    domains: [
+      "etsy.com",
+      "aliexpress.com",
+      "walmart.com",
+      "bestbuy.com",
+      "target.com",
+      "newegg.com",
+      "taobao.com",
+      "tmall.com",
+      "jd.com",
+      "rakuten.co.jp",
+      "myshopify.com",
+    ],
+  },
+  { type: "ecommerce", urlPattern: /^https?:\/\/([a-z0-9-]+\.)*(amazon|ebay)\.[a-z.]+\// },
+  {
+    type: "news",
+    domains: [
+      "reuters.com",
+      "apnews.com",
+      "bbc.com",
+      "bbc.co.uk",
+      "cnn.com",
+      "nytimes.com",
+      "washingtonpost.com",
+      "theguardian.com",
+      "bloomberg.com",
+      "wsj.com",
+      "ft.com",
+      "cnbc.com",
+      "npr.org",
+      "aljazeera.com",
+      "axios.com",
+      "techcrunch.com",
+      "theverge.com",
+      "arstechnica.com",
+      "wired.com",
+      "engadget.com",
+      "zdnet.com",
+      "news.google.com",
+    ],
+  },
+  {
+    type: "documentation",
+    urlPattern: /^https?:\/\/(docs?|developers?)\.|\/(docs?|documentation|manual|api-reference)\//,
+  },
+  { type: "forum", urlPattern: /^https?:\/\/(forums?|community|discuss|discourse)\.|\/forums?\// },
+  { type: "news", urlPattern: /^https?:\/\/news\.|\/news\// },
+];
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Classifies a URL by the first matching rule in a table.
+ *
+ * @param url - URL of the search result
+ * @param rules - Rules to check in order, defaults to {@link DEFAULT_CONTENT_TYPE_RULES}
+ * @returns The matching content type, or "article" if no rule matches
+ *
+ * @example
+ * ```typescript
+ * classifyUrl("https://stackoverflow.com/questions/123"); // => "qa"
+ * classifyUrl("https://example.com/blog/post"); // => "article"
+ * ```
+ */
+export function classifyUrl(
+  url: string,
+  rules: ContentTypeRule[] = DEFAULT_CONTENT_TYPE_RULES
+): ContentType {
+  const lowerUrl = url.toLowerCase();
+  let hostname: string;
+  try {
+    hostname = new URL(lowerUrl).hostname.replace(/^www\./, "");
+  } catch {
+    return "article";
+  }
+
+  for (const rule of rules) {
+    if (rule.domains && !rule.domains.some((domain) => matchesDomain(hostname, domain))) {
+      continue;
+    }
+    if (rule.urlPattern && !rule.urlPattern.test(lowerUrl)) {
+      continue;
+    }
+    return rule.type;
+  }
+  return "article";
+}
@@ -0,0 +1,274 @@
+import * as fs from "node:fs";
+import { SafeSearchType } from "duck-duck-scrape";
+import { z } from "zod";
+import { type ContentTypeRule, ContentTypeSchema, DEFAULT_CONTENT_TYPE_RULES } from "./classify.js";
+
+/**
+ * Region codes accepted by DuckDuckGo's `kl` parameter, mapped to their display names.
+ * `wt-wt` searches without regional bias.
+ * @constant
+ */
+export const DUCKDUCKGO_REGIONS: Record<string, string> = {
+  "wt-wt": "No region",
+  "xa-ar": "Arabia",
+  "xa-en": "Arabia (en)",
+  "ar-es": "Argentina",
+  "au-en": "Australia",
+  "at-de": "Austria",
+  "be-fr": "Belgium (fr)",
+  "be-nl": "Belgium (nl)",
+  "br-pt": "Brazil",
+  "bg-bg": "Bulgaria",
+  "ca-en": "Canada",
+  "ca-fr": "Canada (fr)",
+  "ct-ca": "Catalan",
+  "cl-es": "Chile",
+  "cn-zh": "China",
+  "co-es": "Colombia",
+  "hr-hr": "Croatia",
+  "cz-cs": "Czech Republic",
+  "dk-da": "Denmark",
+  "ee-et": "Estonia",
+  "fi-fi": "Finland",
+  "fr-fr": "France",
+  "de-de": "Germany",
+  "gr-el": "Greece",
+  "hk-tzh": "Hong Kong",
+  "hu-hu": "Hungary",
+  "in-en": "India",
+  "id-id": "Indonesia",
+  "id-en": "Indonesia (en)",
+  "ie-en": "Ireland",
+  "il-he": "Israel",
+  "it-it": "Italy",
+  "jp-jp": "Japan",
+  "kr-kr": "Korea",
+  "lv-lv": "Latvia",
+  "lt-lt": "Lithuania",
+  "xl-es": "Latin America",
+  "my-ms": "Malaysia",
+  "my-en": "Malaysia (en)",
+  "mx-es": "Mexico",
+  "nl-nl": "Netherlands",
+  "nz-en": "New Zealand",
+  "no-no": "Norway",
+  "pe-es": "Peru",
+  "ph-en": "Philippines",
+  "ph-tl": "Philippines (tl)",
+  "pl-pl": "Poland",
+  "pt-pt": "Portugal",
+  "ro-ro": "Romania",
+  "ru-ru": "Russia",
+  "sg-en": "Singapore",
+  "sk-sk": "Slovak Republic",
+  "sl-sl": "Slovenia",
+  "za-en": "South Africa",
+  "es-es": "Spain",
+  "se-sv": "Sweden",
+  "ch-de": "Switzerland (de)",
+  "ch-fr": "Switzerland (fr)",
+  "ch-it": "Switzerland (it)",
+  "tw-tzh": "Taiwan",
+  "th-th": "Thailand",
+  "tr-tr": "Turkey",
+  "ua-uk": "Ukraine",
+  "uk-en": "United Kingdom",
+  "us-en": "United States",
+  "ue-es": "United States (es)",
+  "ve-es": "Venezuela",
+  "vn-vi": "Vietnam",
+};
+
+const REGION_CODES = Object.keys(DUCKDUCKGO_REGIONS) as [string, ...string[]];
+
+/**
+ * Checks whether a string is a DuckDuckGo region code.
+ *
+ * @param region - Region code to check, e.g. "us-en"
+ * @returns True if DuckDuckGo recognizes the region
+ */
+export function isValidRegion(region: string): boolean {
+  return Object.hasOwn(DUCKDUCKGO_REGIONS, region);
+}
+
+/**
+ * Schema for a DuckDuckGo region code. The valid codes are listed in the generated
+ * JSON schema and in the validation error for unknown ones.
+ */
+export const RegionSchema = z.enum(REGION_CODES, {
+  errorMap: (_issue, ctx) => ({
+    message: `Unknown region ${JSON.stringify(ctx.data)}; expected one of: ${REGION_CODES.join(", ")}`,
+  }),
+});
+
+const SAFE_SEARCH_LEVELS = {
+  strict: SafeSearchType.STRICT,
+  moderate: SafeSearchType.MODERATE,
+  off: SafeSearchType.OFF,
+};
+
+/**
+ * Schema for search defaults in the configuration file and environment overrides.
+ * Safe search levels are given by name (`strict`, `moderate` or `off`, case-insensitive).
+ */
+const SearchDefaultsConfigSchema = z.object({
+  region: RegionSchema,
+  safeSearch: z
+    .string()
+    .transform((level) => level.toLowerCase())
+    .pipe(z.enum(["strict", "moderate", "off"]))
+    .transform((level) => SAFE_SEARCH_LEVELS[level]),
+  numResults: z.coerce.number().int().min(1),
+  verticalNumResults: z.coerce.number().int().min(1),
+});
+
+/**
+ * Schema for a content type rule in the configuration file. URL patterns are
+ * regular expressions given as strings and matched case-insensitively.
+ */
+const ContentTypeRuleConfigSchema = z
+  .object({
+    type: ContentTypeSchema,
+    domains: z
+      .array(z.string().regex(/^[a-z0-9.-]+$/i, "Expected a bare domain such as example.com"))
+      .min(1)
+      .optional(),
+    urlPattern: z
+      .string()
+      .refine((pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, "Invalid regular expression")
+      .optional(),
+  })
+  .strict()
+  .refine((rule) => rule.domains || rule.urlPattern, "A rule needs domains or urlPattern")
+  .transform(
+    (rule): ContentTypeRule => ({
+      type: rule.type,
+      ...(rule.domains ? { domains: rule.domains.map((domain) => domain.toLowerCase()) } : {}),
+      ...(rule.urlPattern ? { urlPattern: new RegExp(rule.urlPattern, "i") } : {}),
+    })
+  );
+
+/**
+ * Schema for the JSON file named by `MCP_CONFIG_FILE`
+ */
+const ConfigFileSchema = SearchDefaultsConfigSchema.extend({
+  contentTypes: z.array(ContentTypeRuleConfigSchema),
+})
+  .partial()
+  .strict();
+
+/**
+ * Defaults applied to search tools when a call leaves an option out
+ */
+export interface SearchDefaults {
+  /** DuckDuckGo region code */
+  region: string;
+  /** Safe search level */
+  safeSearch: SafeSearchType;
+  /** Number of web results returned by search_duckduckgo */
+  numResults: number;
+  /** Number of results returned by the news, image and video searches */
+  verticalNumResults: number;
+}
+
+/**
+ * Configuration of this server process
+ */
+export interface ServerConfig {
+  /** Defaults for options a search tool call leaves out */
+  searchDefaults: SearchDefaults;
+  /** Content type classification rules, configured rules first */
+  contentTypeRules: ContentTypeRule[];
+}
+
+/**
+ * Built-in search defaults, used for anything not configured
+ * @constant
+ */
+export const BUILTIN_SEARCH_DEFAULTS: SearchDefaults = {
+  region: "wt-wt",
+  safeSearch: SafeSearchType.MODERATE,
+  numResults: 50,
+  verticalNumResults: 30,
+};
+
+function parseConfig<S extends z.ZodTypeAny>(
+  schema: S,
+  source: string,
+  value: unknown
+): z.infer<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "config"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid configuration in ${source}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Loads the server configuration at start. Search defaults are taken from, in order
+ * of precedence, the `MCP_DEFAULT_REGION`, `MCP_DEFAULT_SAFE_SEARCH`,
+ * `MCP_DEFAULT_NUM_RESULTS` and `MCP_DEFAULT_VERTICAL_NUM_RESULTS` environment
+ * variables, the JSON file named by `MCP_CONFIG_FILE`, and {@link BUILTIN_SEARCH_DEFAULTS}.
+ * Content type rules from the file's `contentTypes` are checked before
+ * {@link DEFAULT_CONTENT_TYPE_RULES}.
+ *
+ * @param env - Environment to read, defaults to `process.env`
+ * @returns Resolved server configuration
+ * @throws {Error} If the config file cannot be read or a value is invalid
+ *
+ * @example
+ * ```typescript
+ * // MCP_CONFIG_FILE=/etc/mcp-duckduckresearch.json containing
+ * // { "region": "uk-en", "contentTypes": [{ "type": "documentation", "domains": ["wiki.corp.example"] }] }
+ * const { searchDefaults, contentTypeRules } = loadServerConfig();
+ * // searchDefaults.region => "uk-en"
+ * ```
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  let fileConfig: z.infer<typeof ConfigFileSchema> = {};
+  if (env.MCP_CONFIG_FILE) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(env.MCP_CONFIG_FILE, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Could not read config file ${env.MCP_CONFIG_FILE}: ${(error as Error).message}`
+      );
+    }
+    fileConfig = parseConfig(ConfigFileSchema, env.MCP_CONFIG_FILE, raw);
+  }
+
+  const envConfig = parseConfig(
+    SearchDefaultsConfigSchema.partial().strict(),
+    "environment",
+    Object.fromEntries(
+      Object.entries({
+        region: env.MCP_DEFAULT_REGION,
+        safeSearch: env.MCP_DEFAULT_SAFE_SEARCH,
+        numResults: env.MCP_DEFAULT_NUM_RESULTS,
+        verticalNumResults: env.MCP_DEFAULT_VERTICAL_NUM_RESULTS,
+      }).filter(([, value]) => value !== undefined && value !== "")
+    )
+  );
+
+  const { contentTypes = [], ...fileDefaults } = fileConfig;
+  return {
+    searchDefaults: { ...BUILTIN_SEARCH_DEFAULTS, ...fileDefaults, ...envConfig },
+    contentTypeRules: [...contentTypes, ...DEFAULT_CONTENT_TYPE_RULES],
+  };
+}
+
+/**
+ * Configuration of this server process, loaded once at start
+ */
+export const { searchDefaults, contentTypeRules } = loadServerConfig();
@@ -0,0 +1,112 @@
+import { urlIdentityKey } from "./utils.js";
+
+/**
+ * Minimum word-set similarity of two titles for the results to be near-duplicates
+ * @constant {number}
+ */
+export const TITLE_SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * Minimum word-set similarity of two descriptions for the results to be near-duplicates
+ * @constant {number}
+ */
+export const DESCRIPTION_SIMILARITY_THRESHOLD = 0.7;
+
+/**
+ * Fields of a result used to detect duplicates
+ */
+export interface DedupableResult {
+  url: string;
+  title: string;
+  description: string;
+}
+
+/**
+ * Words of a text for similarity comparison, ignoring case and punctuation.
+ *
+ * @internal
+ */
+function wordSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+  );
+}
+
+/**
+ * Jaccard similarity of two word sets; two empty sets are not considered similar.
+ *
+ * @internal
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Tracks the results accepted so far and rejects duplicates of them: the same page
+ * under another URL spelling (tracking parameters, AMP, `http`/`https`, `www.` or
+ * mobile hosts), or a near-identical title and description, as syndicated copies and
+ * mirrors have. The first, highest-ranked occurrence is kept.
+ *
+ * @example
+ * ```typescript
+ * const deduplicator = new ResultDeduplicator();
+ * const unique = results.filter((result) => deduplicator.add(result));
+ * console.log(`${deduplicator.mergedCount} duplicates merged`);
+ * ```
+ */
+export class ResultDeduplicator {
+  private readonly urls = new Map<string, number>();
+  private readonly texts: Array<{ title: Set<string>; description: Set<string> }> = [];
+  private merged = 0;
+
+  /**
+   * Number of results rejected as duplicates so far.
+   */
+  get mergedCount(): number {
+    return this.merged;
+  }
+
+  /**
+   * Finds the recorded result that a result duplicates, without recording it.
+   *
+   * @param result - Result to check
+   * @returns Position of the duplicated result among the recorded ones, or -1 if it is new
+   */
+  indexOf(result: DedupableResult): number {
+    const byUrl = this.urls.get(urlIdentityKey(result.url));
+    if (byUrl !== undefined) {
+      return byUrl;
+    }
+    const title = wordSet(result.title);
+    const description = wordSet(result.description);
+    return this.texts.findIndex(
+      (seen) =>
+        similarity(seen.title, title) >= TITLE_SIMILARITY_THRESHOLD &&
+        similarity(seen.description, description) >= DESCRIPTION_SIMILARITY_THRESHOLD
+    );
+  }
+
+  /**
+   * Records a result unless it duplicates one recorded earlier.
+   *
+   * @param result - Result to check
+   * @returns True if the result is new, false if it was merged into an earlier one
+   */
+  add(result: DedupableResult): boolean {
+    if (this.indexOf(result) !== -1) {
+      this.merged++;
+      return false;
+    }
+    this.urls.set(urlIdentityKey(result.url), this.texts.length);
+    this.texts.push({ title: wordSet(result.title), description: wordSet(result.description) });
+    return true;
+  }
+}
@@ -10,9 +10,51 @@ import {
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import { browserManager } from "./browser.js";
-import { performSearch } from "./search.js";
+import {
+  performChunkRead,
+  performClick,
+  performKeyPress,
+  performLinkExtraction,
+  performPageSnapshot,
+  performPageVisit,
+  performScreenshot,
+  performScroll,
+  performSelectOption,
+  performSessionClose,
+  performSessionList,
+  performTableExtraction,
+  performTypeText,
+  performWaitFor,
+} from "./research.js";
+import {
+  performBatchSearch,
+  performImageSearch,
+  performNewsSearch,
+  performSearch,
+  performVideoSearch,
+} from "./search.js";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { SearchArgsSchema, VisitPageArgsSchema } from "./types.js";
+import {
+  BatchSearchArgsSchema,
+  ClickArgsSchema,
+  CloseSessionArgsSchema,
+  ExtractLinksArgsSchema,
+  ExtractTablesArgsSchema,
+  ImageSearchArgsSchema,
+  ListSessionsArgsSchema,
+  NewsSearchArgsSchema,
+  PageSnapshotArgsSchema,
+  PressKeyArgsSchema,
+  ReadChunkArgsSchema,
+  ScrollArgsSchema,
+  SearchArgsSchema,
+  SelectOptionArgsSchema,
+  TakeScreenshotArgsSchema,
+  TypeTextArgsSchema,
+  VideoSearchArgsSchema,
+  VisitPageArgsSchema,
+  WaitForArgsSchema,
+} from "./types.js";
 
 export class DuckDuckResearchServer {
   private server: Server;
@@ -68,19 +110,108 @@ export class DuckDuckResearchServer {
           description: "Search the web using DuckDuckGo",
           inputSchema: zodToJsonSchema(SearchArgsSchema) as any,
         },
+        {
+          name: "search_news",
+          description: "Search recent news articles using DuckDuckGo News",
+          inputSchema: zodToJsonSchema(NewsSearchArgsSchema) as any,
+        },
+        {
+          name: "search_images",
+          description: "Search images using DuckDuckGo Images",
+          inputSchema: zodToJsonSchema(ImageSearchArgsSchema) as any,
+        },
+        {
+          name: "search_videos",
+          description: "Search videos using DuckDuckGo Videos",
+          inputSchema: zodToJsonSchema(VideoSearchArgsSchema) as any,
+        },
+        {
+          name: "batch_search",
+          description:
+            "Run several DuckDuckGo web searches at once and merge their de-duplicated results, ranked by reciprocal rank fusion",
+          inputSchema: zodToJsonSchema(BatchSearchArgsSchema) as any,
+        },
         {
           name: "visit_page",
           description: "Visit a webpage and extract its content",
-          inputSchema: VisitPageArgsSchema,
+          inputSchema: zodToJsonSchema(VisitPageArgsSchema) as any,
+        },
+        {
+          name: "read_chunk",
+          description:
+            "Read one section of a page's Markdown content by the chunk ID from visit_page's table of contents, without reloading the page",
+          inputSchema: zodToJsonSchema(ReadChunkArgsSchema) as any,
+        },
+        {
+          name: "extract_tables",
+          description:
+            "Extract every data table on a page as JSON rows keyed by column name or as CSV, with merged cells expanded",
+          inputSchema: zodToJsonSchema(ExtractTablesArgsSchema) as any,
+        },
+        {
+          name: "extract_links",
+          description:
+            "Extract a page's unique links as absolute URLs with anchor text, rel, internal/external type and section heading, plus its heading outline",
+          inputSchema: zodToJsonSchema(ExtractLinksArgsSchema) as any,
         },
         {
           name: "take_screenshot",
-          description: "Take a screenshot of the current page",
-          inputSchema: {
-            type: "object",
-            properties: {},
-            required: [],
-          },
+          description:
+            "Take a screenshot of a URL or the page loaded last: the viewport, the full page or one element, as png, jpeg or webp. Tiled captures take at most 16 segments and report truncated: true when they stop before the end of the page",
+          inputSchema: zodToJsonSchema(TakeScreenshotArgsSchema) as any,
+        },
+        {
+          name: "page_snapshot",
+          description:
+            "Get the current page's accessibility tree as an indented outline in which links, buttons, form fields and headings carry refs that the interactive tools accept instead of a selector",
+          inputSchema: zodToJsonSchema(PageSnapshotArgsSchema) as any,
+        },
+        {
+          name: "click",
+          description:
+            "Click an element of the current page by CSS selector, visible text or page_snapshot ref, e.g. a cookie-consent or \"load more\" button, and report what changed",
+          inputSchema: zodToJsonSchema(ClickArgsSchema) as any,
+        },
+        {
+          name: "type_text",
+          description:
+            "Type text into a form field of the current page, found by CSS selector, label, placeholder or page_snapshot ref, optionally pressing Enter, and report what changed",
+          inputSchema: zodToJsonSchema(TypeTextArgsSchema) as any,
+        },
+        {
+          name: "press_key",
+          description:
+            "Press a key or combination such as Enter or Escape on the current page, optionally on an element, and report what changed",
+          inputSchema: zodToJsonSchema(PressKeyArgsSchema) as any,
+        },
+        {
+          name: "scroll",
+          description:
+            "Scroll the current page up, down, to the top or bottom, or bring an element into view, and report what changed",
+          inputSchema: zodToJsonSchema(ScrollArgsSchema) as any,
+        },
+        {
+          name: "select_option",
+          description:
+            "Select options of a select element on the current page by value or label, and report what changed",
+          inputSchema: zodToJsonSchema(SelectOptionArgsSchema) as any,
+        },
+        {
+          name: "wait_for",
+          description:
+            "Wait for an element of the current page to become visible, hidden, attached or detached, and report what changed meanwhile",
+          inputSchema: zodToJsonSchema(WaitForArgsSchema) as any,
+        },
+        {
+          name: "list_sessions",
+          description:
+            "List the open named browser sessions with the URL and title of each session's tab",
+          inputSchema: zodToJsonSchema(ListSessionsArgsSchema) as any,
+        },
+        {
+          name: "close_session",
+          description: "Close a named browser session, discarding its tab, cookies and history",
+          inputSchema: zodToJsonSchema(CloseSessionArgsSchema) as any,
         },
       ];
 
@@ -123,35 +254,301 @@ export class DuckDuckResearchServer {
             };
           }
 
+          case "search_news": {
+            console.log("[Handler] Parsing search_news arguments");
+            const newsArgs = NewsSearchArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Performing news search:", newsArgs);
+            const results = await performNewsSearch(newsArgs);
+            console.log("[Handler] News search completed, returning results");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(results, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "search_images": {
+            console.log("[Handler] Parsing search_images arguments");
+            const imageArgs = ImageSearchArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Performing image search:", imageArgs);
+            const results = await performImageSearch(imageArgs);
+            console.log("[Handler] Image search completed, returning results");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(results, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "search_videos": {
+            console.log("[Handler] Parsing search_videos arguments");
+            const videoArgs = VideoSearchArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Performing video search:", videoArgs);
+            const results = await performVideoSearch(videoArgs);
+            console.log("[Handler] Video search completed, returning results");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(results, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "batch_search": {
+            console.log("[Handler] Parsing batch_search arguments");
+            const batchArgs = BatchSearchArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Performing batch search:", batchArgs);
+            const results = await performBatchSearch(batchArgs);
+            console.log("[Handler] Batch search completed, returning results");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(results, null, 2),
+                },
+              ],
+            };
+          }
+
           case "visit_page": {
             console.log("[Handler] Parsing visit_page arguments");
-            const { url } = VisitPageArgsSchema.parse(request.params.arguments);
-            console.log("[Handler] Visiting page:", url);
-            const page = await browserManager.ensureBrowser();
-            await browserManager.safePageNavigation(page, url);
-            const content = await browserManager.extractContentAsMarkdown(page);
-            console.log("[Handler] Page visit completed, returning content");
+            const visitArgs = VisitPageArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Visiting page:", visitArgs.url);
+            const { result, screenshots } = await performPageVisit(visitArgs);
+            console.log("[Handler] Page visit completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+                ...(screenshots ?? []).map(({ data, mimeType }) => ({
+                  type: "image",
+                  mimeType,
+                  data,
+                })),
+              ],
+            };
+          }
+
+          case "read_chunk": {
+            console.log("[Handler] Parsing read_chunk arguments");
+            const readArgs = ReadChunkArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Reading chunk:", readArgs.chunkId, readArgs.url);
+            const { result } = await performChunkRead(readArgs);
+            console.log("[Handler] Chunk read completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "extract_tables": {
+            console.log("[Handler] Parsing extract_tables arguments");
+            const tableArgs = ExtractTablesArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Extracting tables:", tableArgs.url);
+            const result = await performTableExtraction(tableArgs);
+            console.log("[Handler] Table extraction completed, returning result");
             return {
               content: [
                 {
                   type: "text",
-                  text: content,
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "extract_links": {
+            console.log("[Handler] Parsing extract_links arguments");
+            const linkArgs = ExtractLinksArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Extracting links:", linkArgs.url);
+            const result = await performLinkExtraction(linkArgs);
+            console.log("[Handler] Link extraction completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
                 },
               ],
             };
           }
 
           case "take_screenshot": {
-            console.log("[Handler] Taking screenshot");
-            const page = await browserManager.ensureBrowser();
-            const screenshot = await browserManager.takeScreenshotWithSizeLimit(page);
+            console.log("[Handler] Parsing take_screenshot arguments");
+            const screenshotArgs = TakeScreenshotArgsSchema.parse(request.params.arguments ?? {});
+            console.log("[Handler] Taking screenshot:", screenshotArgs.url ?? "current page");
+            const { result, images } = await performScreenshot(screenshotArgs);
             console.log("[Handler] Screenshot captured, returning data");
             return {
               content: [
                 {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+                ...images.map(({ data, mimeType }) => ({
                   type: "image",
-                  mediaType: "image/png",
-                  data: screenshot,
+                  mimeType,
+                  data,
+                })),
+              ],
+            };
+          }
+
+          case "page_snapshot": {
+            console.log("[Handler] Parsing page_snapshot arguments");
+            const snapshotArgs = PageSnapshotArgsSchema.parse(request.params.arguments ?? {});
+            console.log("[Handler] Taking page snapshot");
+            const { result, snapshot } = await performPageSnapshot(snapshotArgs);
+            console.log("[Handler] Page snapshot completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+                {
+                  type: "text",
+                  text: snapshot,
+                },
+              ],
+            };
+          }
+
+          case "click": {
+            console.log("[Handler] Parsing click arguments");
+            const clickArgs = ClickArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Clicking:", clickArgs);
+            const result = await performClick(clickArgs);
+            console.log("[Handler] Click completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "type_text": {
+            console.log("[Handler] Parsing type_text arguments");
+            const typeArgs = TypeTextArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Typing into:", typeArgs);
+            const result = await performTypeText(typeArgs);
+            console.log("[Handler] Typing completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "press_key": {
+            console.log("[Handler] Parsing press_key arguments");
+            const keyArgs = PressKeyArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Pressing key:", keyArgs.key);
+            const result = await performKeyPress(keyArgs);
+            console.log("[Handler] Key press completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "scroll": {
+            console.log("[Handler] Parsing scroll arguments");
+            const scrollArgs = ScrollArgsSchema.parse(request.params.arguments ?? {});
+            console.log("[Handler] Scrolling:", scrollArgs);
+            const result = await performScroll(scrollArgs);
+            console.log("[Handler] Scroll completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "select_option": {
+            console.log("[Handler] Parsing select_option arguments");
+            const selectArgs = SelectOptionArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Selecting options in:", selectArgs);
+            const result = await performSelectOption(selectArgs);
+            console.log("[Handler] Selection completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "wait_for": {
+            console.log("[Handler] Parsing wait_for arguments");
+            const waitArgs = WaitForArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Waiting for:", waitArgs);
+            const result = await performWaitFor(waitArgs);
+            console.log("[Handler] Wait completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "list_sessions": {
+            console.log("[Handler] Listing browser sessions");
+            const result = await performSessionList();
+            console.log("[Handler] Session list completed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "close_session": {
+            console.log("[Handler] Parsing close_session arguments");
+            const closeArgs = CloseSessionArgsSchema.parse(request.params.arguments);
+            console.log("[Handler] Closing session:", closeArgs.sessionId);
+            const result = await performSessionClose(closeArgs);
+            console.log("[Handler] Session closed, returning result");
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
                 },
               ],
             };
@@ -0,0 +1,328 @@
+/**
+ * Result of detecting the language of a piece of text
+ */
+export interface LanguageDetection {
+  /** ISO 639-1 language code, or "und" when the text carries no linguistic signal */
+  language: string;
+  /** Confidence between 0 and 1 */
+  confidence: number;
+}
+
+/**
+ * Writing systems used by a single language (or a language we default to for that script).
+ * Han is handled separately because it is shared by Chinese and Japanese.
+ *
+ * @internal
+ */
+const SCRIPT_LANGUAGES: Array<{ language: string; pattern: RegExp }> = [
+  { language: "ko", pattern: /[가-힯ᄀ-ᇿ㄰-㆏]/g },
+  { language: "ja", pattern: /[぀-ゟ゠-ヿ]/g },
+  { language: "th", pattern: /[฀-๿]/g },
+  { language: "he", pattern: /[֐-׿]/g },
+  { language: "el", pattern: /[Ͱ-Ͽ]/g },
+  { language: "hi", pattern: /[ऀ-ॿ]/g },
+  { language: "ar", pattern: /[؀-ۿݐ-ݿ]/g },
+  { language: "ru", pattern: /[Ѐ-ӿ]/g },
+];
+
+/**
+ * Han ideographs, shared by Chinese and Japanese.
+ *
+ * @internal
+ */
+const HAN_PATTERN = /[一-鿿㐀-䶿]/g;
+
+/**
+ * Latin letters, including the Latin-1 and Latin Extended-A/B blocks.
+ *
+ * @internal
+ */
+const LATIN_PATTERN = /[a-zÀ-ɏ]/gi;
+
+/**
+ * Statistical profiles for Latin-script languages: frequent words, frequent
+ * character trigrams (space-padded, as in the Cavnar-Trenkle method) and letters
+ * that are characteristic of the language.
+ *
+ * @internal
+ */
+const LATIN_PROFILES: Record<string, { words: string[]; trigrams: string[]; letters: string }> = {
+  en: {
+    words:
+      "the and of to in is for on with how what why when which are you that this it from by be can do does my your an vs best use using".split(
+        " "
+      ),
+    trigrams:
+      " th|the|he |ing|ng | an|and|nd | of|of | to|ion|tio|ed | in|er | is|is |at | wh|ly |ent| be| fo|for|or | wi|wit|ith|th |es |st |ery|ted|ers".split(
+        "|"
+      ),
+    letters: "",
+  },
+  es: {
+    words:
+      "el la los las de del que en y es por para con una un como qué cómo cuál dónde sobre al se no su más".split(
+        " "
+      ),
+    trigrams:
+      " de|de | la|la |os | el|el |es | qu|que|ue | en|en |as | co|ión|ció|ent|ado|ara|par| pa|los| lo|con|nte".split(
+        "|"
+      ),
+    letters: "ñ¿¡áéíóú",
+  },
+  fr: {
+    words:
+      "le la les de des du et est en un une pour que qui dans sur avec pas au aux ce comment pourquoi quel quelle".split(
+        " "
+      ),
+    trigrams:
+      " de|de |es | le|le |ent| la|la |nt | et|et |les| pa|ion|tio|re | qu|que|ue | co|ur | po|our|eur|des| du|du ".split(
+        "|"
+      ),
+    letters: "çàèêëîïôûœ",
+  },
+  de: {
+    words:
+      "der die das und ist in zu den mit von für auf nicht ein eine wie was warum ich sie es im dem des".split(
+        " "
+      ),
+    trigrams:
+      "en |er | de|der|die|ie |ich|ch |sch|cht| un|und|nd |ein| ei|in |te | di|den|gen|ung|ng | ge| zu|ten".split(
+        "|"
+      ),
+    letters: "äöüß",
+  },
+  it: {
+    words:
+      "il lo la gli le di del della e è che per un una con non come cosa perché dove sono nel".split(
+        " "
+      ),
+    trigrams:
+      " di|di | de|del|ell|lla|la | co|che|he | la|to | il|il |are|re |one|zio|ion| pe|per|er |ent|nte|con".split(
+        "|"
+      ),
+    letters: "àèéìòù",
+  },
+  pt: {
+    words: "o a os as de do da dos das e é que em um uma para com não como por mais se no na".split(
+      " "
+    ),
+    trigrams:
+      " de|de | qu|que|ue |ão |ção| co|os |do | do|da | da| a | pa|par|ara|ent|nte|com|om | se|ado|as |est".split(
+        "|"
+      ),
+    letters: "ãõçáâêéíóôú",
+  },
+  nl: {
+    words:
+      "de het een en van in is dat op te met voor niet zijn hoe wat waarom ik je ook aan".split(
+        " "
+      ),
+    trigrams:
+      "en | de|de |het|et | he|van| va|an |een| ee|ijk|ij | en|aar|oor|ver| ve|ing|cht|sch|n d|ter|gen|nde".split(
+        "|"
+      ),
+    letters: "ĳ",
+  },
+  sv: {
+    words: "och att det som en är på för med av till inte jag har de hur vad varför".split(" "),
+    trigrams:
+      "en |ch |och| oc|att| at|tt |för| fö|ör |ing|ng | de|det|et |som| so|om |ar |är |för|lig|nde|ter".split(
+        "|"
+      ),
+    letters: "åäö",
+  },
+  pl: {
+    words: "i w na z do się nie jest że to jak co dla o przez czy od po".split(" "),
+    trigrams:
+      "nie| ni|ie | pr|prz|rze|ego|ch | po|ani|ow | na|na |wie|ych|ać |ię |się| si|ość|ści|em |est|sta".split(
+        "|"
+      ),
+    letters: "ąćęłńśźż",
+  },
+  tr: {
+    words: "ve bir bu için ile da de ne nasıl neden mi mı olan çok daha gibi".split(" "),
+    trigrams:
+      "lar|ler|ın |in | bi|bir|ir |an |eri|ara|ası|nda|ında| ve|ve |en |yor|ını|mak|mek|ek |ile| il".split(
+        "|"
+      ),
+    letters: "ğışçöü",
+  },
+  vi: {
+    words: "và của là có không được cho một những các trong với người này như làm sao".split(" "),
+    trigrams: " ng|ng |nh |ch | th|thì|ông|khô| kh|ươn|ười|ườ |ời |của|ủa | củ|à | là|là ".split(
+      "|"
+    ),
+    letters: "ăâđêôơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ",
+  },
+  id: {
+    words:
+      "dan yang di ke dari untuk dengan ini itu tidak ada adalah cara apa bagaimana mengapa".split(
+        " "
+      ),
+    trigrams:
+      "an |ang|ng |kan| me|men|yan| ya|di | di|nya|ya | da|dan|ber| be|per|ter|ara| se|eng|ah |ala".split(
+        "|"
+      ),
+    letters: "",
+  },
+};
+
+/**
+ * DuckDuckGo region to search when a query is detected to be in a given language
+ */
+export const LANGUAGE_REGIONS: Record<string, string> = {
+  en: "us-en",
+  zh: "cn-zh",
+  ja: "jp-jp",
+  ko: "kr-kr",
+  ru: "ru-ru",
+  uk: "ua-uk",
+  ar: "xa-ar",
+  he: "il-he",
+  el: "gr-el",
+  th: "th-th",
+  hi: "in-en",
+  es: "es-es",
+  fr: "fr-fr",
+  de: "de-de",
+  it: "it-it",
+  pt: "br-pt",
+  nl: "nl-nl",
+  sv: "se-sv",
+  pl: "pl-pl",
+  tr: "tr-tr",
+  vi: "vn-vi",
+  id: "id-id",
+};
+
+/**
+ * Minimum confidence at which a detected language is trusted to pick a search region
+ * @constant {number}
+ */
+export const AUTO_REGION_MIN_CONFIDENCE = 0.4;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Scores Latin-script text against each language profile.
+ *
+ * @internal
+ */
+function detectLatinLanguage(text: string): LanguageDetection {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\s]/gu, " ");
+  const words = normalized.split(/\s+/).filter(Boolean);
+  const padded = ` ${words.join(" ")} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+
+  const scores = Object.entries(LATIN_PROFILES).map(([language, profile]) => {
+    const wordHits = words.filter((word) => profile.words.includes(word)).length;
+    const trigramHits = trigrams.filter((trigram) => profile.trigrams.includes(trigram)).length;
+    const letterHits = [...normalized].filter((char) => profile.letters.includes(char)).length;
+    return { language, score: wordHits * 3 + trigramHits + letterHits * 4 };
+  });
+
+  // Plain ASCII text is most often English; favor it slightly over languages that
+  // would normally carry diacritics
+  if (!/[^a-z\s]/.test(normalized)) {
+    const english = scores.find((entry) => entry.language === "en");
+    if (english) english.score += 2;
+  }
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (best.score === 0) {
+    return { language: "en", confidence: 0.1 };
+  }
+
+  // Confidence grows with the margin over the runner-up and with the amount of evidence
+  const margin = (best.score - runnerUp.score) / best.score;
+  const evidence = Math.min(1, best.score / 12);
+  return { language: best.language, confidence: round(0.2 + 0.8 * margin * evidence) };
+}
+
+/**
+ * Detects the language of a search query. Non-Latin scripts are identified by their
+ * Unicode blocks (Han without kana is Chinese, kana marks Japanese, and so on);
+ * Latin-script text is scored against word, character-trigram and diacritic profiles
+ * of common languages.
+ *
+ * @param text - Text to analyze, typically a search query
+ * @returns Detected ISO 639-1 language code with a confidence between 0 and 1
+ *
+ * @example
+ * ```typescript
+ * detectLanguage("comment installer node sur windows");
+ * // => { language: "fr", confidence: 0.53 }
+ * ```
+ */
+export function detectLanguage(text: string): LanguageDetection {
+  const latin = countMatches(text, LATIN_PATTERN);
+  const han = countMatches(text, HAN_PATTERN);
+  const scripts = SCRIPT_LANGUAGES.map(({ language, pattern }) => ({
+    language,
+    count: countMatches(text, pattern),
+  }));
+  const letters = latin + han + scripts.reduce((sum, { count }) => sum + count, 0);
+
+  if (letters === 0) {
+    return { language: "und", confidence: 0 };
+  }
+
+  // Any kana means Japanese, even though most of the text may be Han ideographs
+  const kana = scripts.find(({ language }) => language === "ja")?.count ?? 0;
+  if (kana > 0) {
+    return { language: "ja", confidence: round((kana + han) / letters) };
+  }
+
+  const [dominant] = [{ language: "zh", count: han }, ...scripts].sort((a, b) => b.count - a.count);
+  if (dominant.count > latin) {
+    if (dominant.language === "ru") {
+      return {
+        language: detectCyrillicLanguage(text),
+        confidence: round(dominant.count / letters),
+      };
+    }
+    if (dominant.language === "ar" && /[پچژگ]/.test(text)) {
+      return { language: "fa", confidence: round(dominant.count / letters) };
+    }
+    return { language: dominant.language, confidence: round(dominant.count / letters) };
+  }
+
+  const detection = detectLatinLanguage(text);
+  return { ...detection, confidence: round(detection.confidence * (latin / letters)) };
+}
+
+/**
+ * Distinguishes Cyrillic languages by their characteristic letters.
+ *
+ * @internal
+ */
+function detectCyrillicLanguage(text: string): string {
+  if (/[іїєґ]/i.test(text)) return "uk";
+  if (/[ўі]/i.test(text)) return "be";
+  if (/[ђјљњћџ]/i.test(text)) return "sr";
+  return "ru";
+}
+
+/**
+ * Picks the DuckDuckGo region matching a detected language when the detection is
+ * confident enough.
+ *
+ * @param detection - Result of {@link detectLanguage}
+ * @returns Region code, or undefined if no region should be inferred
+ */
+export function regionForLanguage(detection: LanguageDetection): string | undefined {
+  if (detection.confidence < AUTO_REGION_MIN_CONFIDENCE) {
+    return undefined;
+  }
+  return LANGUAGE_REGIONS[detection.language];
+}
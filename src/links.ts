@@ -0,0 +1,195 @@
+import type { ExtractedLink, LinkType, OutlineEntry } from "./types.js";
+import { canonicalizeUrl, stripHostPrefix } from "./utils.js";
+
+/**
+ * Longest anchor text kept, in characters
+ * @constant {number}
+ */
+export const MAX_LINK_TEXT_LENGTH = 200;
+
+/**
+ * A link as read from the page, before resolving and de-duplication
+ */
+export interface RawLink {
+  /** `href` attribute as written */
+  href: string;
+  /** Anchor text, falling back to the `aria-label`, `title` or image `alt` */
+  text: string;
+  /** `rel` attribute */
+  rel: string;
+  /** Text of the closest heading before the link */
+  section: string;
+}
+
+/**
+ * A heading as read from the page
+ */
+export interface RawHeading {
+  /** Heading level, 1 to 6 */
+  level: number;
+  /** Heading text */
+  text: string;
+  /** `id` of the heading or of an anchor inside it */
+  id: string;
+}
+
+/**
+ * Links and headings of a page, as read by {@link collectPageLinks}
+ */
+export interface RawPageLinks {
+  /** Base URL relative links resolve against, from `<base>` or the page URL */
+  baseUrl: string;
+  /** Links in document order */
+  links: RawLink[];
+  /** Headings in document order */
+  headings: RawHeading[];
+}
+
+/**
+ * Reads every link and heading of the page, or of the element matching `selector`,
+ * in document order. Each link records the closest heading before it, which may
+ * lie outside `selector`. Returns null if no element matches the selector.
+ *
+ * Runs inside the page through `page.evaluate`, so it must not use anything outside
+ * its own body and parameter.
+ *
+ * @param selector - CSS selector of the element to read, defaults to the whole page
+ * @returns The links and headings, or null if the selector matches nothing
+ *
+ * @example
+ * ```typescript
+ * const raw = await page.evaluate(collectPageLinks, "#docs");
+ * ```
+ */
+export function collectPageLinks(selector?: string): RawPageLinks | null {
+  const root = selector ? document.querySelector(selector) : document.body;
+  if (!root) return null;
+
+  const textOf = (el: Element | null) => (el?.textContent ?? "").replace(/\s+/g, " ").trim();
+  const links: RawLink[] = [];
+  const headings: RawHeading[] = [];
+  let section = "";
+
+  // The closest heading may come before the selected element
+  const earlier = Array.from(document.querySelectorAll("h1, h2, h3, h4, h5, h6")).filter(
+    (heading) => heading.compareDocumentPosition(root) & Node.DOCUMENT_POSITION_FOLLOWING
+  );
+  section = textOf(earlier[earlier.length - 1] ?? null);
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.currentNode as Element | null; node; node = walker.nextNode() as Element) {
+    const heading = /^H([1-6])$/.exec(node.tagName);
+    if (heading) {
+      const text = textOf(node);
+      if (text) {
+        section = text;
+        const target = node.id ? node : node.querySelector("[id], a[name]");
+        headings.push({
+          level: Number(heading[1]),
+          text,
+          id: target?.getAttribute("id") || target?.getAttribute("name") || "",
+        });
+      }
+    } else if (node.tagName === "A" && node.hasAttribute("href")) {
+      links.push({
+        href: node.getAttribute("href") ?? "",
+        text:
+          textOf(node) ||
+          node.getAttribute("aria-label") ||
+          node.getAttribute("title") ||
+          node.querySelector("img[alt]")?.getAttribute("alt") ||
+          "",
+        rel: node.getAttribute("rel") ?? "",
+        section,
+      });
+    }
+  }
+  return { baseUrl: document.baseURI, links, headings };
+}
+
+/**
+ * Resolves links against the page URL and merges links to the same page. Only
+ * http(s) links are kept, and links back to the page itself, such as in-page
+ * anchors, are left out. Links are de-duplicated by {@link canonicalizeUrl}, but
+ * keep the resolved URL of their first occurrence; merged links keep the first
+ * non-empty anchor text and section, all `rel` values, and count their occurrences.
+ * Links to the page's host, ignoring `www.`, `m.` and `mobile.` prefixes, are
+ * internal.
+ *
+ * @param links - Links as read by {@link collectPageLinks}
+ * @param pageUrl - URL of the page the links were read from
+ * @param baseUrl - URL relative links resolve against (default: `pageUrl`)
+ * @returns Unique links in order of first appearance
+ *
+ * @example
+ * ```typescript
+ * normalizeLinks(
+ *   [{ href: "/docs?utm_source=nav", text: "Docs", rel: "", section: "" }],
+ *   "https://www.example.com/"
+ * );
+ * // => [{ url: "https://www.example.com/docs?utm_source=nav", text: "Docs", type: "internal",
+ * //      count: 1 }]
+ * ```
+ */
+export function normalizeLinks(
+  links: RawLink[],
+  pageUrl: string,
+  baseUrl = pageUrl
+): ExtractedLink[] {
+  const page = new URL(pageUrl);
+  const siteHost = (url: URL) => stripHostPrefix(url.hostname, /^(www|m|mobile)\./);
+  const pageKey = canonicalizeUrl(pageUrl);
+  const byUrl = new Map<string, ExtractedLink>();
+
+  for (const link of links) {
+    let url: URL;
+    try {
+      url = new URL(link.href.trim(), baseUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+    const key = canonicalizeUrl(url.toString());
+    if (key === pageKey) continue;
+
+    const text = link.text.replace(/\s+/g, " ").trim().slice(0, MAX_LINK_TEXT_LENGTH);
+    const rel = link.rel.toLowerCase().split(/\s+/).filter(Boolean);
+    const existing = byUrl.get(key);
+    if (existing) {
+      existing.count++;
+      if (!existing.text && text) existing.text = text;
+      if (!existing.section && link.section) existing.section = link.section;
+      const merged = [...new Set([...(existing.rel ?? []), ...rel])];
+      if (merged.length) existing.rel = merged;
+      continue;
+    }
+
+    const type: LinkType = siteHost(url) === siteHost(page) ? "internal" : "external";
+    byUrl.set(key, {
+      url: url.toString(),
+      text,
+      type,
+      ...(rel.length ? { rel } : {}),
+      ...(link.section ? { section: link.section } : {}),
+      count: 1,
+    });
+  }
+  return [...byUrl.values()];
+}
+
+/**
+ * Turns headings into an outline, linking headings that have an ID to their anchor
+ * on the page.
+ *
+ * @param headings - Headings as read by {@link collectPageLinks}
+ * @param pageUrl - URL of the page the headings were read from
+ * @returns Outline entries in document order
+ */
+export function buildOutline(headings: RawHeading[], pageUrl: string): OutlineEntry[] {
+  return headings.map(({ level, text, id }) => {
+    if (!id) return { level, text };
+    const anchor = new URL(pageUrl);
+    anchor.hash = id;
+    return { level, text, anchor: anchor.toString() };
+  });
+}
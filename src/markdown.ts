@@ -0,0 +1,142 @@
+import { trackFence } from "./chunk.js";
+
+/**
+ * Inline Markdown image, `![alt](src)`
+ * @constant {RegExp}
+ */
+const INLINE_IMAGE = /!\[((?:\\.|[^\]\\])*)\]\(([^()\s]+)\)/g;
+
+/**
+ * Inline Markdown link, `[text](href)`, whose text may hold bracketed parts such as
+ * an image reference
+ * @constant {RegExp}
+ */
+const INLINE_LINK = /\[((?:\\.|[^[\]\\]|\[(?:\\.|[^\]\\])*\])*)\]\(([^()\s]+)\)/g;
+
+/**
+ * Rewrites inline links and images as numbered references, with the URLs listed
+ * once at the end, e.g. `[Docs][1]` and `[1]: https://example.com/docs`. Long or
+ * repeated URLs then cost far fewer tokens. Code blocks and code spans are left
+ * unchanged.
+ *
+ * @param markdown - Markdown with inline links
+ * @returns Markdown with reference links, unchanged if it has no links
+ *
+ * @example
+ * ```typescript
+ * toReferenceLinks("See [the docs](https://example.com/docs) and [API](https://example.com/api).");
+ * // => "See [the docs][1] and [API][2].\n\n[1]: https://example.com/docs\n[2]: https://example.com/api"
+ * ```
+ */
+export function toReferenceLinks(markdown: string): string {
+  const references = new Map<string, number>();
+  const reference = (url: string) => {
+    if (!references.has(url)) references.set(url, references.size + 1);
+    return references.get(url);
+  };
+
+  let fence: string | undefined;
+  const lines = markdown.split("\n").map((line) => {
+    const inFence = fence;
+    fence = trackFence(line, fence);
+    if (inFence || fence) return line;
+    return line
+      .split(/(`+[^`]*`+)/)
+      .map((part, index) =>
+        // Odd parts are code spans
+        index % 2
+          ? part
+          : part
+              .replace(INLINE_IMAGE, (_match, alt, url) => `![${alt}][${reference(url)}]`)
+              .replace(INLINE_LINK, (_match, text, url) => `[${text}][${reference(url)}]`)
+      )
+      .join("");
+  });
+
+  if (references.size === 0) return markdown;
+  const definitions = [...references].map(([url, number]) => `[${number}]: ${url}`);
+  return `${lines.join("\n")}\n\n${definitions.join("\n")}`;
+}
+
+/**
+ * Class name patterns highlighters use to name a code block's language
+ * @constant {RegExp[]}
+ */
+const LANGUAGE_CLASS_PATTERNS = [
+  /^(?:language|lang)-([\w#+.-]+)$/i,
+  /^highlight-(?:source-)?([\w#+.-]+)$/i,
+  /^brush:([\w#+.-]+);?$/i,
+];
+
+/**
+ * Language names that mean the block has no language
+ * @constant {Set<string>}
+ */
+const PLAIN_LANGUAGES = new Set(["none", "nohighlight", "plain", "plaintext", "text", "txt"]);
+
+/**
+ * Reads a code block's language from a class attribute, following the conventions
+ * of Prism and highlight.js (`language-ts`, `lang-ts`), GitHub and Pygments
+ * (`highlight-source-ts`, `highlight-ts`) and SyntaxHighlighter (`brush: ts`).
+ *
+ * @param className - Class attribute of the code block or an element around it
+ * @returns Lower-cased language name, or undefined if none is named
+ *
+ * @example
+ * ```typescript
+ * languageFromClass("hljs language-TypeScript"); // => "typescript"
+ * ```
+ */
+export function languageFromClass(className: string): string | undefined {
+  for (const name of className.replace(/brush:\s+/gi, "brush:").split(/\s+/)) {
+    for (const pattern of LANGUAGE_CLASS_PATTERNS) {
+      const language = pattern.exec(name)?.[1]?.toLowerCase();
+      if (language) return PLAIN_LANGUAGES.has(language) ? "" : language;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Wraps code in a fenced block, with a fence longer than any run of backticks in
+ * the code so the block cannot end early.
+ *
+ * @param code - Code, kept exactly as is apart from its final line break
+ * @param language - Language tag for the opening fence
+ * @returns Fenced code block
+ *
+ * @example
+ * ```typescript
+ * fenceCode("const a = 1;", "ts"); // => "```ts\nconst a = 1;\n```"
+ * ```
+ */
+export function fenceCode(code: string, language = ""): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${code.replace(/\n$/, "")}\n${fence}`;
+}
+
+/**
+ * Tidies converted Markdown: drops empty list items and whitespace-only lines and
+ * collapses runs of blank lines, leaving fenced code blocks exactly as they are.
+ *
+ * @param markdown - Markdown as converted from HTML
+ * @returns Tidied and trimmed Markdown
+ */
+export function tidyMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let fence: string | undefined;
+  for (const line of markdown.split("\n")) {
+    const inFence = fence;
+    fence = trackFence(line, fence);
+    if (inFence || fence) {
+      lines.push(line);
+      continue;
+    }
+    const tidied = line === "- " || /^\s+$/.test(line) ? "" : line;
+    if (tidied !== "" || lines[lines.length - 1] !== "") {
+      lines.push(tidied);
+    }
+  }
+  return lines.join("\n").trim();
+}
@@ -0,0 +1,138 @@
+import type { PageChanges } from "./types.js";
+
+/**
+ * Most added or removed lines listed in a diff; the counts cover all of them
+ * @constant {number}
+ */
+export const MAX_CHANGED_LINES = 10;
+
+/**
+ * Longest changed line kept, in characters
+ * @constant {number}
+ */
+export const MAX_CHANGED_LINE_LENGTH = 200;
+
+/**
+ * What a page shows at one moment, compared before and after an interaction
+ */
+export interface PageState {
+  /** URL of the page */
+  url: string;
+  /** Title of the page */
+  title: string;
+  /** Visible text of the page */
+  text: string;
+  /** Vertical scroll offset in CSS pixels */
+  scrollY: number;
+}
+
+/**
+ * Reads the URL, title, visible text and scroll offset of the page.
+ *
+ * Runs inside the page through `page.evaluate`, so it must not use anything outside
+ * its own body.
+ *
+ * @returns The state of the page
+ *
+ * @example
+ * ```typescript
+ * const state = await page.evaluate(readPageState);
+ * ```
+ */
+export function readPageState(): PageState {
+  return {
+    url: location.href,
+    title: document.title,
+    text: document.body?.innerText ?? "",
+    scrollY: Math.round(window.scrollY),
+  };
+}
+
+/**
+ * Splits text into trimmed, non-empty lines with whitespace collapsed.
+ *
+ * @internal
+ */
+function textLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Lists the lines of `next` that `previous` has fewer copies of, in order.
+ *
+ * @internal
+ */
+function extraLines(previous: string[], next: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const line of previous) counts.set(line, (counts.get(line) ?? 0) + 1);
+  return next.filter((line) => {
+    const count = counts.get(line) ?? 0;
+    counts.set(line, count - 1);
+    return count <= 0;
+  });
+}
+
+/**
+ * Shortens a changed line to {@link MAX_CHANGED_LINE_LENGTH} characters.
+ *
+ * @internal
+ */
+function clipLine(line: string): string {
+  return line.length > MAX_CHANGED_LINE_LENGTH
+    ? `${line.slice(0, MAX_CHANGED_LINE_LENGTH - 1)}…`
+    : line;
+}
+
+/**
+ * Compares two states of a page. Text is compared line by line regardless of
+ * order, so content that moved is not reported; at most {@link MAX_CHANGED_LINES}
+ * added and removed lines are listed, while the counts cover all of them.
+ *
+ * @param before - State before the interaction
+ * @param after - State after the interaction
+ * @returns What changed, with a one-line summary
+ *
+ * @example
+ * ```typescript
+ * diffPageStates(
+ *   { url: "https://example.com/", title: "Home", text: "Accept cookies\nNews", scrollY: 0 },
+ *   { url: "https://example.com/", title: "Home", text: "News", scrollY: 0 }
+ * );
+ * // => { addedLines: [], removedLines: ["Accept cookies"], addedCount: 0, removedCount: 1,
+ * //      summary: "1 line removed" }
+ * ```
+ */
+export function diffPageStates(before: PageState, after: PageState): PageChanges {
+  const previousLines = textLines(before.text);
+  const nextLines = textLines(after.text);
+  const added = extraLines(previousLines, nextLines);
+  const removed = extraLines(nextLines, previousLines);
+
+  const changes: PageChanges = {
+    ...(before.url !== after.url ? { navigated: { from: before.url, to: after.url } } : {}),
+    ...(before.title !== after.title ? { title: { from: before.title, to: after.title } } : {}),
+    ...(before.scrollY !== after.scrollY
+      ? { scrolled: { from: before.scrollY, to: after.scrollY } }
+      : {}),
+    addedLines: added.slice(0, MAX_CHANGED_LINES).map(clipLine),
+    removedLines: removed.slice(0, MAX_CHANGED_LINES).map(clipLine),
+    addedCount: added.length,
+    removedCount: removed.length,
+    summary: "",
+  };
+
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+  const parts = [
+    changes.navigated ? `navigated to ${after.url}` : "",
+    changes.title && !changes.navigated ? `title changed to "${after.title}"` : "",
+    changes.scrolled ? `scrolled to ${after.scrollY}px` : "",
+    added.length ? `${plural(added.length, "line")} added` : "",
+    removed.length ? `${plural(removed.length, "line")} removed` : "",
+  ].filter(Boolean);
+  const summary = parts.join(", ") || "no visible change";
+  changes.summary = summary[0].toUpperCase() + summary.slice(1);
+  return changes;
+}
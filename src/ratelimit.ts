@@ -0,0 +1,187 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { computeRetryDelay, readEnvNumber, withRetry } from "./utils.js";
+
+/**
+ * JSON-RPC error code returned when DuckDuckGo keeps rate-limiting requests after
+ * all retries. Chosen from the implementation-defined server error range so clients
+ * can tell it apart from generic internal errors; `data.retryAfterMs` says when to retry.
+ * @constant {number}
+ */
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+/**
+ * Sustained number of DuckDuckGo requests allowed per second across all search tools.
+ * Override with `MCP_SEARCH_RATE_LIMIT`.
+ * @constant {number}
+ */
+export const SEARCH_RATE_LIMIT = readEnvNumber("MCP_SEARCH_RATE_LIMIT", 1) || 1;
+
+/**
+ * Number of DuckDuckGo requests that may be sent back-to-back before the rate limit applies.
+ * Override with `MCP_SEARCH_BURST`.
+ * @constant {number}
+ */
+export const SEARCH_BURST = readEnvNumber("MCP_SEARCH_BURST", 3) || 1;
+
+/**
+ * Number of attempts made for a rate-limited DuckDuckGo request
+ * @constant {number}
+ */
+export const RATE_LIMIT_RETRIES = 4;
+
+/**
+ * Base delay before retrying a rate-limited request in milliseconds, doubled on every attempt
+ * @constant {number}
+ */
+export const RATE_LIMIT_BASE_DELAY = 2000;
+
+/**
+ * Upper bound for a single backoff delay in milliseconds
+ * @constant {number}
+ */
+export const RATE_LIMIT_MAX_DELAY = 30000;
+
+/**
+ * Error raised when DuckDuckGo is still rate-limiting requests after all retries.
+ * Carries {@link RATE_LIMITED_ERROR_CODE} and a `retryAfterMs` hint in its data.
+ */
+export class RateLimitError extends McpError {
+  constructor(
+    message: string,
+    readonly retryAfterMs: number
+  ) {
+    super(RATE_LIMITED_ERROR_CODE, message, { retryAfterMs });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Token bucket limiting how often requests may start. Callers that find the bucket
+ * empty reserve a future token and wait for it, so concurrent callers are spaced out
+ * in arrival order instead of all retrying at once.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  /**
+   * @param capacity - Maximum number of tokens, i.e. the allowed burst size
+   * @param refillPerSecond - Tokens added per second, i.e. the sustained rate
+   */
+  constructor(
+    readonly capacity: number,
+    readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Waits until a token is available and consumes it.
+   *
+   * @returns Promise that resolves when the caller may proceed
+   *
+   * @example
+   * ```typescript
+   * await searchRateLimiter.acquire();
+   * const results = await search(query);
+   * ```
+   */
+  async acquire(): Promise<void> {
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens >= 0) {
+      return;
+    }
+    const wait = Math.ceil((-this.tokens / this.refillPerSecond) * 1000);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  /**
+   * Empties the bucket so that subsequent callers wait a full refill interval.
+   * Used after DuckDuckGo reports a rate limit to slow every tool down, not just the caller.
+   */
+  drain(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Rate limiter shared by every tool that sends requests to DuckDuckGo
+ */
+export const searchRateLimiter = new TokenBucket(SEARCH_BURST, SEARCH_RATE_LIMIT);
+
+/**
+ * Checks whether an error indicates that DuckDuckGo is throttling requests.
+ * Matches duck-duck-scrape's anomaly-detection error, the VQD lookup failure
+ * DuckDuckGo causes when it blocks a client, and HTTP 403/418/429 responses.
+ *
+ * @param error - Error thrown by a duck-duck-scrape call
+ * @returns True if the request should be retried after backing off
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  return /anomaly|too quickly|rate limit|Failed to get the VQD|\b(403|418|429)\b|A server error occurred/i.test(
+    error.message
+  );
+}
+
+/**
+ * Runs a DuckDuckGo request under the shared rate limiter, retrying rate-limit
+ * failures with exponential backoff and jitter. Other errors are rethrown immediately.
+ *
+ * @param operation - Request to perform
+ * @returns Promise resolving to the operation result
+ * @throws {RateLimitError} If DuckDuckGo is still rate-limiting after all retries
+ *
+ * @example
+ * ```typescript
+ * const results = await withSearchRateLimit(() => search(query, options));
+ * ```
+ */
+export async function withSearchRateLimit<T>(operation: () => Promise<T>): Promise<T> {
+  const backoff = { backoffFactor: 2, maxDelay: RATE_LIMIT_MAX_DELAY, jitter: true };
+  try {
+    return await withRetry(
+      async () => {
+        await searchRateLimiter.acquire();
+        return operation();
+      },
+      RATE_LIMIT_RETRIES,
+      RATE_LIMIT_BASE_DELAY,
+      {
+        ...backoff,
+        shouldRetry: (error) => {
+          if (!isRateLimitError(error)) {
+            return false;
+          }
+          searchRateLimiter.drain();
+          return true;
+        },
+      }
+    );
+  } catch (error) {
+    if (!isRateLimitError(error)) {
+      throw error;
+    }
+    const retryAfterMs = computeRetryDelay(RATE_LIMIT_RETRIES, RATE_LIMIT_BASE_DELAY, {
+      ...backoff,
+      jitter: false,
+    });
+    console.error("withSearchRateLimit: DuckDuckGo is rate limiting requests", error);
+    throw new RateLimitError(
+      `DuckDuckGo is rate limiting requests, retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+      retryAfterMs
+    );
+  }
+}
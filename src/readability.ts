@@ -0,0 +1,320 @@
+import type { ArticleMetadata } from "./types.js";
+
+/**
+ * Maximum length of an article excerpt in characters
+ * @constant {number}
+ */
+export const MAX_EXCERPT_LENGTH = 300;
+
+/**
+ * Maximum length of a byline; longer matches are page text picked up by mistake
+ * @constant {number}
+ */
+export const MAX_BYLINE_LENGTH = 100;
+
+/**
+ * Metadata as read from the page, before {@link normalizeArticleMetadata}
+ */
+export type RawArticleMetadata = { [K in keyof ArticleMetadata]?: string | null };
+
+/**
+ * Finds the main content of the current page by scoring elements the way Mozilla
+ * Readability does, and returns it as HTML, or null if no element holds enough text
+ * to be an article.
+ *
+ * Works on a copy of the body: elements that are unlikely to be content (by tag,
+ * role, class or id) are dropped, then every paragraph of at least 25 characters
+ * scores its parent fully and its grandparent by half, more for longer text and
+ * more commas. Candidates start from a bonus or penalty for their tag and class
+ * names, and their final score is scaled down by their link density. The best
+ * candidate is joined by siblings that score close to it or are text-heavy
+ * paragraphs, and link-heavy or image-heavy blocks are removed from the result.
+ *
+ * Runs inside the page through `page.evaluate`, so it must not use anything outside
+ * its own body.
+ *
+ * @returns HTML of the article, or null to fall back to another extraction method
+ *
+ * @example
+ * ```typescript
+ * const html = await page.evaluate(findReadableContent);
+ * ```
+ */
+export function findReadableContent(): string | null {
+  const MIN_PARAGRAPH_LENGTH = 25;
+  const MIN_ARTICLE_LENGTH = 250;
+  const UNLIKELY =
+    /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|tweet|twitter/i;
+  const MAYBE_CONTENT = /and|article|body|column|content|main|shadow/i;
+  const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+  const NEGATIVE =
+    /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+  const BLOCK_CHILDREN =
+    ":scope > :is(address, article, aside, blockquote, dl, div, figure, footer, form, h1, h2, h3, h4, h5, h6, header, hr, ol, p, pre, section, table, ul)";
+
+  const textOf = (el: Element) => (el.textContent ?? "").replace(/\s+/g, " ").trim();
+  const linkDensity = (el: Element) => {
+    const length = textOf(el).length;
+    if (length === 0) return 0;
+    let linkLength = 0;
+    for (const link of el.querySelectorAll("a")) {
+      linkLength += textOf(link).length;
+    }
+    return linkLength / length;
+  };
+  const classWeight = (el: Element) => {
+    let weight = 0;
+    for (const name of [el.getAttribute("class"), el.id]) {
+      if (!name) continue;
+      if (NEGATIVE.test(name)) weight -= 25;
+      if (POSITIVE.test(name)) weight += 25;
+    }
+    return weight;
+  };
+
+  const body = document.body.cloneNode(true) as HTMLElement;
+  for (const el of body.querySelectorAll(
+    "script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, aside, [hidden], [aria-hidden='true'], [role='navigation'], [role='complementary'], [role='dialog'], [role='alert']"
+  )) {
+    el.remove();
+  }
+  for (const el of [...body.querySelectorAll("*")]) {
+    if (!body.contains(el) || /^(ARTICLE|MAIN)$/.test(el.tagName) || el.closest("table, pre")) {
+      continue;
+    }
+    const names = `${el.getAttribute("class") ?? ""} ${el.id}`;
+    if (UNLIKELY.test(names) && !MAYBE_CONTENT.test(names)) {
+      el.remove();
+    }
+  }
+
+  const scores = new Map<Element, number>();
+  const initialize = (el: Element) => {
+    if (scores.has(el)) return;
+    let score = classWeight(el);
+    if (el.tagName === "DIV") score += 5;
+    else if (/^(PRE|TD|BLOCKQUOTE)$/.test(el.tagName)) score += 3;
+    else if (/^(ADDRESS|OL|UL|DL|DD|DT|LI|FORM)$/.test(el.tagName)) score -= 3;
+    else if (/^(H[1-6]|TH)$/.test(el.tagName)) score -= 5;
+    scores.set(el, score);
+  };
+
+  for (const paragraph of body.querySelectorAll("p, pre, td, blockquote, div, section")) {
+    // Divs and sections only count when they hold text directly, like a paragraph
+    if (/^(DIV|SECTION)$/.test(paragraph.tagName) && paragraph.querySelector(BLOCK_CHILDREN)) {
+      continue;
+    }
+    const text = textOf(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+    const commas = text.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor = paragraph.parentElement;
+    for (let level = 0; ancestor && level < 3; level++) {
+      initialize(ancestor);
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, (scores.get(ancestor) ?? 0) + score / divider);
+      ancestor = ancestor.parentElement;
+    }
+  }
+
+  let top: Element | undefined;
+  let topScore = 0;
+  for (const [el, score] of scores) {
+    const scaled = score * (1 - linkDensity(el));
+    scores.set(el, scaled);
+    if (scaled > topScore) {
+      top = el;
+      topScore = scaled;
+    }
+  }
+  if (!top) return null;
+
+  const article = document.createElement("div");
+  const siblingThreshold = Math.max(10, topScore * 0.2);
+  const topClass = top.getAttribute("class");
+  for (const sibling of top.parentElement ? [...top.parentElement.children] : [top]) {
+    let include = sibling === top;
+    if (!include) {
+      const bonus = topClass && sibling.getAttribute("class") === topClass ? topScore * 0.2 : 0;
+      if ((scores.get(sibling) ?? 0) + bonus >= siblingThreshold) {
+        include = true;
+      } else if (sibling.tagName === "P") {
+        const text = textOf(sibling);
+        const density = linkDensity(sibling);
+        include =
+          (text.length > 80 && density < 0.25) ||
+          (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+      }
+    }
+    if (include) {
+      article.append(sibling.cloneNode(true));
+    }
+  }
+
+  for (const el of [...article.querySelectorAll("div, section, ul, ol, table, figure")]) {
+    if (!article.contains(el)) continue;
+    const weight = classWeight(el);
+    const text = textOf(el);
+    const density = linkDensity(el);
+    // Data tables, code, headings and comma-heavy blocks are content even when they look sparse
+    if (
+      el.tagName === "TABLE" ||
+      el.querySelector("pre, code, h1, h2, h3, h4, h5, h6") ||
+      text.split(",").length > 10
+    ) {
+      if (density > 0.5) el.remove();
+      continue;
+    }
+    const isList = el.tagName === "UL" || el.tagName === "OL";
+    const paragraphs = el.querySelectorAll("p").length;
+    const images = el.querySelectorAll("img").length;
+    const inFigure = el.tagName === "FIGURE" || el.closest("figure") !== null;
+    if (
+      weight < 0 ||
+      (images > 1 && paragraphs / images < 0.5 && !inFigure) ||
+      (!isList &&
+        text.length < MIN_PARAGRAPH_LENGTH &&
+        (images === 0 || images > 2) &&
+        !inFigure) ||
+      (!isList && weight < 25 && density > 0.2) ||
+      (weight >= 25 && density > 0.5)
+    ) {
+      el.remove();
+    }
+  }
+
+  return textOf(article).length >= MIN_ARTICLE_LENGTH ? article.innerHTML : null;
+}
+
+/**
+ * Reads article metadata from the current page: byline, publication date, site
+ * name and excerpt. Looks at JSON-LD structured data, OpenGraph, Dublin Core and
+ * other common meta tags, then at byline and `<time>` elements, and falls back to
+ * the first substantial paragraph for the excerpt.
+ *
+ * Runs inside the page through `page.evaluate`, so it must not use anything outside
+ * its own body. Values are returned as found; see {@link normalizeArticleMetadata}.
+ *
+ * @returns Raw metadata values, null or undefined where none was found
+ *
+ * @example
+ * ```typescript
+ * const metadata = normalizeArticleMetadata(await page.evaluate(extractArticleMetadata));
+ * ```
+ */
+export function extractArticleMetadata(): RawArticleMetadata {
+  const meta = (...keys: string[]) => {
+    for (const key of keys) {
+      const content = document
+        .querySelector(`meta[property="${key}" i], meta[name="${key}" i], meta[itemprop="${key}"]`)
+        ?.getAttribute("content")
+        ?.trim();
+      if (content) return content;
+    }
+    return undefined;
+  };
+  const nameOf = (value: unknown): string | undefined => {
+    if (typeof value === "string") return value;
+    if (Array.isArray(value)) return value.map(nameOf).filter(Boolean).join(", ") || undefined;
+    if (value && typeof value === "object" && "name" in value) return nameOf(value.name);
+    return undefined;
+  };
+
+  let linkedData: Record<string, unknown> = {};
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const parsed = JSON.parse(script.textContent ?? "");
+      const items = [parsed, ...(Array.isArray(parsed) ? parsed : []), ...(parsed["@graph"] ?? [])];
+      const article = items.find(
+        (item) =>
+          item &&
+          typeof item === "object" &&
+          /Article|BlogPosting|Report|Posting/.test(String(item["@type"]))
+      );
+      if (article) {
+        linkedData = article;
+        break;
+      }
+    } catch {
+      // Invalid structured data is common; ignore it
+    }
+  }
+
+  const firstParagraph = [...document.querySelectorAll("article p, main p, p")]
+    .map((p) => (p.textContent ?? "").trim())
+    .find((text) => text.length >= 80);
+
+  return {
+    byline:
+      nameOf(linkedData.author) ??
+      meta("author", "article:author", "dc.creator", "parsely-author", "sailthru.author") ??
+      document.querySelector('[rel="author"], [itemprop="author"], .byline, .author')?.textContent,
+    publishedAt:
+      (typeof linkedData.datePublished === "string" ? linkedData.datePublished : undefined) ??
+      meta(
+        "article:published_time",
+        "datePublished",
+        "date",
+        "pubdate",
+        "publish-date",
+        "dc.date",
+        "dcterms.created",
+        "parsely-pub-date",
+        "sailthru.date"
+      ) ??
+      document.querySelector("time[datetime]")?.getAttribute("datetime"),
+    siteName: meta("og:site_name", "application-name") ?? nameOf(linkedData.publisher),
+    excerpt: meta("description", "og:description", "twitter:description") ?? firstParagraph,
+  };
+}
+
+/**
+ * Cleans up metadata read by {@link extractArticleMetadata}: collapses whitespace,
+ * strips a leading "By" from bylines and drops bylines that are URLs or too long,
+ * converts dates to ISO 8601, and shortens excerpts to {@link MAX_EXCERPT_LENGTH}
+ * characters at a word boundary. Missing and unusable values are left out.
+ *
+ * @param raw - Metadata values as found in the page
+ * @returns Normalized metadata
+ *
+ * @example
+ * ```typescript
+ * normalizeArticleMetadata({ byline: "  By Jane Doe ", publishedAt: "2024-03-05T10:00:00+01:00" });
+ * // => { byline: "Jane Doe", publishedAt: "2024-03-05T09:00:00.000Z" }
+ * ```
+ */
+export function normalizeArticleMetadata(raw: RawArticleMetadata): ArticleMetadata {
+  const clean = (value: string | null | undefined) =>
+    value?.replace(/\s+/g, " ").trim() || undefined;
+
+  const metadata: ArticleMetadata = {};
+
+  const byline = clean(raw.byline)?.replace(/^by\s+/i, "");
+  if (byline && byline.length <= MAX_BYLINE_LENGTH && !/^https?:\/\//i.test(byline)) {
+    metadata.byline = byline;
+  }
+
+  const published = clean(raw.publishedAt);
+  const timestamp = published ? Date.parse(published) : Number.NaN;
+  if (!Number.isNaN(timestamp)) {
+    metadata.publishedAt = new Date(timestamp).toISOString();
+  }
+
+  const siteName = clean(raw.siteName);
+  if (siteName) {
+    metadata.siteName = siteName;
+  }
+
+  const excerpt = clean(raw.excerpt);
+  if (excerpt) {
+    if (excerpt.length <= MAX_EXCERPT_LENGTH) {
+      metadata.excerpt = excerpt;
+    } else {
+      const cut = excerpt.slice(0, MAX_EXCERPT_LENGTH);
+      const boundary = cut.lastIndexOf(" ");
+      metadata.excerpt = `${(boundary > MAX_EXCERPT_LENGTH / 2 ? cut.slice(0, boundary) : cut).replace(/[\s,.;:]+$/, "")}…`;
+    }
+  }
+
+  return metadata;
+}
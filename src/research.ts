@@ -0,0 +1,830 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Page } from "playwright";
+import type { z } from "zod";
+import { type ContentExtractionOptions, MAX_BROWSER_SESSIONS, browserManager } from "./browser.js";
+import { createCacheKey, pageCache, toCacheInfo } from "./cache.js";
+import { chunkMarkdown } from "./chunk.js";
+import { buildOutline, normalizeLinks } from "./links.js";
+import { toReferenceLinks } from "./markdown.js";
+import { diffPageStates } from "./pagediff.js";
+import { buildTableGrid, tableColumnNames, tableToCsv } from "./tables.js";
+import {
+  type CacheInfo,
+  type ChunkResult,
+  type ClickArgs,
+  ClickArgsSchema,
+  type CloseSessionArgs,
+  CloseSessionArgsSchema,
+  type ExtractLinksArgs,
+  ExtractLinksArgsSchema,
+  type ExtractTablesArgs,
+  ExtractTablesArgsSchema,
+  type ExtractedTable,
+  type InteractionResult,
+  type LinkExtractionResult,
+  type PageContent,
+  type PageSnapshotArgs,
+  PageSnapshotArgsSchema,
+  type PageSnapshotResult,
+  type PressKeyArgs,
+  PressKeyArgsSchema,
+  type ReadChunkArgs,
+  ReadChunkArgsSchema,
+  type ResearchResult,
+  type ScreenshotImage,
+  type ScreenshotResult,
+  type ScrollArgs,
+  ScrollArgsSchema,
+  type SelectOptionArgs,
+  SelectOptionArgsSchema,
+  type SessionListResult,
+  type TableExtractionResult,
+  type TakeScreenshotArgs,
+  TakeScreenshotArgsSchema,
+  type TypeTextArgs,
+  TypeTextArgsSchema,
+  type VisitPageArgs,
+  VisitPageArgsSchema,
+  type WaitForArgs,
+  WaitForArgsSchema,
+} from "./types.js";
+import { canonicalizeUrl, saveScreenshot, sliceContent } from "./utils.js";
+
+/**
+ * Outcome of {@link performPageVisit}
+ */
+export interface PageVisit {
+  /** Structured result describing the page and the requested chunk of its content */
+  result: ResearchResult;
+  /** Screenshot images, when one was requested; several tiles if it was too large */
+  screenshots?: ScreenshotImage[];
+}
+
+/**
+ * Outcome of {@link performChunkRead}
+ */
+export interface ChunkRead {
+  /** The requested chunk and its neighbours */
+  result: ChunkResult;
+}
+
+/**
+ * Validates tool arguments against a schema, logging and rethrowing failures.
+ *
+ * @internal
+ */
+function parseArgs<S extends z.ZodTypeAny>(schema: S, args: unknown, caller: string): z.infer<S> {
+  const parsedArgs = schema.safeParse(args);
+  if (!parsedArgs.success) {
+    const error = new Error(`Invalid arguments: ${parsedArgs.error}`);
+    console.error(`${caller}: Invalid arguments`, error);
+    throw error;
+  }
+  return parsedArgs.data;
+}
+
+/**
+ * How {@link loadPageContent} loads a page
+ *
+ * @internal
+ */
+interface LoadOptions {
+  /** Serve the content from the cache when it is there */
+  useCache: boolean;
+  /** Session whose page to load it in; its content depends on the session, so the
+   * cache is neither read nor written */
+  sessionId?: string;
+  /** Also capture a screenshot of the live page */
+  takeScreenshot?: boolean;
+}
+
+/**
+ * Loads a page's content from the cache or, on a miss or when `useCache` is false,
+ * from the live page, caching the fresh content. Extraction options change the
+ * content, so they are part of the cache key.
+ *
+ * @internal
+ */
+async function loadPageContent(
+  url: string,
+  extraction: ContentExtractionOptions,
+  { useCache, sessionId, takeScreenshot }: LoadOptions
+): Promise<{ pageContent: PageContent; screenshots?: ScreenshotImage[]; cache?: CacheInfo }> {
+  const cacheKey = createCacheKey("page", {
+    url: canonicalizeUrl(url),
+    selector: extraction.selector,
+    format: extraction.format,
+    includeLinks: extraction.includeLinks,
+    includeImages: extraction.includeImages,
+  });
+
+  if (useCache && !sessionId) {
+    const cached = await pageCache.get(cacheKey);
+    if (cached) {
+      console.log("loadPageContent: served from cache", url);
+      // Tools acting on the current page expect it to show this page
+      browserManager.deferNavigation(url);
+      return { pageContent: cached.value, cache: toCacheInfo(cached, true) };
+    }
+  }
+
+  const { pageContent, screenshots } = await browserManager.withPage(
+    async (page) => {
+      const navigation = await browserManager.safePageNavigation(page, url);
+      const content = await browserManager.extractContent(page, extraction);
+      const metadata = await browserManager.extractMetadata(page);
+      return {
+        pageContent: {
+          ...navigation,
+          ...metadata,
+          content,
+          timestamp: new Date().toISOString(),
+        },
+        screenshots: takeScreenshot
+          ? await browserManager.takeScreenshotWithSizeLimit(page)
+          : undefined,
+      };
+    },
+    { sessionId }
+  );
+  const entry =
+    pageCache.enabled && pageContent.content && !sessionId
+      ? await pageCache.set(cacheKey, pageContent)
+      : undefined;
+  return {
+    pageContent,
+    ...(screenshots ? { screenshots } : {}),
+    ...(entry ? { cache: toCacheInfo(entry, false) } : {}),
+  };
+}
+
+/**
+ * Visits a web page and extracts its content. Without `bypassCache`, a cached copy
+ * of the page loaded with the same extraction options is reused; screenshots always
+ * need the live page, so `takeScreenshot` loads it again. The full content is
+ * cached and the requested chunk is cut from it, so reading further chunks with
+ * `offset` does not reload the page. With a `sessionId`, the page is loaded in that
+ * session's tab, and its content is not cached since it may depend on the session.
+ *
+ * The first response for Markdown content that spans several chunks includes a
+ * table of contents whose chunk IDs can be passed to {@link performChunkRead}.
+ * With `linkStyle: "referenced"`, links in the returned Markdown are rewritten as
+ * references listed at the end of each response; offsets and lengths still count
+ * the inline content.
+ *
+ * @param args - Visit page arguments
+ * @returns Promise resolving to the research result, with its cache status, and screenshots
+ * @throws {Error} If arguments are invalid, or navigation or extraction fails
+ *
+ * @example
+ * ```typescript
+ * const { result, screenshots } = await performPageVisit({
+ *   url: "https://example.com/docs",
+ *   format: "markdown",
+ *   offset: 0,
+ *   maxLength: 8000,
+ *   includeLinks: true,
+ *   includeImages: false,
+ *   takeScreenshot: true,
+ * });
+ * console.log(result.title, result.finalUrl, result.nextOffset, result.screenshotPath);
+ * ```
+ */
+export async function performPageVisit(args: VisitPageArgs): Promise<PageVisit> {
+  console.log("performPageVisit: started", args);
+  const {
+    url,
+    takeScreenshot,
+    bypassCache,
+    maxLength,
+    offset,
+    linkStyle,
+    sessionId,
+    ...extraction
+  } = parseArgs(VisitPageArgsSchema, args, "performPageVisit");
+
+  const { pageContent, screenshots, cache } = await loadPageContent(url, extraction, {
+    useCache: !bypassCache && !takeScreenshot,
+    sessionId,
+    takeScreenshot,
+  });
+  const { text, ...slice } = sliceContent(pageContent.content, offset, maxLength);
+  const result: ResearchResult = {
+    url,
+    format: extraction.format,
+    ...pageContent,
+    content:
+      linkStyle === "referenced" && extraction.format === "markdown"
+        ? toReferenceLinks(text)
+        : text,
+    ...slice,
+    ...(cache ? { cache } : {}),
+  };
+
+  if (extraction.format === "markdown" && offset === 0) {
+    const { chunks, toc } = chunkMarkdown(pageContent.content);
+    if (chunks.length > 1) {
+      result.toc = toc;
+    }
+  }
+
+  if (screenshots) {
+    result.screenshotPath = await saveScreenshot(
+      screenshots[0].data,
+      pageContent.title || new URL(pageContent.finalUrl).hostname
+    );
+  }
+
+  console.log("performPageVisit: finished", {
+    finalUrl: result.finalUrl,
+    status: result.status,
+    totalLength: result.totalLength,
+  });
+  return { result, ...(screenshots ? { screenshots } : {}) };
+}
+
+/**
+ * Reads one chunk of a page's Markdown content by the ID listed in the table of
+ * contents of {@link performPageVisit}. The chunk is cut from the cached extraction,
+ * so the page is only loaded again when it is not cached, `bypassCache` is set, or
+ * a `sessionId` is given.
+ *
+ * @param args - Read chunk arguments
+ * @returns Promise resolving to the chunk with the IDs of its neighbours
+ * @throws {McpError} If the page has no chunk with the given ID
+ * @throws {Error} If arguments are invalid, or navigation or extraction fails
+ *
+ * @example
+ * ```typescript
+ * const { result } = await performChunkRead({
+ *   url: "https://example.com/docs",
+ *   chunkId: "installation/linux",
+ *   includeLinks: true,
+ *   includeImages: true,
+ * });
+ * console.log(result.content, result.nextChunkId);
+ * ```
+ */
+export async function performChunkRead(args: ReadChunkArgs): Promise<ChunkRead> {
+  console.log("performChunkRead: started", args);
+  const { url, chunkId, bypassCache, linkStyle, sessionId, ...extraction } = parseArgs(
+    ReadChunkArgsSchema,
+    args,
+    "performChunkRead"
+  );
+
+  const { pageContent, cache } = await loadPageContent(
+    url,
+    { ...extraction, format: "markdown" },
+    { useCache: !bypassCache, sessionId }
+  );
+  const { chunks } = chunkMarkdown(pageContent.content);
+  const index = chunks.findIndex((chunk) => chunk.id === chunkId);
+  if (index === -1) {
+    const error = new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown chunk "${chunkId}"; the page has chunks: ${chunks.map((chunk) => chunk.id).join(", ")}`
+    );
+    console.error("performChunkRead: Unknown chunk", error);
+    throw error;
+  }
+
+  const chunk = chunks[index];
+  const result: ChunkResult = {
+    url,
+    finalUrl: pageContent.finalUrl,
+    title: pageContent.title,
+    chunkId: chunk.id,
+    path: chunk.path,
+    content: linkStyle === "referenced" ? toReferenceLinks(chunk.text) : chunk.text,
+    index,
+    chunkCount: chunks.length,
+    ...(index > 0 ? { previousChunkId: chunks[index - 1].id } : {}),
+    ...(index < chunks.length - 1 ? { nextChunkId: chunks[index + 1].id } : {}),
+    timestamp: pageContent.timestamp,
+    ...(cache ? { cache } : {}),
+  };
+  console.log("performChunkRead: finished", { chunkId, index, chunkCount: chunks.length });
+  return { result };
+}
+
+/**
+ * Extracts the data tables of a page, expanding column and row spans so every row
+ * has one value per column. Layout tables and tables without any text are skipped.
+ * Tables change with the live page, so they are not cached.
+ *
+ * @param args - Extract tables arguments
+ * @returns Promise resolving to the page's tables as JSON rows or CSV
+ * @throws {Error} If arguments are invalid, no element matches the selector, or
+ * navigation or extraction fails
+ *
+ * @example
+ * ```typescript
+ * const result = await performTableExtraction({
+ *   url: "https://example.com/pricing",
+ *   format: "json",
+ * });
+ * console.log(result.tables[0].columns, result.tables[0].rows);
+ * ```
+ */
+export async function performTableExtraction(
+  args: ExtractTablesArgs
+): Promise<TableExtractionResult> {
+  console.log("performTableExtraction: started", args);
+  const { url, selector, format, sessionId } = parseArgs(
+    ExtractTablesArgsSchema,
+    args,
+    "performTableExtraction"
+  );
+
+  const { navigation, rawTables } = await browserManager.withPage(
+    async (page) => ({
+      navigation: await browserManager.safePageNavigation(page, url),
+      rawTables: await browserManager.extractTables(page, selector),
+    }),
+    { sessionId }
+  );
+
+  const tables: ExtractedTable[] = [];
+  for (const rawTable of rawTables) {
+    const grid = buildTableGrid(rawTable);
+    if (grid.headerRows.length === 0 && grid.rows.length === 0) continue;
+    const columns = tableColumnNames(grid);
+    tables.push({
+      index: tables.length,
+      ...(grid.caption ? { caption: grid.caption } : {}),
+      columns,
+      rowCount: grid.rows.length,
+      ...(format === "csv"
+        ? { csv: tableToCsv(grid) }
+        : {
+            rows: grid.rows.map((row) =>
+              Object.fromEntries(columns.map((column, index) => [column, row[index]]))
+            ),
+          }),
+    });
+  }
+
+  console.log("performTableExtraction: finished", { tableCount: tables.length });
+  return {
+    url,
+    finalUrl: navigation.finalUrl,
+    title: navigation.title,
+    format,
+    tables,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Extracts the link graph and heading outline of a page. Links are resolved to
+ * absolute URLs, de-duplicated, classified as internal or external and tagged with
+ * the heading of the section they appear under. Links always come from the live
+ * page, so they are not cached.
+ *
+ * @param args - Extract links arguments
+ * @returns Promise resolving to the page's links and outline
+ * @throws {Error} If arguments are invalid, no element matches the selector, or
+ * navigation or extraction fails
+ *
+ * @example
+ * ```typescript
+ * const result = await performLinkExtraction({
+ *   url: "https://example.com/docs",
+ *   type: "internal",
+ * });
+ * console.log(result.links.map((link) => `${link.section}: ${link.url}`));
+ * ```
+ */
+export async function performLinkExtraction(args: ExtractLinksArgs): Promise<LinkExtractionResult> {
+  console.log("performLinkExtraction: started", args);
+  const { url, selector, type, sessionId } = parseArgs(
+    ExtractLinksArgsSchema,
+    args,
+    "performLinkExtraction"
+  );
+
+  const { navigation, raw } = await browserManager.withPage(
+    async (page) => ({
+      navigation: await browserManager.safePageNavigation(page, url),
+      raw: await browserManager.extractLinks(page, selector),
+    }),
+    { sessionId }
+  );
+
+  const links = normalizeLinks(raw.links, navigation.finalUrl, raw.baseUrl);
+  const internalCount = links.filter((link) => link.type === "internal").length;
+  const result: LinkExtractionResult = {
+    url,
+    finalUrl: navigation.finalUrl,
+    title: navigation.title,
+    internalCount,
+    externalCount: links.length - internalCount,
+    links: type ? links.filter((link) => link.type === type) : links,
+    outline: buildOutline(raw.headings, navigation.finalUrl),
+    timestamp: new Date().toISOString(),
+  };
+  console.log("performLinkExtraction: finished", {
+    internalCount: result.internalCount,
+    externalCount: result.externalCount,
+  });
+  return result;
+}
+
+/**
+ * Outcome of {@link performScreenshot}
+ */
+export interface ScreenshotCapture {
+  /** Description of the capture */
+  result: ScreenshotResult;
+  /** Images top to bottom; several tiles if the capture was too large for one */
+  images: ScreenshotImage[];
+}
+
+/**
+ * Takes a screenshot of a page, loading `url` first when given and otherwise
+ * capturing the page loaded last: the session's page with a `sessionId`, else the
+ * page used last by a call without one.
+ *
+ * @param args - Take screenshot arguments
+ * @returns Promise resolving to the images and a description of the capture
+ * @throws {McpError} If no URL is given and no page has been loaded yet
+ * @throws {Error} If arguments are invalid, navigation fails, no element matches the
+ * selector, or the capture can't be kept under the size limit
+ *
+ * @example
+ * ```typescript
+ * const { result, images } = await performScreenshot({
+ *   url: "https://example.com/pricing",
+ *   fullPage: true,
+ *   format: "jpeg",
+ * });
+ * console.log(result.imageCount, images[0].mimeType);
+ * ```
+ */
+export async function performScreenshot(args: TakeScreenshotArgs): Promise<ScreenshotCapture> {
+  console.log("performScreenshot: started", args);
+  const { url, sessionId, ...options } = parseArgs(
+    TakeScreenshotArgsSchema,
+    args,
+    "performScreenshot"
+  );
+
+  const capture = await browserManager.withPage(
+    async (page) => {
+      if (url) {
+        await browserManager.safePageNavigation(page, url);
+      } else if (page.url() === "about:blank") {
+        const error = new McpError(
+          ErrorCode.InvalidParams,
+          "No page has been loaded yet; pass a url to take_screenshot"
+        );
+        console.error("performScreenshot: No page loaded", error);
+        throw error;
+      }
+
+      const images = await browserManager.takeScreenshotWithSizeLimit(page, options);
+      // Tiled captures stop at a segment limit, possibly before the end of the page
+      const last = images[images.length - 1];
+      const pageHeight = options.tiled ? last?.pageHeight : undefined;
+      const truncated =
+        pageHeight !== undefined && (last.scrollY ?? 0) + (last.clip?.height ?? 0) < pageHeight;
+      const result: ScreenshotResult = {
+        url: page.url(),
+        title: await page.title(),
+        format: options.format,
+        imageCount: images.length,
+        ...(images.length > 1 ? { tiles: images.flatMap((image) => image.clip ?? []) } : {}),
+        ...(options.tiled ? { scrollOffsets: images.map((image) => image.scrollY ?? 0) } : {}),
+        ...(pageHeight !== undefined ? { pageHeight } : {}),
+        ...(truncated ? { truncated } : {}),
+      };
+      return { result, images };
+    },
+    { sessionId, current: !url }
+  );
+  console.log("performScreenshot: finished", { imageCount: capture.images.length });
+  return capture;
+}
+
+/**
+ * Lists the open browser sessions with the page each one shows.
+ *
+ * @returns Promise resolving to the sessions, most recently used first
+ *
+ * @example
+ * ```typescript
+ * const { sessions } = await performSessionList();
+ * console.log(sessions.map((session) => `${session.sessionId}: ${session.url}`));
+ * ```
+ */
+export async function performSessionList(): Promise<SessionListResult> {
+  console.log("performSessionList: started");
+  const sessions = await browserManager.listSessions();
+  console.log("performSessionList: finished", { sessionCount: sessions.length });
+  return { sessions, maxSessions: MAX_BROWSER_SESSIONS };
+}
+
+/**
+ * Closes a browser session, discarding its tab, cookies and history. A call running
+ * on the session finishes first.
+ *
+ * @param args - Close session arguments
+ * @returns Promise resolving to the ID of the closed session
+ * @throws {McpError} If no session has the given ID
+ * @throws {Error} If arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * await performSessionClose({ sessionId: "docs" });
+ * ```
+ */
+export async function performSessionClose(
+  args: CloseSessionArgs
+): Promise<{ sessionId: string; closed: true }> {
+  console.log("performSessionClose: started", args);
+  const { sessionId } = parseArgs(CloseSessionArgsSchema, args, "performSessionClose");
+
+  if (!(await browserManager.closeSession(sessionId))) {
+    const error = new McpError(ErrorCode.InvalidParams, `Unknown session "${sessionId}"`);
+    console.error("performSessionClose: Unknown session", error);
+    throw error;
+  }
+  console.log("performSessionClose: finished", { sessionId });
+  return { sessionId, closed: true };
+}
+
+/**
+ * Runs an interactive tool on the current page, the session's page with a
+ * `sessionId`, comparing the page before and after once it has settled.
+ *
+ * @internal
+ */
+async function runInteraction(
+  action: string,
+  sessionId: string | undefined,
+  interact: (page: Page) => Promise<unknown>
+): Promise<InteractionResult> {
+  return browserManager.withPage(
+    async (page) => {
+      if (page.url() === "about:blank") {
+        const error = new McpError(
+          ErrorCode.InvalidParams,
+          `No page has been loaded yet; load one with visit_page before using ${action}`
+        );
+        console.error("runInteraction: No page loaded", error);
+        throw error;
+      }
+
+      const before = await browserManager.readPageState(page);
+      await interact(page);
+      await browserManager.waitForSettle(page);
+      const after = await browserManager.readPageState(page);
+      return {
+        action,
+        url: after.url,
+        title: after.title,
+        changes: diffPageStates(before, after),
+        timestamp: new Date().toISOString(),
+      };
+    },
+    { sessionId, current: true }
+  );
+}
+
+/**
+ * Clicks an element of the current page, such as a consent button, a "load more"
+ * button or a tab, and reports what changed.
+ *
+ * @param args - Click arguments
+ * @returns Promise resolving to the page afterwards and what changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid or no visible element matches
+ *
+ * @example
+ * ```typescript
+ * const { changes } = await performClick({ text: "Load more" });
+ * console.log(changes.summary);
+ * ```
+ */
+export async function performClick(args: ClickArgs): Promise<InteractionResult> {
+  console.log("performClick: started", args);
+  const { sessionId, ...target } = parseArgs(ClickArgsSchema, args, "performClick");
+  const result = await runInteraction("click", sessionId, (page) =>
+    browserManager.click(page, target)
+  );
+  console.log("performClick: finished", result.changes.summary);
+  return result;
+}
+
+/**
+ * Types text into a form field of the current page, optionally pressing Enter to
+ * submit it, and reports what changed.
+ *
+ * @param args - Type text arguments
+ * @returns Promise resolving to the page afterwards and what changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid or no editable field matches
+ *
+ * @example
+ * ```typescript
+ * await performTypeText({ text: "Search", value: "rate limits", clear: true, submit: true });
+ * ```
+ */
+export async function performTypeText(args: TypeTextArgs): Promise<InteractionResult> {
+  console.log("performTypeText: started", args);
+  const { sessionId, value, clear, submit, ...target } = parseArgs(
+    TypeTextArgsSchema,
+    args,
+    "performTypeText"
+  );
+  const result = await runInteraction("type_text", sessionId, (page) =>
+    browserManager.typeText(page, target, value, { clear, submit })
+  );
+  console.log("performTypeText: finished", result.changes.summary);
+  return result;
+}
+
+/**
+ * Presses a key on the current page, on an element when given, and reports what
+ * changed.
+ *
+ * @param args - Press key arguments
+ * @returns Promise resolving to the page afterwards and what changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid, the key is unknown, or no visible
+ * element matches the target
+ *
+ * @example
+ * ```typescript
+ * await performKeyPress({ key: "Escape" });
+ * ```
+ */
+export async function performKeyPress(args: PressKeyArgs): Promise<InteractionResult> {
+  console.log("performKeyPress: started", args);
+  const { sessionId, key, ...target } = parseArgs(PressKeyArgsSchema, args, "performKeyPress");
+  const result = await runInteraction("press_key", sessionId, (page) =>
+    browserManager.pressKey(
+      page,
+      key,
+      target.selector || target.text || target.ref ? target : undefined
+    )
+  );
+  console.log("performKeyPress: finished", result.changes.summary);
+  return result;
+}
+
+/**
+ * Scrolls the current page, or scrolls an element into view, and reports what
+ * changed, such as content loaded by infinite scrolling.
+ *
+ * @param args - Scroll arguments
+ * @returns Promise resolving to the page afterwards and what changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid or no visible element matches the target
+ *
+ * @example
+ * ```typescript
+ * const { changes } = await performScroll({ direction: "bottom" });
+ * console.log(changes.addedCount);
+ * ```
+ */
+export async function performScroll(args: ScrollArgs): Promise<InteractionResult> {
+  console.log("performScroll: started", args);
+  const { sessionId, direction, amount, ...target } = parseArgs(
+    ScrollArgsSchema,
+    args,
+    "performScroll"
+  );
+  const result = await runInteraction("scroll", sessionId, (page) =>
+    browserManager.scroll(page, {
+      ...(target.selector || target.text || target.ref ? { target } : {}),
+      direction,
+      amount,
+    })
+  );
+  console.log("performScroll: finished", result.changes.summary);
+  return result;
+}
+
+/**
+ * Selects options of a select element on the current page and reports what changed.
+ *
+ * @param args - Select option arguments
+ * @returns Promise resolving to the selected values, the page afterwards and what
+ * changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid, no select matches, or it has no option
+ * with a given value or label
+ *
+ * @example
+ * ```typescript
+ * const { selected } = await performSelectOption({ text: "Sort by", values: ["Newest"] });
+ * ```
+ */
+export async function performSelectOption(args: SelectOptionArgs): Promise<InteractionResult> {
+  console.log("performSelectOption: started", args);
+  const { sessionId, values, ...target } = parseArgs(
+    SelectOptionArgsSchema,
+    args,
+    "performSelectOption"
+  );
+  let selected: string[] = [];
+  const result = await runInteraction("select_option", sessionId, async (page) => {
+    selected = await browserManager.selectOption(page, target, values);
+  });
+  console.log("performSelectOption: finished", result.changes.summary);
+  return { ...result, selected };
+}
+
+/**
+ * Waits for an element of the current page to appear or disappear, e.g. results
+ * loaded after a search, and reports what changed meanwhile.
+ *
+ * @param args - Wait for arguments
+ * @returns Promise resolving to the page afterwards and what changed on it
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid or the element doesn't reach the state
+ * in time
+ *
+ * @example
+ * ```typescript
+ * await performWaitFor({ selector: ".results li", state: "visible", timeout: 10000 });
+ * ```
+ */
+export async function performWaitFor(args: WaitForArgs): Promise<InteractionResult> {
+  console.log("performWaitFor: started", args);
+  const { sessionId, state, timeout, ...target } = parseArgs(
+    WaitForArgsSchema,
+    args,
+    "performWaitFor"
+  );
+  const result = await runInteraction("wait_for", sessionId, (page) =>
+    browserManager.waitFor(page, target, state, timeout)
+  );
+  console.log("performWaitFor: finished", result.changes.summary);
+  return result;
+}
+
+/**
+ * Outcome of {@link performPageSnapshot}
+ */
+export interface PageSnapshot {
+  /** Description of the snapshot */
+  result: PageSnapshotResult;
+  /** Indented outline of the accessibility tree */
+  snapshot: string;
+}
+
+/**
+ * Takes a snapshot of the current page's accessibility tree, the session's page with
+ * a `sessionId`. Elements such as links, buttons and form fields carry refs that the
+ * interactive tools accept instead of a selector.
+ *
+ * @param args - Page snapshot arguments
+ * @returns Promise resolving to the outline and a description of the page
+ * @throws {McpError} If no page has been loaded yet
+ * @throws {Error} If arguments are invalid or the accessibility tree can't be read
+ *
+ * @example
+ * ```typescript
+ * const { snapshot } = await performPageSnapshot({ interactiveOnly: true });
+ * // - button "Accept all" [ref=e1]
+ * await performClick({ ref: "e1" });
+ * ```
+ */
+export async function performPageSnapshot(args: PageSnapshotArgs): Promise<PageSnapshot> {
+  console.log("performPageSnapshot: started", args);
+  const { interactiveOnly, sessionId } = parseArgs(
+    PageSnapshotArgsSchema,
+    args,
+    "performPageSnapshot"
+  );
+
+  const capture = await browserManager.withPage(
+    async (page) => {
+      if (page.url() === "about:blank") {
+        const error = new McpError(
+          ErrorCode.InvalidParams,
+          "No page has been loaded yet; load one with visit_page before using page_snapshot"
+        );
+        console.error("performPageSnapshot: No page loaded", error);
+        throw error;
+      }
+
+      const { outline, refCount } = await browserManager.snapshotPage(page, interactiveOnly);
+      return {
+        result: {
+          url: page.url(),
+          title: await page.title(),
+          refCount,
+          timestamp: new Date().toISOString(),
+        },
+        snapshot: outline,
+      };
+    },
+    { sessionId, current: true }
+  );
+  console.log("performPageSnapshot: finished", { refCount: capture.result.refCount });
+  return capture;
+}
@@ -1,54 +1,53 @@
-import { SafeSearchType, search } from "duck-duck-scrape";
-import { z } from "zod";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
 import {
+  type DuckbarImageResult,
+  type NewsResult,
+  SearchTimeType,
+  type VideoResult,
+  search,
+  searchImages,
+  searchNews,
+  searchVideos,
+} from "duck-duck-scrape";
+import type { z } from "zod";
+import { createCacheKey, normalizeQuery, searchCache, toCacheInfo } from "./cache.js";
+import { classifyUrl } from "./classify.js";
+import { contentTypeRules, searchDefaults } from "./config.js";
+import { ResultDeduplicator } from "./dedupe.js";
+import { detectLanguage, regionForLanguage } from "./language.js";
+import { withSearchRateLimit } from "./ratelimit.js";
+import { analyzeTopics } from "./topics.js";
+import {
+  type BatchQueryResult,
+  type BatchSearchArgs,
+  BatchSearchArgsSchema,
+  type BatchSearchResponse,
+  type FusedSearchResult,
+  type ImageSearchArgs,
+  ImageSearchArgsSchema,
+  type ImageSearchResponse,
+  type ImageSearchResult,
+  type InstantAnswer,
+  type NewsSearchArgs,
+  NewsSearchArgsSchema,
+  type NewsSearchResponse,
+  type NewsSearchResult,
   type SearchArgs,
   SearchArgsSchema,
+  type SearchFilters,
   type SearchOptions,
   type SearchResponse,
   type SearchResult,
+  type VerticalSearchMetadata,
+  type VideoSearchArgs,
+  VideoSearchArgsSchema,
+  type VideoSearchResponse,
+  type VideoSearchResult,
 } from "./types.js";
+import { canonicalizeUrl, mapWithConcurrency } from "./utils.js";
 
 /**
- * Detects the content type of a search result based on its URL.
- *
- * @param result - The search result to analyze
- * @returns The detected content type ("documentation", "social", or "article")
- *
- * @internal
- */
-function detectContentType(result: DuckDuckGoResult): SearchResult["metadata"]["type"] {
-  const url = result.url.toLowerCase();
-  if (url.includes("docs.") || url.includes("/docs/") || url.includes("/documentation/")) {
-    return "documentation";
-  }
-  if (url.includes("github.com") || url.includes("stackoverflow.com")) {
-    return "documentation";
-  }
-  if (url.includes("twitter.com") || url.includes("facebook.com") || url.includes("linkedin.com")) {
-    return "social";
-  }
-  return "article";
-}
-
-/**
- * Detects the language of a search query using basic heuristics.
- * Currently detects Chinese queries based on hyphen presence.
- *
- * @param query - The search query to analyze
- * @returns The detected language code ("zh-cn" or "en")
- *
- * @internal
- */
-function detectLanguage(query: string): string {
-  return /[-]/.test(query) ? "zh-cn" : "en";
-}
-
-/**
- * Analyzes search results to detect common topics.
- * Currently detects technology and documentation related topics.
- *
- * @param results - Array of search results to analyze
- * @returns Array of detected topics
+ * Fields of a duck-duck-scrape web result used to build a SearchResult
  *
  * @internal
  */
@@ -58,23 +57,9 @@ interface DuckDuckGoResult {
   description: string;
 }
 
-function detectTopics(results: DuckDuckGoResult[]): string[] {
-  const topics = new Set<string>();
-  for (const result of results) {
-    if (result.title.toLowerCase().includes("github")) topics.add("technology");
-    if (
-      result.title.toLowerCase().includes("docs") ||
-      result.title.toLowerCase().includes("documentation")
-    ) {
-      topics.add("documentation");
-    }
-  }
-  return Array.from(topics);
-}
-
 /**
  * Processes raw search results into a structured SearchResponse format.
- * Adds metadata, content type detection, and query analysis.
+ * Adds metadata, content type detection, topic clustering and query analysis.
  *
  * @param results - Raw search results from duck-duck-scrape
  * @param query - Original search query
@@ -88,44 +73,439 @@ function processSearchResults(
   query: string,
   options: SearchArgs["options"]
 ): SearchResponse {
+  const language = detectLanguage(query);
+  const data = results.map(
+    (result: DuckDuckGoResult) =>
+      ({
+        title: result.title.replace(/&#x27;/g, "'").replace(/"/g, '"'),
+        url: result.url,
+        description: result.description.trim(),
+        metadata: {
+          type: classifyUrl(result.url, contentTypeRules),
+          source: new URL(result.url).hostname,
+        },
+      }) as SearchResult
+  );
+  const { topics, clusters, assignments } = analyzeTopics(data, query);
+  data.forEach((result, index) => {
+    result.cluster = assignments[index];
+  });
   return {
     type: "search_results",
-    data: results.map(
-      (result: DuckDuckGoResult) =>
-        ({
-          title: result.title.replace(/&#x27;/g, "'").replace(/"/g, '"'),
-          url: result.url,
-          description: result.description.trim(),
-          metadata: {
-            type: detectContentType(result as SearchResult),
-            source: new URL(result.url).hostname,
-          },
-        }) as SearchResult
-    ),
+    data,
     metadata: {
       query,
       timestamp: new Date().toISOString(),
       resultCount: results.length,
+      duplicatesMerged: 0,
       searchContext: {
-        region: options?.region || "zh-cn",
-        safeSearch: options?.safeSearch || SafeSearchType.MODERATE,
-        numResults: options?.numResults || 50,
+        region: options?.region || searchDefaults.region,
+        safeSearch: options?.safeSearch ?? searchDefaults.safeSearch,
+        numResults: options?.numResults ?? searchDefaults.numResults,
       },
       queryAnalysis: {
-        language: detectLanguage(query),
-        topics: detectTopics(results),
+        language: language.language,
+        languageConfidence: language.confidence,
+        topics,
+        clusters,
       },
     },
   };
 }
 
+/**
+ * Endpoint of DuckDuckGo's Instant Answer API
+ * @constant {string}
+ */
+export const INSTANT_ANSWER_URL = "https://api.duckduckgo.com/";
+
+/**
+ * Maximum number of related topics included in an instant answer
+ * @constant {number}
+ */
+export const MAX_RELATED_TOPICS = 10;
+
+/**
+ * Raw response of the Instant Answer API (only the fields we use).
+ *
+ * @internal
+ */
+interface DuckDuckGoInstantAnswer {
+  Heading?: string;
+  AbstractText?: string;
+  AbstractSource?: string;
+  AbstractURL?: string;
+  Answer?: string | number;
+  Definition?: string;
+  DefinitionSource?: string;
+  DefinitionURL?: string;
+  Image?: string;
+  Infobox?: { content?: Array<{ label?: string; value?: unknown }> } | "";
+  RelatedTopics?: DuckDuckGoRelatedTopic[];
+}
+
+/**
+ * A related topic, or a named group of related topics.
+ *
+ * @internal
+ */
+interface DuckDuckGoRelatedTopic {
+  Text?: string;
+  FirstURL?: string;
+  Name?: string;
+  Topics?: DuckDuckGoRelatedTopic[];
+}
+
+/**
+ * Fetches DuckDuckGo's zero-click instant answer for a query through the shared
+ * rate limiter and maps it to an {@link InstantAnswer}. The instant answer is a
+ * best-effort addition to the web results, so failures are logged and ignored.
+ *
+ * @param query - Search query, without filter operators
+ * @param region - Search region
+ * @returns Promise resolving to the instant answer, or undefined if there is none
+ *
+ * @internal
+ */
+async function fetchInstantAnswer(
+  query: string,
+  region: string
+): Promise<InstantAnswer | undefined> {
+  const url = new URL(INSTANT_ANSWER_URL);
+  url.search = new URLSearchParams({
+    q: query,
+    format: "json",
+    no_html: "1",
+    no_redirect: "1",
+    skip_disambig: "1",
+    kl: region,
+  }).toString();
+
+  try {
+    const raw = await withSearchRateLimit(async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return (await response.json()) as DuckDuckGoInstantAnswer;
+    });
+    return processInstantAnswer(raw);
+  } catch (error) {
+    console.error("fetchInstantAnswer: Instant answer lookup failed", error);
+    return undefined;
+  }
+}
+
+/**
+ * Maps a raw Instant Answer API response, dropping empty fields.
+ *
+ * @param raw - Raw API response
+ * @returns The instant answer, or undefined if the response carries no information
+ *
+ * @internal
+ */
+function processInstantAnswer(raw: DuckDuckGoInstantAnswer): InstantAnswer | undefined {
+  const infobox = (raw.Infobox ? (raw.Infobox.content ?? []) : []).flatMap((field) =>
+    field.label && (typeof field.value === "string" || typeof field.value === "number")
+      ? [{ label: field.label, value: String(field.value) }]
+      : []
+  );
+
+  const relatedTopics: InstantAnswer["relatedTopics"] = [];
+  const collectTopics = (topics: DuckDuckGoRelatedTopic[]) => {
+    for (const topic of topics) {
+      if (topic.Topics) {
+        collectTopics(topic.Topics);
+      } else if (topic.Text && topic.FirstURL) {
+        relatedTopics.push({ text: topic.Text, url: topic.FirstURL });
+      }
+    }
+  };
+  collectTopics(raw.RelatedTopics ?? []);
+
+  const answer: InstantAnswer = {
+    heading: raw.Heading ?? "",
+    ...(raw.AbstractText ? { abstract: raw.AbstractText } : {}),
+    ...(raw.AbstractSource && raw.AbstractText ? { source: raw.AbstractSource } : {}),
+    ...(raw.AbstractURL && raw.AbstractText ? { sourceUrl: raw.AbstractURL } : {}),
+    ...(raw.Answer !== undefined && raw.Answer !== "" ? { answer: String(raw.Answer) } : {}),
+    ...(raw.Definition
+      ? {
+          definition: {
+            text: raw.Definition,
+            source: raw.DefinitionSource ?? "",
+            url: raw.DefinitionURL ?? "",
+          },
+        }
+      : {}),
+    ...(raw.Image
+      ? { image: raw.Image.startsWith("/") ? `https://duckduckgo.com${raw.Image}` : raw.Image }
+      : {}),
+    infobox,
+    relatedTopics: relatedTopics.slice(0, MAX_RELATED_TOPICS),
+  };
+
+  const hasContent =
+    answer.abstract || answer.answer || answer.definition || infobox.length || relatedTopics.length;
+  return hasContent ? answer : undefined;
+}
+
+/**
+ * DuckDuckGo `df` values for the predefined time ranges.
+ *
+ * @internal
+ */
+const TIME_RANGES: Record<Exclude<SearchFilters["timeRange"], "custom" | undefined>, string> = {
+  day: SearchTimeType.DAY,
+  week: SearchTimeType.WEEK,
+  month: SearchTimeType.MONTH,
+  year: SearchTimeType.YEAR,
+};
+
+/**
+ * Translates search filter options into DuckDuckGo query operators and parameters.
+ * Site, file type and phrase filters become `site:`, `-site:`, `filetype:` and quoted
+ * operators appended to the query; time ranges become the `df` parameter.
+ *
+ * @param query - Original search query
+ * @param options - Validated search options
+ * @returns The query to send, the `time` parameter and the filters that were applied,
+ * or `undefined` filters when none were requested
+ *
+ * @internal
+ */
+function applySearchFilters(
+  query: string,
+  options: SearchArgs["options"]
+): { effectiveQuery: string; time?: string; filters?: SearchFilters } {
+  const filters: SearchFilters = {};
+  const operators: string[] = [];
+
+  if (options?.exactPhrase) {
+    filters.exactPhrase = options.exactPhrase;
+    operators.push(`"${options.exactPhrase.replace(/"/g, "")}"`);
+  }
+  if (options?.site) {
+    filters.site = options.site.toLowerCase();
+    operators.push(`site:${filters.site}`);
+  }
+  if (options?.excludeSites?.length) {
+    filters.excludeSites = options.excludeSites.map((site) => site.toLowerCase());
+    operators.push(...filters.excludeSites.map((site) => `-site:${site}`));
+  }
+  if (options?.filetype) {
+    filters.filetype = options.filetype.toLowerCase();
+    operators.push(`filetype:${filters.filetype}`);
+  }
+  // DuckDuckGo has no operator for content types; results are filtered after fetching
+  if (options?.contentTypes?.length) {
+    filters.contentTypes = [...new Set(options.contentTypes)];
+  }
+
+  let time: string | undefined;
+  if (options?.timeRange === "custom") {
+    filters.timeRange = "custom";
+    filters.dateFrom = options.dateFrom;
+    filters.dateTo = options.dateTo;
+    time = `${options.dateFrom}..${options.dateTo}`;
+  } else if (options?.timeRange) {
+    filters.timeRange = options.timeRange;
+    time = TIME_RANGES[options.timeRange];
+  }
+
+  return {
+    effectiveQuery: [query, ...operators].join(" "),
+    ...(time ? { time } : {}),
+    ...(Object.keys(filters).length > 0 ? { filters } : {}),
+  };
+}
+
+/**
+ * Maximum number of DuckDuckGo result pages fetched for a single request.
+ * @constant {number}
+ */
+export const MAX_SEARCH_PAGES = 5;
+
+/**
+ * Pagination state carried between requests in an opaque cursor token.
+ *
+ * @internal
+ */
+interface SearchCursor {
+  /** Query the cursor was issued for */
+  q: string;
+  /** DuckDuckGo query key, reused so the query does not need to be re-issued */
+  vqd: string;
+  /** Offset of the first result on the next page */
+  offset: number;
+}
+
+/**
+ * Encodes pagination state into an opaque, URL-safe cursor token.
+ *
+ * @param cursor - Pagination state to encode
+ * @returns Base64url encoded cursor
+ *
+ * @internal
+ */
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+}
+
+/**
+ * Decodes a cursor token and checks that it belongs to the given query.
+ *
+ * @param token - Cursor token from a previous response
+ * @param query - Query of the current request
+ * @returns Decoded pagination state
+ * @throws {Error} If the cursor is malformed or was issued for a different query
+ *
+ * @internal
+ */
+function decodeCursor(token: string, query: string): SearchCursor {
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor: malformed token");
+  }
+
+  if (
+    typeof cursor?.q !== "string" ||
+    typeof cursor.vqd !== "string" ||
+    typeof cursor.offset !== "number" ||
+    cursor.offset < 0
+  ) {
+    throw new Error("Invalid cursor: malformed token");
+  }
+  if (cursor.q !== query) {
+    throw new Error("Invalid cursor: cursor was issued for a different query");
+  }
+  return cursor;
+}
+
+/**
+ * A single page of results as returned by any duck-duck-scrape search function.
+ *
+ * @internal
+ */
+interface ResultPage<T> {
+  noResults: boolean;
+  vqd: string;
+  results: T[];
+}
+
+/**
+ * Fetches consecutive DuckDuckGo result pages until `numResults` unique results have
+ * been collected, the results run out, or {@link MAX_SEARCH_PAGES} is reached.
+ * Every page request goes through the shared DuckDuckGo rate limiter.
+ *
+ * @param query - Search query
+ * @param numResults - Number of results to collect
+ * @param pageState - Decoded cursor to resume from, if any
+ * @param fetchPage - Fetches one page for the given offset and query key
+ * @param keyOf - Returns the identity of a result used for de-duplication across pages
+ * @param accept - Optional filter; rejected results are skipped without counting
+ *   towards `numResults`
+ * @returns Collected results and the cursor for the next page, if any
+ * @throws {RateLimitError} If DuckDuckGo keeps rate-limiting requests
+ *
+ * @internal
+ */
+async function collectPages<T>(
+  query: string,
+  numResults: number,
+  pageState: SearchCursor | undefined,
+  fetchPage: (offset: number, vqd?: string) => Promise<ResultPage<T>>,
+  keyOf: (result: T) => string,
+  accept?: (result: T) => boolean
+): Promise<{ results: T[]; nextCursor?: string }> {
+  const results: T[] = [];
+  const seen = new Set<string>();
+  let offset = pageState?.offset ?? 0;
+  let vqd = pageState?.vqd;
+  let exhausted = false;
+
+  for (let page = 0; page < MAX_SEARCH_PAGES && results.length < numResults; page++) {
+    const pageResults = await withSearchRateLimit(() => fetchPage(offset, vqd));
+    vqd = pageResults.vqd || vqd;
+
+    const fresh = pageResults.results.filter((result) => !seen.has(keyOf(result)));
+    if (pageResults.noResults || fresh.length === 0) {
+      exhausted = true;
+      break;
+    }
+
+    let consumed = 0;
+    for (const result of fresh) {
+      if (results.length >= numResults) break;
+      consumed++;
+      seen.add(keyOf(result));
+      if (!accept || accept(result)) {
+        results.push(result);
+      }
+    }
+
+    // Only advance past what was consumed so the next cursor resumes mid-page if needed
+    offset += consumed < fresh.length ? consumed : pageResults.results.length;
+  }
+
+  return {
+    results,
+    nextCursor: !exhausted && vqd ? encodeCursor({ q: query, vqd, offset }) : undefined,
+  };
+}
+
+/**
+ * Validates tool arguments against a schema, logging and rethrowing failures
+ * with the same message format for every search function.
+ *
+ * @internal
+ */
+function parseArgs<S extends z.ZodTypeAny>(schema: S, args: unknown, caller: string): z.infer<S> {
+  const parsedArgs = schema.safeParse(args);
+  if (!parsedArgs.success) {
+    const error = new Error(`Invalid arguments: ${parsedArgs.error}`);
+    console.error(`${caller}: Invalid arguments`, error);
+    throw error;
+  }
+  return parsedArgs.data;
+}
+
+/**
+ * Decodes an optional cursor argument, logging failures on behalf of the caller.
+ *
+ * @internal
+ */
+function resolveCursor(
+  cursor: string | undefined,
+  query: string,
+  caller: string
+): SearchCursor | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+  try {
+    return decodeCursor(cursor, query);
+  } catch (error) {
+    console.error(`${caller}: Invalid cursor`, error);
+    throw error;
+  }
+}
+
 /**
  * Performs a search using DuckDuckGo with enhanced processing and metadata.
- * Validates arguments, executes the search, and processes results into a structured format.
+ * Validates arguments, fetches as many result pages as needed to honor `numResults`,
+ * and processes results into a structured format. When more results are available,
+ * `metadata.nextCursor` can be passed back as `cursor` to continue from where this
+ * request stopped. The first page also carries DuckDuckGo's instant answer for the
+ * query when one exists. Responses are cached on disk keyed on the normalized query and
+ * options; pass `bypassCache` to force a fresh search.
  *
- * @param args - Search arguments including query and optional parameters
+ * @param args - Search arguments including query, optional parameters and cursor
  * @returns Promise resolving to processed search results with metadata
- * @throws {Error} If arguments are invalid or search fails
+ * @throws {RateLimitError} If DuckDuckGo keeps rate-limiting requests
+ * @throws {Error} If arguments or cursor are invalid, or search fails
  *
  * @example
  * ```typescript
@@ -137,40 +517,481 @@ function processSearchResults(
  *     numResults: 10
  *   }
  * });
+ *
+ * if (results.metadata.nextCursor) {
+ *   const more = await performSearch({
+ *     query: "typescript best practices",
+ *     cursor: results.metadata.nextCursor,
+ *   });
+ * }
  * ```
  */
 export async function performSearch(args: SearchArgs): Promise<SearchResponse> {
   console.log("performSearch: started", args);
-  const parsedArgs = SearchArgsSchema.safeParse(args);
-  if (!parsedArgs.success) {
-    const error = new Error(`Invalid arguments: ${parsedArgs.error}`);
-    console.error("performSearch: Invalid arguments", error);
-    throw error;
-  }
+  const { query, options, cursor, bypassCache } = parseArgs(
+    SearchArgsSchema,
+    args,
+    "performSearch"
+  );
 
-  const safeSearch = parsedArgs.data.options?.safeSearch || SafeSearchType.MODERATE;
+  const safeSearch = options?.safeSearch ?? searchDefaults.safeSearch;
+  // Only infer a region when asked to, and never override one the caller chose
+  const detectedRegion =
+    !options?.region && options?.autoRegion ? regionForLanguage(detectLanguage(query)) : undefined;
+  const region = options?.region || detectedRegion || searchDefaults.region;
+  const numResults = options?.numResults ?? searchDefaults.numResults;
+  const { effectiveQuery, time, filters } = applySearchFilters(query, options);
+  // Cursors are bound to the effective query so they cannot be reused with other filters
+  const pageState = resolveCursor(cursor, effectiveQuery, "performSearch");
 
-  const searchOptions: SearchOptions = {
-    region: parsedArgs.data.options?.region || "zh-cn",
+  // Instant answers describe the query as a whole, so only the first page carries one
+  const wantInstantAnswer = options?.includeInstantAnswer !== false && !pageState;
+  const cacheKey = createCacheKey("search", {
+    query: normalizeQuery(query),
+    region,
     safeSearch,
-    numResults:
-      parsedArgs.data.options?.numResults !== undefined ? parsedArgs.data.options.numResults : 50,
-  };
+    numResults,
+    filters,
+    cursor,
+    includeInstantAnswer: wantInstantAnswer,
+  });
+  if (!bypassCache) {
+    const cached = await searchCache.get(cacheKey);
+    if (cached) {
+      console.log("performSearch: cache hit", cacheKey);
+      return {
+        ...cached.value,
+        metadata: { ...cached.value.metadata, cache: toCacheInfo(cached, true) },
+      };
+    }
+  }
+
+  const contentTypes = filters?.contentTypes;
+  // Duplicates are merged while paging so they do not count towards numResults
+  const deduplicator = new ResultDeduplicator();
 
   try {
-    console.log("performSearch: calling search", parsedArgs.data.query, searchOptions);
-    const searchResults = await search(parsedArgs.data.query, searchOptions);
-    console.log("performSearch: search returned", searchResults);
-    const processedResults = processSearchResults(searchResults.results, parsedArgs.data.query, {
-      region: parsedArgs.data.options?.region || "zh-cn",
+    const [{ results, nextCursor }, instantAnswer] = await Promise.all([
+      collectPages(
+        effectiveQuery,
+        numResults,
+        pageState,
+        async (offset, vqd) => {
+          const searchOptions: SearchOptions = {
+            region,
+            safeSearch,
+            offset,
+            ...(vqd ? { vqd } : {}),
+            ...(time ? { time } : {}),
+          };
+          console.log("performSearch: calling search", effectiveQuery, searchOptions);
+          const searchResults = await search(effectiveQuery, searchOptions);
+          console.log("performSearch: search returned", searchResults);
+          return searchResults;
+        },
+        (result) => canonicalizeUrl(result.url),
+        (result) =>
+          (!contentTypes || contentTypes.includes(classifyUrl(result.url, contentTypeRules))) &&
+          deduplicator.add(result)
+      ),
+      wantInstantAnswer ? fetchInstantAnswer(query, region) : Promise.resolve(undefined),
+    ]);
+
+    const processedResults = processSearchResults(results, query, {
+      region,
       safeSearch,
-      numResults: parsedArgs.data.options?.numResults || 50,
+      numResults,
     });
+    processedResults.metadata.duplicatesMerged = deduplicator.mergedCount;
+    if (instantAnswer) {
+      processedResults.instantAnswer = instantAnswer;
+    }
+    if (nextCursor) {
+      processedResults.metadata.nextCursor = nextCursor;
+    }
+    if (detectedRegion) {
+      processedResults.metadata.searchContext.regionAutoDetected = true;
+    }
+    if (filters) {
+      processedResults.metadata.searchContext.filters = filters;
+      processedResults.metadata.searchContext.effectiveQuery = effectiveQuery;
+    }
+    if (searchCache.enabled) {
+      const entry = await searchCache.set(cacheKey, processedResults);
+      processedResults.metadata.cache = toCacheInfo(entry, false);
+    }
     console.log("performSearch: finished", processedResults);
     return processedResults;
   } catch (e) {
+    if (e instanceof McpError) {
+      throw e;
+    }
     const error = new Error(`Search failed: ${(e as Error).message}`);
     console.error("performSearch: Search failed", error);
     throw error;
   }
 }
+
+/**
+ * Number of batch queries run at the same time unless the caller asks otherwise.
+ * Matches the default rate limiter burst so a batch starts without waiting.
+ * @constant {number}
+ */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/**
+ * Constant `k` of reciprocal rank fusion. Larger values flatten the difference
+ * between top and lower ranks; 60 is the value from the original RRF paper.
+ * @constant {number}
+ */
+export const RRF_K = 60;
+
+/**
+ * Runs several web searches as one batch and fuses their results. Queries run with
+ * bounded concurrency, and each page request still goes through the shared rate
+ * limiter. Per-query options override the shared options. A failing query is
+ * reported in its entry rather than failing the batch, unless every query fails.
+ *
+ * The merged union de-duplicates results across queries like {@link performSearch}
+ * does within one, and ranks them by reciprocal rank fusion: each result scores
+ * the sum of `1 / (RRF_K + rank)` over the queries that returned it, so results
+ * ranked well by several queries come first.
+ *
+ * @param args - Batch arguments with queries, shared options and concurrency
+ * @returns Promise resolving to per-query responses and the fused union
+ * @throws {RateLimitError} If every query failed and the first failure was a rate limit
+ * @throws {Error} If arguments are invalid or every query failed
+ *
+ * @example
+ * ```typescript
+ * const batch = await performBatchSearch({
+ *   queries: ["rust async runtime", { query: "tokio vs async-std", options: { timeRange: "year" } }],
+ *   options: { region: "us-en", numResults: 10 },
+ * });
+ * console.log(batch.merged[0].url, batch.merged[0].queries);
+ * ```
+ */
+export async function performBatchSearch(args: BatchSearchArgs): Promise<BatchSearchResponse> {
+  console.log("performBatchSearch: started", args);
+  const { queries, options, concurrency, bypassCache } = parseArgs(
+    BatchSearchArgsSchema,
+    args,
+    "performBatchSearch"
+  );
+
+  const searches = queries.map((entry) =>
+    typeof entry === "string"
+      ? { query: entry, options: { ...options } }
+      : { query: entry.query, options: { ...options, ...entry.options } }
+  );
+
+  const outcomes = await mapWithConcurrency(
+    searches,
+    concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    async ({ query, options }): Promise<BatchQueryResult & { failure?: unknown }> => {
+      try {
+        // performSearch validates the merged options and fills in defaults
+        const response = await performSearch({ query, options, bypassCache } as SearchArgs);
+        return { query, response };
+      } catch (error) {
+        console.error("performBatchSearch: query failed", query, error);
+        return {
+          query,
+          error: {
+            ...(error instanceof McpError ? { code: error.code } : {}),
+            message: (error as Error).message,
+          },
+          failure: error,
+        };
+      }
+    }
+  );
+
+  const failed = outcomes.filter((outcome) => outcome.error);
+  if (failed.length === outcomes.length) {
+    throw failed[0].failure;
+  }
+
+  const deduplicator = new ResultDeduplicator();
+  const merged: FusedSearchResult[] = [];
+  let duplicatesMerged = 0;
+  for (const { query, response } of outcomes) {
+    response?.data.forEach(({ cluster, ...result }, index) => {
+      const score = 1 / (RRF_K + index + 1);
+      const existing = deduplicator.indexOf(result);
+      if (existing === -1) {
+        deduplicator.add(result);
+        merged.push({ ...result, score, queries: [query] });
+        return;
+      }
+      duplicatesMerged++;
+      merged[existing].score += score;
+      if (!merged[existing].queries.includes(query)) {
+        merged[existing].queries.push(query);
+      }
+    });
+  }
+  merged.sort((a, b) => b.score - a.score);
+  for (const result of merged) {
+    result.score = Math.round(result.score * 1e6) / 1e6;
+  }
+
+  const response: BatchSearchResponse = {
+    type: "batch_search_results",
+    queries: outcomes.map(({ failure, ...outcome }) => outcome),
+    merged,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      queryCount: outcomes.length,
+      failedCount: failed.length,
+      resultCount: merged.length,
+      duplicatesMerged,
+      fusion: { method: "reciprocal_rank_fusion", k: RRF_K },
+    },
+  };
+  console.log("performBatchSearch: finished", response.metadata);
+  return response;
+}
+
+/**
+ * Builds the metadata block shared by news, image and video search responses.
+ *
+ * @internal
+ */
+function buildVerticalMetadata(
+  query: string,
+  resultCount: number,
+  searchContext: VerticalSearchMetadata["searchContext"],
+  nextCursor?: string
+): VerticalSearchMetadata {
+  return {
+    query,
+    timestamp: new Date().toISOString(),
+    resultCount,
+    ...(nextCursor ? { nextCursor } : {}),
+    searchContext,
+  };
+}
+
+/**
+ * Runs a paginated vertical (news, image or video) search with the same validation,
+ * cursor handling and error wrapping as {@link performSearch}.
+ *
+ * @internal
+ */
+async function performVerticalSearch<T>(
+  caller: string,
+  query: string,
+  cursor: string | undefined,
+  searchContext: VerticalSearchMetadata["searchContext"],
+  fetchPage: (offset: number, vqd?: string) => Promise<ResultPage<T>>,
+  keyOf: (result: T) => string
+): Promise<{ results: T[]; metadata: VerticalSearchMetadata }> {
+  const pageState = resolveCursor(cursor, query, caller);
+
+  try {
+    const { results, nextCursor } = await collectPages(
+      query,
+      searchContext.numResults,
+      pageState,
+      fetchPage,
+      keyOf
+    );
+    return {
+      results,
+      metadata: buildVerticalMetadata(query, results.length, searchContext, nextCursor),
+    };
+  } catch (e) {
+    if (e instanceof McpError) {
+      throw e;
+    }
+    const error = new Error(`Search failed: ${(e as Error).message}`);
+    console.error(`${caller}: Search failed`, error);
+    throw error;
+  }
+}
+
+/**
+ * Searches DuckDuckGo News for recent articles.
+ *
+ * @param args - News search arguments including query, optional parameters and cursor
+ * @returns Promise resolving to news results with publish dates and sources
+ * @throws {Error} If arguments or cursor are invalid, or search fails
+ *
+ * @example
+ * ```typescript
+ * const news = await performNewsSearch({
+ *   query: "typescript release",
+ *   options: { region: "us-en", numResults: 10 }
+ * });
+ * ```
+ */
+export async function performNewsSearch(args: NewsSearchArgs): Promise<NewsSearchResponse> {
+  console.log("performNewsSearch: started", args);
+  const { query, options, cursor } = parseArgs(NewsSearchArgsSchema, args, "performNewsSearch");
+  const searchContext = {
+    region: options?.region || searchDefaults.region,
+    safeSearch: options?.safeSearch ?? searchDefaults.safeSearch,
+    numResults: options?.numResults ?? searchDefaults.verticalNumResults,
+  };
+
+  const { results, metadata } = await performVerticalSearch<NewsResult>(
+    "performNewsSearch",
+    query,
+    cursor,
+    searchContext,
+    (offset, vqd) =>
+      searchNews(query, {
+        locale: searchContext.region,
+        safeSearch: searchContext.safeSearch,
+        offset,
+        ...(vqd ? { vqd } : {}),
+      }),
+    (article) => article.url
+  );
+
+  const response: NewsSearchResponse = {
+    type: "news_results",
+    data: results.map(
+      (article): NewsSearchResult => ({
+        title: article.title,
+        url: article.url,
+        excerpt: article.excerpt.trim(),
+        source: article.syndicate,
+        // DuckDuckGo reports news dates as Unix timestamps in seconds
+        publishedAt: new Date(article.date * 1000).toISOString(),
+        relativeTime: article.relativeTime,
+        ...(article.image ? { thumbnail: article.image } : {}),
+      })
+    ),
+    metadata,
+  };
+  console.log("performNewsSearch: finished", response);
+  return response;
+}
+
+/**
+ * Searches DuckDuckGo Images.
+ *
+ * @param args - Image search arguments including query, filters and cursor
+ * @returns Promise resolving to image results with dimensions and thumbnails
+ * @throws {Error} If arguments or cursor are invalid, or search fails
+ *
+ * @example
+ * ```typescript
+ * const images = await performImageSearch({
+ *   query: "typescript logo",
+ *   options: { size: ImageSize.LARGE }
+ * });
+ * ```
+ */
+export async function performImageSearch(args: ImageSearchArgs): Promise<ImageSearchResponse> {
+  console.log("performImageSearch: started", args);
+  const { query, options, cursor } = parseArgs(ImageSearchArgsSchema, args, "performImageSearch");
+  const searchContext = {
+    region: options?.region || searchDefaults.region,
+    safeSearch: options?.safeSearch ?? searchDefaults.safeSearch,
+    numResults: options?.numResults ?? searchDefaults.verticalNumResults,
+  };
+
+  const { results, metadata } = await performVerticalSearch<DuckbarImageResult>(
+    "performImageSearch",
+    query,
+    cursor,
+    searchContext,
+    (offset, vqd) =>
+      searchImages(query, {
+        locale: searchContext.region,
+        safeSearch: searchContext.safeSearch,
+        offset,
+        ...(vqd ? { vqd } : {}),
+        ...(options?.size ? { size: options.size } : {}),
+        ...(options?.type ? { type: options.type } : {}),
+        ...(options?.layout ? { layout: options.layout } : {}),
+        ...(options?.color ? { color: options.color } : {}),
+        ...(options?.license ? { license: options.license } : {}),
+      }),
+    (image) => image.image
+  );
+
+  const response: ImageSearchResponse = {
+    type: "image_results",
+    data: results.map(
+      (image): ImageSearchResult => ({
+        title: image.title,
+        url: image.url,
+        imageUrl: image.image,
+        thumbnail: image.thumbnail,
+        source: image.source,
+        width: image.width,
+        height: image.height,
+      })
+    ),
+    metadata,
+  };
+  console.log("performImageSearch: finished", response);
+  return response;
+}
+
+/**
+ * Searches DuckDuckGo Videos.
+ *
+ * @param args - Video search arguments including query, filters and cursor
+ * @returns Promise resolving to video results with durations and publishers
+ * @throws {Error} If arguments or cursor are invalid, or search fails
+ *
+ * @example
+ * ```typescript
+ * const videos = await performVideoSearch({
+ *   query: "typescript tutorial",
+ *   options: { duration: VideoDuration.MEDIUM }
+ * });
+ * ```
+ */
+export async function performVideoSearch(args: VideoSearchArgs): Promise<VideoSearchResponse> {
+  console.log("performVideoSearch: started", args);
+  const { query, options, cursor } = parseArgs(VideoSearchArgsSchema, args, "performVideoSearch");
+  const searchContext = {
+    region: options?.region || searchDefaults.region,
+    safeSearch: options?.safeSearch ?? searchDefaults.safeSearch,
+    numResults: options?.numResults ?? searchDefaults.verticalNumResults,
+  };
+
+  const { results, metadata } = await performVerticalSearch<VideoResult>(
+    "performVideoSearch",
+    query,
+    cursor,
+    searchContext,
+    (offset, vqd) =>
+      searchVideos(query, {
+        locale: searchContext.region,
+        safeSearch: searchContext.safeSearch,
+        offset,
+        ...(vqd ? { vqd } : {}),
+        ...(options?.duration ? { duration: options.duration } : {}),
+        ...(options?.definition ? { definition: options.definition } : {}),
+        ...(options?.license ? { license: options.license } : {}),
+      }),
+    (video) => video.url
+  );
+
+  const response: VideoSearchResponse = {
+    type: "video_results",
+    data: results.map(
+      (video): VideoSearchResult => ({
+        title: video.title,
+        url: video.url,
+        description: video.description.trim(),
+        thumbnail: video.image,
+        duration: video.duration,
+        publishedAt: video.published,
+        platform: video.publishedOn,
+        publisher: video.publisher,
+        ...(video.viewCount !== undefined ? { viewCount: video.viewCount } : {}),
+      })
+    ),
+    metadata,
+  };
+  console.log("performVideoSearch: finished", response);
+  return response;
+}
@@ -0,0 +1,277 @@
+import type { Page } from "playwright";
+
+/**
+ * ARIA role accepted by Playwright's `getByRole`
+ */
+export type AriaRole = Parameters<Page["getByRole"]>[0];
+
+/**
+ * Roles whose elements get a ref in snapshots, so interactive tools can target them
+ * @constant {Set<string>}
+ */
+export const REF_ROLES = new Set<string>([
+  "button",
+  "checkbox",
+  "combobox",
+  "heading",
+  "link",
+  "listbox",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+  "treeitem",
+]);
+
+/**
+ * Longest name or value kept in a snapshot line, in characters
+ * @constant {number}
+ */
+export const MAX_SNAPSHOT_TEXT_LENGTH = 100;
+
+/**
+ * Roles whose inline text in an ARIA snapshot is the element's value rather than
+ * its content
+ * @constant {Set<string>}
+ */
+const VALUE_ROLES = new Set(["combobox", "searchbox", "slider", "spinbutton", "textbox"]);
+
+/**
+ * A node of a page's accessibility tree, as read by {@link parseAriaSnapshot}
+ */
+export interface SnapshotNode {
+  role: string;
+  name: string;
+  value?: string | number;
+  disabled?: boolean;
+  expanded?: boolean;
+  focused?: boolean;
+  selected?: boolean;
+  checked?: boolean | "mixed";
+  pressed?: boolean | "mixed";
+  level?: number;
+  children?: SnapshotNode[];
+}
+
+/**
+ * How an element with a ref is found again: the `nth` element with its role and,
+ * when it has one, its accessible name
+ */
+export interface RoleLocator {
+  role: AriaRole;
+  name?: string;
+  nth: number;
+}
+
+/**
+ * Options for {@link renderSnapshot}
+ */
+export interface SnapshotOptions {
+  /** Refs of the page's previous snapshots, kept for the same elements */
+  previous?: Map<string, RoleLocator>;
+  /** List only nodes with a ref, without indentation */
+  interactiveOnly?: boolean;
+}
+
+/**
+ * A rendered snapshot and the refs of the elements it lists
+ */
+export interface RenderedSnapshot {
+  /** Indented outline, one line per node */
+  outline: string;
+  /** Locators by ref, including refs kept from earlier snapshots */
+  refs: Map<string, RoleLocator>;
+  /** Number of refs in the outline */
+  refCount: number;
+}
+
+/**
+ * Reads a YAML string of an ARIA snapshot, unquoting it if it is quoted.
+ *
+ * @internal
+ */
+function unquoteYaml(text: string): string {
+  if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+  if (text.startsWith('"')) {
+    // Control characters are escaped as \xNN, which JSON spells \u00NN
+    const json = text.replace(/\\(x[0-9a-f]{2}|.)/gi, (match, sequence: string) =>
+      sequence.length === 3 ? `\\u00${sequence.slice(1)}` : match
+    );
+    return JSON.parse(json) as string;
+  }
+  return text;
+}
+
+/**
+ * Parses the YAML of Playwright's `locator.ariaSnapshot()`, such as
+ * `- heading "Docs" [level=1]`, into a tree. The roles and names are the ones
+ * `page.getByRole` matches, so elements found in the tree can be located again.
+ * Properties such as `- /url: …` and unknown attributes are skipped.
+ *
+ * @param yaml - ARIA snapshot of the page
+ * @returns Root node whose children are the snapshot's top-level entries
+ *
+ * @example
+ * ```typescript
+ * const tree = parseAriaSnapshot(await page.locator("body").ariaSnapshot());
+ * // tree.children: [{ role: "heading", name: "Docs", level: 1 }]
+ * ```
+ */
+export function parseAriaSnapshot(yaml: string): SnapshotNode {
+  const root: SnapshotNode = { role: "fragment", name: "" };
+  const parents: Array<{ indent: number; node: SnapshotNode }> = [{ indent: -1, node: root }];
+
+  for (const line of yaml.split("\n")) {
+    const entry = /^( *)- (.*)$/.exec(line);
+    if (!entry) continue;
+    const indent = entry[1].length;
+    const text = entry[2];
+
+    // A key is quoted when it contains ": ", so the first one ends an unquoted key
+    let keyEnd = text.search(/:( |$)/);
+    if (text.startsWith("'")) {
+      keyEnd = 1;
+      while (keyEnd < text.length && (text[keyEnd] !== "'" || text[keyEnd + 1] === "'")) {
+        keyEnd += text[keyEnd] === "'" ? 2 : 1;
+      }
+      keyEnd++;
+    }
+    const key = unquoteYaml(keyEnd === -1 ? text : text.slice(0, keyEnd));
+    const inline = keyEnd === -1 ? "" : text.slice(keyEnd + 1).trim();
+    const value = inline ? unquoteYaml(inline) : "";
+
+    while (parents[parents.length - 1].indent >= indent) parents.pop();
+    const parent = parents[parents.length - 1].node;
+    if (key.startsWith("/")) continue;
+
+    let node: SnapshotNode;
+    if (key === "text") {
+      node = { role: "text", name: value };
+    } else {
+      const parsed = /^([\w-]+)(?: ("(?:[^"\\]|\\.)*"))?(.*)$/.exec(key);
+      if (!parsed) continue;
+      node = { role: parsed[1], name: parsed[2] ? (JSON.parse(parsed[2]) as string) : "" };
+      for (const [, name, setting] of parsed[3].matchAll(/\[([\w-]+)(?:=([^\]]*))?\]/g)) {
+        if (name === "level") node.level = Number(setting);
+        else if (name === "checked" || name === "pressed") {
+          node[name] = setting === "mixed" ? "mixed" : true;
+        } else if (name === "disabled" || name === "expanded" || name === "selected") {
+          node[name] = true;
+        }
+      }
+      if (value && VALUE_ROLES.has(node.role)) node.value = value;
+      else if (value) node.children = [{ role: "text", name: value }];
+    }
+    parent.children = [...(parent.children ?? []), node];
+    parents.push({ indent, node });
+  }
+  return root;
+}
+
+/**
+ * Identifies an element across snapshots by role, name and position.
+ *
+ * @internal
+ */
+function locatorKey({ role, name, nth }: RoleLocator): string {
+  return JSON.stringify([role, name ?? null, nth]);
+}
+
+/**
+ * Quotes a name or value, shortened to {@link MAX_SNAPSHOT_TEXT_LENGTH} characters.
+ *
+ * @internal
+ */
+function quote(text: string): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  const short =
+    clean.length > MAX_SNAPSHOT_TEXT_LENGTH
+      ? `${clean.slice(0, MAX_SNAPSHOT_TEXT_LENGTH - 1)}…`
+      : clean;
+  return JSON.stringify(short);
+}
+
+/**
+ * Renders an accessibility tree as an indented outline such as
+ * `- button "Accept all" [ref=e3]`, giving every node with a role in
+ * {@link REF_ROLES} a ref. Refs are kept for elements that were in `previous` with
+ * the same role, name and position, so they stay stable across snapshots of a
+ * page; new elements get the next free number. The root node is left out, as are
+ * text nodes repeating their parent's name.
+ *
+ * @param root - Root of the tree, or null for a page without one
+ * @param options - Refs from the page's previous snapshot, and whether to list only
+ * nodes with a ref
+ * @returns The outline and the locators of its refs
+ *
+ * @example
+ * ```typescript
+ * const tree = parseAriaSnapshot(await page.locator("body").ariaSnapshot());
+ * const { outline, refs } = renderSnapshot(tree);
+ * // outline: '- heading "Docs" [level=1] [ref=e1]\n- link "Install" [ref=e2]'
+ * ```
+ */
+export function renderSnapshot(
+  root: SnapshotNode | null,
+  { previous = new Map(), interactiveOnly = false }: SnapshotOptions = {}
+): RenderedSnapshot {
+  const refByKey = new Map([...previous].map(([ref, locator]) => [locatorKey(locator), ref]));
+  let nextRef = Math.max(0, ...[...previous.keys()].map((ref) => Number(ref.slice(1)))) + 1;
+  const refs = new Map(previous);
+  const counts = new Map<string, number>();
+  const lines: string[] = [];
+  let refCount = 0;
+
+  const visit = (node: SnapshotNode, depth: number, parentName: string) => {
+    let ref = "";
+    if (REF_ROLES.has(node.role)) {
+      // Unnamed elements are found among all elements with the role
+      const roleIndex = counts.get(node.role) ?? 0;
+      counts.set(node.role, roleIndex + 1);
+      const nameKey = JSON.stringify([node.role, node.name]);
+      const nameIndex = counts.get(nameKey) ?? 0;
+      counts.set(nameKey, nameIndex + 1);
+      const nth = node.name ? nameIndex : roleIndex;
+      const locator: RoleLocator = {
+        role: node.role as AriaRole,
+        ...(node.name ? { name: node.name } : {}),
+        nth,
+      };
+      const key = locatorKey(locator);
+      ref = refByKey.get(key) ?? `e${nextRef++}`;
+      refByKey.set(key, ref);
+      refs.set(ref, locator);
+      refCount++;
+    }
+
+    const repeatsParent = node.role === "text" && node.name === parentName;
+    const listed = !repeatsParent && (ref !== "" || !interactiveOnly);
+    if (listed) {
+      const parts = [`${"  ".repeat(depth)}- ${node.role}`];
+      if (node.name) parts.push(quote(node.name));
+      if (node.value !== undefined && node.value !== "") {
+        parts.push(`[value=${quote(String(node.value))}]`);
+      }
+      if (node.level) parts.push(`[level=${node.level}]`);
+      if (node.checked !== undefined) parts.push(`[checked=${node.checked}]`);
+      if (node.pressed !== undefined) parts.push(`[pressed=${node.pressed}]`);
+      for (const flag of ["disabled", "expanded", "selected", "focused"] as const) {
+        if (node[flag] !== undefined) parts.push(node[flag] ? `[${flag}]` : `[${flag}=false]`);
+      }
+      if (ref) parts.push(`[ref=${ref}]`);
+      lines.push(parts.join(" "));
+    }
+    const childDepth = listed && !interactiveOnly ? depth + 1 : depth;
+    for (const child of node.children ?? []) visit(child, childDepth, node.name);
+  };
+
+  for (const child of root?.children ?? []) visit(child, 0, root?.name ?? "");
+  return { outline: lines.join("\n"), refs, refCount };
+}
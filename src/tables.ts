@@ -0,0 +1,242 @@
+/**
+ * A cell as read from the page, before spans are expanded
+ */
+export interface RawTableCell {
+  /** Text or Markdown content of the cell */
+  text: string;
+  /** Whether the cell is a `<th>` */
+  header: boolean;
+  /** Number of columns the cell spans */
+  colspan: number;
+  /** Number of rows the cell spans */
+  rowspan: number;
+}
+
+/**
+ * A table as read from the page, before spans are expanded
+ */
+export interface RawTable {
+  /** Text of the `<caption>`, if any */
+  caption?: string;
+  /** Rows of cells in document order */
+  rows: RawTableCell[][];
+  /** Number of leading rows inside `<thead>` */
+  headRowCount: number;
+}
+
+/**
+ * A table with spans expanded into a rectangular grid
+ */
+export interface TableGrid {
+  /** Text of the `<caption>`, if any */
+  caption?: string;
+  /** Header rows, empty if the table has no header */
+  headerRows: string[][];
+  /** Data rows */
+  rows: string[][];
+  /** Number of columns */
+  columnCount: number;
+}
+
+/**
+ * Largest colspan or rowspan honoured; larger values are clamped, as browsers do
+ * @constant {number}
+ */
+export const MAX_SPAN = 1000;
+
+/**
+ * Reads the tables among or inside the given elements. Each element may be a table
+ * or contain tables. Layout tables, marked with a `presentation` or `none` role or
+ * holding nested tables, are skipped.
+ *
+ * Runs both inside the page through `page.$$eval` and on elements parsed by
+ * Turndown, so it must not use anything outside its own body and parameters.
+ *
+ * @param elements - Tables or elements containing tables
+ * @param cellContent - Converts a cell to text, defaults to its whitespace-collapsed text
+ * @returns The tables found, in document order
+ *
+ * @example
+ * ```typescript
+ * const tables = await page.$$eval("table", readTables);
+ * ```
+ */
+export function readTables(
+  elements: Element[],
+  cellContent?: (cell: Element) => string
+): RawTable[] {
+  const textOf = (el: Element) => (el.textContent ?? "").replace(/\s+/g, " ").trim();
+  const span = (cell: Element, name: string) =>
+    Math.min(Math.max(Number.parseInt(cell.getAttribute(name) ?? "1", 10) || 1, 1), 1000);
+
+  const tables: Element[] = [];
+  for (const el of elements) {
+    for (const table of el.tagName === "TABLE" ? [el] : Array.from(el.querySelectorAll("table"))) {
+      if (!tables.includes(table)) tables.push(table);
+    }
+  }
+
+  const result: RawTable[] = [];
+  for (const table of tables) {
+    const role = table.getAttribute("role");
+    if (role === "presentation" || role === "none" || table.querySelector("table")) {
+      continue;
+    }
+
+    const rows: Array<{ row: Element; head: boolean }> = [];
+    let caption: string | undefined;
+    for (const child of Array.from(table.children)) {
+      if (child.tagName === "CAPTION") {
+        caption = textOf(child) || undefined;
+      } else if (child.tagName === "TR") {
+        rows.push({ row: child, head: false });
+      } else if (/^(THEAD|TBODY|TFOOT)$/.test(child.tagName)) {
+        for (const row of Array.from(child.children)) {
+          if (row.tagName === "TR") rows.push({ row, head: child.tagName === "THEAD" });
+        }
+      }
+    }
+
+    let headRowCount = 0;
+    while (headRowCount < rows.length && rows[headRowCount].head) headRowCount++;
+    result.push({
+      ...(caption ? { caption } : {}),
+      headRowCount,
+      rows: rows.map(({ row }) =>
+        Array.from(row.children)
+          .filter((cell) => cell.tagName === "TD" || cell.tagName === "TH")
+          .map((cell) => ({
+            text: cellContent ? cellContent(cell) : textOf(cell),
+            header: cell.tagName === "TH",
+            colspan: span(cell, "colspan"),
+            rowspan: span(cell, "rowspan"),
+          }))
+      ),
+    });
+  }
+  return result;
+}
+
+/**
+ * Expands row and column spans into a rectangular grid, repeating a spanning cell's
+ * text in every position it covers, and separates header rows from data rows.
+ * Header rows are the rows in `<thead>`, or else the leading rows made only of
+ * `<th>` cells. Rows without any text are dropped.
+ *
+ * @param table - Table as read by {@link readTables}
+ * @returns The table as a grid
+ *
+ * @example
+ * ```typescript
+ * const grid = buildTableGrid(rawTable);
+ * console.log(grid.headerRows[0], grid.rows.length);
+ * ```
+ */
+export function buildTableGrid(table: RawTable): TableGrid {
+  const grid: string[][] = [];
+  const headerFlags: boolean[] = [];
+  table.rows.forEach((cells, rowIndex) => {
+    grid[rowIndex] ??= [];
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[rowIndex][column] !== undefined) column++;
+      for (let r = 0; r < Math.min(cell.rowspan, MAX_SPAN); r++) {
+        // Row spans never reach past the last row, as in browsers
+        if (rowIndex + r >= table.rows.length) break;
+        grid[rowIndex + r] ??= [];
+        for (let c = 0; c < Math.min(cell.colspan, MAX_SPAN); c++) {
+          grid[rowIndex + r][column + c] = cell.text;
+        }
+      }
+      column += cell.colspan;
+    }
+    headerFlags[rowIndex] = cells.length > 0 && cells.every((cell) => cell.header);
+  });
+
+  const columnCount = Math.max(0, ...grid.map((row) => row.length));
+  const filled = grid.map((row) => Array.from({ length: columnCount }, (_, i) => row[i] ?? ""));
+
+  let headerCount = table.headRowCount;
+  if (headerCount === 0) {
+    while (headerCount < filled.length - 1 && headerFlags[headerCount]) headerCount++;
+  }
+  const hasText = (row: string[]) => row.some((cell) => cell !== "");
+  return {
+    ...(table.caption ? { caption: table.caption } : {}),
+    headerRows: filled.slice(0, headerCount).filter(hasText),
+    rows: filled.slice(headerCount).filter(hasText),
+    columnCount,
+  };
+}
+
+/**
+ * Derives one unique name per column from the header rows. Stacked header rows are
+ * joined with " / ", skipping repeats from column spans; columns without a header
+ * are named "Column 1", "Column 2" and so on, and repeated names get a " (2)" suffix.
+ *
+ * @param grid - Table grid
+ * @returns Column names, one per column
+ */
+export function tableColumnNames(grid: TableGrid): string[] {
+  const used = new Map<string, number>();
+  return Array.from({ length: grid.columnCount }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of grid.headerRows) {
+      const text = row[column];
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    const base = parts.join(" / ") || `Column ${column + 1}`;
+    const seen = used.get(base) ?? 0;
+    used.set(base, seen + 1);
+    return seen ? `${base} (${seen + 1})` : base;
+  });
+}
+
+/**
+ * Formats a table grid as a GitHub Flavored Markdown table. GFM tables need a header
+ * row, so a table without one uses its first data row as the header.
+ *
+ * @param grid - Table grid
+ * @returns Markdown table, or an empty string for an empty table
+ *
+ * @example
+ * ```typescript
+ * tableToMarkdown({ headerRows: [["Plan", "Price"]], rows: [["Pro", "$10"]], columnCount: 2 });
+ * // => "| Plan | Price |\n| --- | --- |\n| Pro | $10 |"
+ * ```
+ */
+export function tableToMarkdown(grid: TableGrid): string {
+  if (grid.columnCount === 0) return "";
+  const escapeCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+  const line = (row: string[]) => `| ${row.map(escapeCell).join(" | ")} |`;
+
+  const [header, ...rows] =
+    grid.headerRows.length > 0
+      ? [
+          grid.headerRows[0].map((_, column) =>
+            [...new Set(grid.headerRows.map((row) => row[column]).filter(Boolean))].join(" / ")
+          ),
+          ...grid.rows,
+        ]
+      : grid.rows;
+  if (!header) return "";
+  return [line(header), line(header.map(() => "---")), ...rows.map(line)].join("\n");
+}
+
+/**
+ * Formats a table grid as CSV (RFC 4180), with a header line of column names from
+ * {@link tableColumnNames}.
+ *
+ * @param grid - Table grid
+ * @returns CSV text with CRLF line endings
+ *
+ * @example
+ * ```typescript
+ * tableToCsv({ headerRows: [["Plan", "Price"]], rows: [["Pro", "$10, billed yearly"]], columnCount: 2 });
+ * // => 'Plan,Price\r\nPro,"$10, billed yearly"'
+ * ```
+ */
+export function tableToCsv(grid: TableGrid): string {
+  const field = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return [tableColumnNames(grid), ...grid.rows].map((row) => row.map(field).join(",")).join("\r\n");
+}
@@ -0,0 +1,288 @@
+import type { TopicCluster } from "./types.js";
+
+/**
+ * Maximum number of keywords reported in `queryAnalysis.topics`
+ * @constant {number}
+ */
+export const MAX_TOPICS = 10;
+
+/**
+ * Maximum number of keyword clusters results are grouped into, not counting {@link OTHER_CLUSTER}
+ * @constant {number}
+ */
+export const MAX_CLUSTERS = 8;
+
+/**
+ * Label of the cluster holding results that share no keyword with other results
+ * @constant {string}
+ */
+export const OTHER_CLUSTER = "other";
+
+/**
+ * Number of times a title is counted relative to the description, since titles
+ * are short and usually name the subject of the page.
+ *
+ * @internal
+ */
+const TITLE_WEIGHT = 2;
+
+/**
+ * Extra weight given to two-word phrases, which make more specific labels than single words.
+ *
+ * @internal
+ */
+const PHRASE_BOOST = 1.5;
+
+/**
+ * English function words and web boilerplate that never make useful topics.
+ *
+ * @internal
+ */
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be because been before
+  being below between both but by can could did do does doing down during each few for from
+  further get gets got had has have having he her here hers herself him himself his how i if
+  in into is it its itself just let like may me might more most must my myself new no nor not
+  now of off on once one only or other others our ours ourselves out over own per same see
+  she should so some such than that the their theirs them themselves then there these they
+  this those through to too under until up us use used using very via vs was we were what
+  when where which while who whom why will with within without would you your yours
+  yourself yourselves com www http https html htm org net amp nbsp page pages site official
+  home read more learn click free best top`.split(/\s+/)
+);
+
+/**
+ * Text of a result used for topic extraction
+ */
+export interface TopicDocument {
+  title: string;
+  description: string;
+}
+
+/**
+ * Topics found in a set of results and the cluster each result belongs to
+ */
+export interface TopicAnalysis {
+  /** Most salient keywords and phrases across all results, best first */
+  topics: string[];
+  /** Labeled groups of results, largest first, followed by {@link OTHER_CLUSTER} if non-empty */
+  clusters: TopicCluster[];
+  /** Cluster label of each input document, in input order */
+  assignments: string[];
+}
+
+/**
+ * Splits text into lower-cased word tokens. Han ideographs, which are not separated
+ * by spaces, are split into overlapping character bigrams. Stopwords are kept as
+ * `null` so that phrases are never formed across them.
+ *
+ * @internal
+ */
+function tokenize(text: string): Array<string | null> {
+  const tokens: Array<string | null> = [];
+  for (const raw of text.toLowerCase().split(/[^\p{L}\p{N}+#]+/u)) {
+    if (/\p{Script=Han}/u.test(raw)) {
+      const chars = [...raw];
+      if (chars.length === 1) {
+        tokens.push(raw, null);
+      }
+      // Overlapping bigrams are not separate words, so never join them into phrases
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1], null);
+      }
+      continue;
+    }
+    if (raw.length < 2 || /^[\d+#]+$/.test(raw) || STOPWORDS.has(raw)) {
+      tokens.push(null);
+      continue;
+    }
+    tokens.push(raw);
+  }
+  return tokens;
+}
+
+/**
+ * Extracts the candidate terms of a text: single words and two-word phrases.
+ *
+ * @internal
+ */
+function extractTerms(text: string): string[] {
+  const tokens = tokenize(text);
+  const terms: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token) continue;
+    terms.push(token);
+    const next = tokens[i + 1];
+    if (next) terms.push(`${token} ${next}`);
+  }
+  return terms;
+}
+
+/**
+ * Extracts topics from search results with TF-IDF keyword scoring and groups the
+ * results into clusters labeled by a shared keyword.
+ *
+ * Terms are single words and two-word phrases from titles and descriptions. Terms
+ * from the query itself, and terms found in every result, are ignored because they
+ * do not tell results apart. A term's topic score is the sum of its TF-IDF weights
+ * over all results. Clusters are built greedily: the term shared by the most
+ * unclustered results labels the next cluster, until no term is shared by at least
+ * two of the remaining results.
+ *
+ * @param documents - Titles and descriptions of the results
+ * @param query - Search query whose own terms are excluded
+ * @returns Ranked topics, clusters and per-result cluster labels
+ *
+ * @example
+ * ```typescript
+ * const { topics, assignments } = analyzeTopics(results, "rust web framework");
+ * // topics => ["actix web", "axum", "rocket", ...]
+ * // assignments => ["actix web", "axum", "actix web", "other", ...]
+ * ```
+ */
+export function analyzeTopics(documents: TopicDocument[], query: string): TopicAnalysis {
+  const queryTerms = new Set(extractTerms(query));
+  const termCounts = documents.map(({ title, description }) => {
+    const counts = new Map<string, number>();
+    const text = `${`${title} `.repeat(TITLE_WEIGHT)}${description}`;
+    for (const term of extractTerms(text)) {
+      if (!queryTerms.has(term)) counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // With only a couple of results every term is as good as any other; with more,
+  // a term must be shared to say something about the result set as a whole
+  const minFrequency = documents.length >= 3 ? 2 : 1;
+  const weights = termCounts.map((counts) => {
+    const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    const weighted = new Map<string, number>();
+    for (const [term, count] of counts) {
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(documents.length / df);
+      if (df < minFrequency || idf === 0) continue;
+      const boost = term.includes(" ") ? PHRASE_BOOST : 1;
+      weighted.set(term, (count / total) * idf * boost);
+    }
+    return weighted;
+  });
+
+  const scores = new Map<string, number>();
+  for (const weighted of weights) {
+    for (const [term, weight] of weighted) {
+      scores.set(term, (scores.get(term) ?? 0) + weight);
+    }
+  }
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([term]) => term);
+
+  return {
+    topics: dropRedundantWords(ranked, documentFrequency).slice(0, MAX_TOPICS),
+    ...clusterDocuments(weights, ranked, scores),
+  };
+}
+
+/**
+ * Removes single words that only ever occur as part of a phrase that is also a topic,
+ * e.g. "actix" when "actix web" is also a topic.
+ *
+ * @internal
+ */
+function dropRedundantWords(ranked: string[], documentFrequency: Map<string, number>): string[] {
+  const phrases = ranked.filter((term) => term.includes(" "));
+  return ranked.filter(
+    (term) =>
+      term.includes(" ") ||
+      !phrases.some(
+        (phrase) =>
+          phrase.split(" ").includes(term) &&
+          documentFrequency.get(phrase) === documentFrequency.get(term)
+      )
+  );
+}
+
+/**
+ * Greedily groups documents by the candidate term shared by most unclustered documents.
+ *
+ * @internal
+ */
+function clusterDocuments(
+  weights: Array<Map<string, number>>,
+  ranked: string[],
+  scores: Map<string, number>
+): Pick<TopicAnalysis, "clusters" | "assignments"> {
+  const assignments: string[] = weights.map(() => OTHER_CLUSTER);
+  const clusters: TopicCluster[] = [];
+  const candidates = ranked.slice(0, MAX_CLUSTERS * 5);
+
+  while (clusters.length < MAX_CLUSTERS) {
+    let best: { term: string; members: number[] } | undefined;
+    for (const term of candidates) {
+      const members = [...weights.keys()].filter(
+        (index) => assignments[index] === OTHER_CLUSTER && weights[index].has(term)
+      );
+      // Candidates are ranked by score, so ties in coverage go to the more salient term
+      if (!best || members.length > best.members.length) {
+        best = { term, members };
+      }
+    }
+    if (!best || best.members.length < 2) break;
+
+    for (const index of best.members) {
+      assignments[index] = best.term;
+    }
+    const label = best.term;
+    clusters.push({
+      label,
+      keywords: topTerms(
+        best.members.map((index) => weights[index]),
+        (term) => term !== label && !label.split(" ").includes(term)
+      ),
+      resultCount: best.members.length,
+    });
+  }
+
+  clusters.sort(
+    (a, b) =>
+      b.resultCount - a.resultCount || (scores.get(b.label) ?? 0) - (scores.get(a.label) ?? 0)
+  );
+  const unclustered = assignments.filter((label) => label === OTHER_CLUSTER).length;
+  if (unclustered > 0) {
+    clusters.push({ label: OTHER_CLUSTER, keywords: [], resultCount: unclustered });
+  }
+  return { clusters, assignments };
+}
+
+/**
+ * Returns the highest-weighted terms across a group of documents, without repeating words.
+ *
+ * @internal
+ */
+function topTerms(
+  weights: Array<Map<string, number>>,
+  include: (term: string) => boolean,
+  limit = 3
+): string[] {
+  const totals = new Map<string, number>();
+  for (const weighted of weights) {
+    for (const [term, weight] of weighted) {
+      if (include(term)) totals.set(term, (totals.get(term) ?? 0) + weight);
+    }
+  }
+  const selected: string[] = [];
+  for (const [term] of [...totals.entries()].sort((a, b) => b[1] - a[1])) {
+    if (selected.length === limit) break;
+    // Skip words of phrases already selected, and phrases made of selected words
+    const words = term.split(" ");
+    if (selected.some((other) => other.split(" ").some((word) => words.includes(word)))) continue;
+    selected.push(term);
+  }
+  return selected;
+}
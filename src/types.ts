@@ -1,5 +1,113 @@
-import { SafeSearchType } from "duck-duck-scrape";
+import {
+  ImageColor,
+  ImageLayout,
+  ImageLicense,
+  ImageSize,
+  ImageType,
+  SafeSearchType,
+  type SearchTimeType,
+  VideoDefinition,
+  VideoDuration,
+  VideoLicense,
+} from "duck-duck-scrape";
 import { z } from "zod";
+import { type ContentType, ContentTypeSchema } from "./classify.js";
+import { RegionSchema, searchDefaults } from "./config.js";
+
+/**
+ * Options of a web search. Cross-field checks are added by {@link validateSearchOptions}.
+ *
+ * @internal
+ */
+const SearchOptionsObjectSchema = z.object({
+  region: RegionSchema.optional().describe(
+    "DuckDuckGo region code such as us-en; defaults to the server's configured region unless autoRegion is set"
+  ),
+  autoRegion: z
+    .boolean()
+    .optional()
+    .describe("When no region is given, search the region matching the query's language"),
+  safeSearch: z
+    .nativeEnum(SafeSearchType)
+    .default(searchDefaults.safeSearch)
+    .describe("Safe search level"),
+  numResults: z
+    .number()
+    .int()
+    .min(1)
+    .default(searchDefaults.numResults)
+    .describe("Number of results to return"),
+  timeRange: z
+    .enum(["day", "week", "month", "year", "custom"])
+    .optional()
+    .describe("Restrict results by age; 'custom' requires dateFrom and dateTo"),
+  dateFrom: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .optional()
+    .describe("Start date (YYYY-MM-DD) for a custom time range"),
+  dateTo: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD")
+    .optional()
+    .describe("End date (YYYY-MM-DD) for a custom time range"),
+  site: z
+    .string()
+    .regex(/^[a-z0-9.-]+$/i, "Expected a bare domain such as example.com")
+    .optional()
+    .describe("Only return results from this domain"),
+  excludeSites: z
+    .array(z.string().regex(/^[a-z0-9.-]+$/i, "Expected a bare domain such as example.com"))
+    .optional()
+    .describe("Exclude results from these domains"),
+  filetype: z
+    .string()
+    .regex(/^[a-z0-9]+$/i, "Expected a file extension such as pdf")
+    .optional()
+    .describe("Only return documents of this file type"),
+  exactPhrase: z.string().optional().describe("Phrase that must appear verbatim in results"),
+  contentTypes: z
+    .array(ContentTypeSchema)
+    .min(1)
+    .optional()
+    .describe("Only return results classified as one of these content types"),
+  includeInstantAnswer: z
+    .boolean()
+    .optional()
+    .describe("Include DuckDuckGo's instant answer (abstract, infobox); defaults to true"),
+});
+
+/**
+ * Checks that custom time range dates are given together and in order.
+ *
+ * @internal
+ */
+function validateSearchOptions(
+  options: Partial<z.infer<typeof SearchOptionsObjectSchema>>,
+  ctx: z.RefinementCtx
+): void {
+  if (options.timeRange === "custom" && (!options.dateFrom || !options.dateTo)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "timeRange 'custom' requires both dateFrom and dateTo",
+      path: ["timeRange"],
+    });
+  }
+  if (options.timeRange !== "custom" && (options.dateFrom || options.dateTo)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "dateFrom and dateTo are only used with timeRange 'custom'",
+      path: [options.dateFrom ? "dateFrom" : "dateTo"],
+    });
+  }
+  if (options.dateFrom && options.dateTo && options.dateFrom > options.dateTo) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "dateFrom must not be after dateTo",
+      path: ["dateFrom"],
+    });
+  }
+}
 
 /**
  * Schema for search tool arguments
@@ -10,23 +118,22 @@ import { z } from "zod";
  *   options: {
  *     region: "us-en",
  *     safeSearch: "MODERATE",
- *     numResults: 10
+ *     numResults: 10,
+ *     timeRange: "month",
+ *     site: "typescriptlang.org",
+ *     filetype: "pdf"
  *   }
  * };
  * ```
  */
 export const SearchArgsSchema = z.object({
   query: z.string().describe("Search query"),
-  options: z
-    .object({
-      region: z.string().default("zh-cn").describe("Search region"),
-      safeSearch: z
-        .nativeEnum(SafeSearchType)
-        .default(SafeSearchType.MODERATE)
-        .describe("Safe search level"),
-      numResults: z.number().default(50).describe("Number of results to return"),
-    })
-    .optional(),
+  options: SearchOptionsObjectSchema.superRefine(validateSearchOptions).optional(),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from a previous response's metadata.nextCursor"),
+  bypassCache: z.boolean().optional().describe("Skip the cached response and fetch fresh results"),
 });
 
 /**
@@ -34,19 +141,240 @@ export const SearchArgsSchema = z.object({
  */
 export type SearchArgs = z.infer<typeof SearchArgsSchema>;
 
+/**
+ * Search options in a batch. Unlike {@link SearchArgsSchema}, no defaults are filled in,
+ * so per-query options only override the shared options they actually set.
+ *
+ * @internal
+ */
+const BatchSearchOptionsSchema = SearchOptionsObjectSchema.partial();
+
+/**
+ * Schema for batch search tool arguments
+ * @example
+ * ```typescript
+ * const batchArgs = {
+ *   queries: [
+ *     "rust async runtime",
+ *     { query: "tokio vs async-std", options: { timeRange: "year" } }
+ *   ],
+ *   options: { region: "us-en", numResults: 10 }
+ * };
+ * ```
+ */
+export const BatchSearchArgsSchema = z.object({
+  queries: z
+    .array(
+      z.union([
+        z.string().min(1),
+        z.object({
+          query: z.string().min(1).describe("Search query"),
+          options: BatchSearchOptionsSchema.optional().describe(
+            "Options for this query, overriding the shared options"
+          ),
+        }),
+      ])
+    )
+    .min(1)
+    .max(10)
+    .describe("Queries to run, as strings or objects with per-query options"),
+  options: BatchSearchOptionsSchema.optional().describe("Options shared by all queries"),
+  concurrency: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("Maximum number of queries run at the same time (default: 3)"),
+  bypassCache: z.boolean().optional().describe("Skip cached responses and fetch fresh results"),
+});
+
+/**
+ * Type definition for batch search tool arguments derived from schema
+ */
+export type BatchSearchArgs = z.infer<typeof BatchSearchArgsSchema>;
+
+/**
+ * Options shared by the news, image and video search tools
+ */
+const VerticalSearchOptionsSchema = z.object({
+  region: RegionSchema.default(searchDefaults.region).describe(
+    "DuckDuckGo region code such as us-en"
+  ),
+  safeSearch: z
+    .nativeEnum(SafeSearchType)
+    .default(searchDefaults.safeSearch)
+    .describe("Safe search level"),
+  numResults: z
+    .number()
+    .int()
+    .min(1)
+    .default(searchDefaults.verticalNumResults)
+    .describe("Number of results to return"),
+});
+
+/**
+ * Schema for news search tool arguments
+ * @example
+ * ```typescript
+ * const newsArgs = {
+ *   query: "typescript release",
+ *   options: { region: "us-en", numResults: 10 }
+ * };
+ * ```
+ */
+export const NewsSearchArgsSchema = z.object({
+  query: z.string().describe("Search query"),
+  options: VerticalSearchOptionsSchema.optional(),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from a previous response's metadata.nextCursor"),
+});
+
+/**
+ * Type definition for news search tool arguments derived from schema
+ */
+export type NewsSearchArgs = z.infer<typeof NewsSearchArgsSchema>;
+
+/**
+ * Schema for image search tool arguments
+ * @example
+ * ```typescript
+ * const imageArgs = {
+ *   query: "typescript logo",
+ *   options: { size: "Large", layout: "Wide" }
+ * };
+ * ```
+ */
+export const ImageSearchArgsSchema = z.object({
+  query: z.string().describe("Search query"),
+  options: VerticalSearchOptionsSchema.extend({
+    size: z.nativeEnum(ImageSize).optional().describe("Image size filter"),
+    type: z.nativeEnum(ImageType).optional().describe("Image type filter"),
+    layout: z.nativeEnum(ImageLayout).optional().describe("Image layout filter"),
+    color: z.nativeEnum(ImageColor).optional().describe("Image color filter"),
+    license: z.nativeEnum(ImageLicense).optional().describe("Image license filter"),
+  }).optional(),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from a previous response's metadata.nextCursor"),
+});
+
+/**
+ * Type definition for image search tool arguments derived from schema
+ */
+export type ImageSearchArgs = z.infer<typeof ImageSearchArgsSchema>;
+
+/**
+ * Schema for video search tool arguments
+ * @example
+ * ```typescript
+ * const videoArgs = {
+ *   query: "typescript tutorial",
+ *   options: { duration: "medium", definition: "high" }
+ * };
+ * ```
+ */
+export const VideoSearchArgsSchema = z.object({
+  query: z.string().describe("Search query"),
+  options: VerticalSearchOptionsSchema.extend({
+    duration: z.nativeEnum(VideoDuration).optional().describe("Video duration filter"),
+    definition: z.nativeEnum(VideoDefinition).optional().describe("Video definition filter"),
+    license: z.nativeEnum(VideoLicense).optional().describe("Video license filter"),
+  }).optional(),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Opaque cursor from a previous response's metadata.nextCursor"),
+});
+
+/**
+ * Type definition for video search tool arguments derived from schema
+ */
+export type VideoSearchArgs = z.infer<typeof VideoSearchArgsSchema>;
+
+/**
+ * Schema for the format page content is returned in
+ */
+export const ContentFormatSchema = z.enum(["markdown", "text", "html"]);
+
+/**
+ * Format page content is returned in
+ */
+export type ContentFormat = z.infer<typeof ContentFormatSchema>;
+
+/**
+ * Schema for how links are written in Markdown content: inline, or as numbered
+ * references listed at the end
+ */
+export const LinkStyleSchema = z.enum(["inline", "referenced"]);
+
+/**
+ * How links are written in Markdown content
+ */
+export type LinkStyle = z.infer<typeof LinkStyleSchema>;
+
+/**
+ * Schema for browser session IDs. Calls with the same ID share one browser tab,
+ * keeping its cookies, history and scroll position between calls.
+ */
+export const SessionIdSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w-]+$/, "Session IDs may only contain letters, digits, underscores and hyphens")
+  .describe(
+    "Named browser session to use; calls with the same ID share a tab and its cookies, other calls use a pooled tab"
+  );
+
 /**
  * Schema for visit page tool arguments
  * @example
  * ```typescript
  * const visitArgs = {
  *   url: "https://example.com",
- *   takeScreenshot: true
+ *   selector: "article",
+ *   format: "text",
+ *   maxLength: 5000,
+ *   offset: 5000
  * };
  * ```
  */
 export const VisitPageArgsSchema = z.object({
   url: z.string().url().describe("URL to visit"),
   takeScreenshot: z.boolean().optional().describe("Whether to take a screenshot"),
+  bypassCache: z.boolean().optional().describe("Skip the cached content and reload the page"),
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("CSS selector of the element to extract instead of the detected main content"),
+  format: ContentFormatSchema.default("markdown").describe(
+    "Return the content as Markdown, plain text or HTML"
+  ),
+  maxLength: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Maximum number of characters to return; longer content is cut into chunks"),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .describe("Character offset to start from, e.g. the nextOffset of a truncated response"),
+  includeLinks: z
+    .boolean()
+    .default(true)
+    .describe("Keep hyperlinks; when false only the link text is kept"),
+  includeImages: z.boolean().default(true).describe("Keep images"),
+  linkStyle: LinkStyleSchema.optional().describe(
+    "Write Markdown links inline (default) or as numbered references listed at the end, which saves tokens on link-heavy pages"
+  ),
+  sessionId: SessionIdSchema.optional(),
 });
 
 /**
@@ -55,19 +383,783 @@ export const VisitPageArgsSchema = z.object({
 export type VisitPageArgs = z.infer<typeof VisitPageArgsSchema>;
 
 /**
- * Represents the result of researching a web page, including its content and optional screenshot
+ * Schema for read chunk tool arguments. Extraction options must match those of the
+ * `visit_page` call whose table of contents the chunk ID came from.
+ * @example
+ * ```typescript
+ * const readArgs = {
+ *   url: "https://example.com/docs",
+ *   chunkId: "installation/linux"
+ * };
+ * ```
+ */
+export const ReadChunkArgsSchema = VisitPageArgsSchema.pick({
+  url: true,
+  selector: true,
+  includeLinks: true,
+  includeImages: true,
+  linkStyle: true,
+  bypassCache: true,
+  sessionId: true,
+}).extend({
+  chunkId: z
+    .string()
+    .min(1)
+    .describe("ID of the chunk to read, from the toc of visit_page or a previous read_chunk"),
+});
+
+/**
+ * Type definition for read chunk tool arguments derived from schema
+ */
+export type ReadChunkArgs = z.infer<typeof ReadChunkArgsSchema>;
+
+/**
+ * Output formats of extracted tables
+ */
+export const TableFormatSchema = z.enum(["json", "csv"]);
+
+/**
+ * Type definition for table output formats derived from schema
+ */
+export type TableFormat = z.infer<typeof TableFormatSchema>;
+
+/**
+ * Schema for extract tables tool arguments
+ * @example
+ * ```typescript
+ * const tableArgs = {
+ *   url: "https://example.com/pricing",
+ *   selector: "#plans",
+ *   format: "csv"
+ * };
+ * ```
  */
-export interface ResearchResult {
-  /** URL of the researched page */
+export const ExtractTablesArgsSchema = z.object({
+  url: z.string().url().describe("URL of the page to extract tables from"),
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("CSS selector of the tables, or of an element containing them"),
+  format: TableFormatSchema.default("json").describe(
+    "Return each table as JSON rows keyed by column name, or as CSV"
+  ),
+  sessionId: SessionIdSchema.optional(),
+});
+
+/**
+ * Type definition for extract tables tool arguments derived from schema
+ */
+export type ExtractTablesArgs = z.infer<typeof ExtractTablesArgsSchema>;
+
+/**
+ * Whether a link stays on the page's site
+ */
+export const LinkTypeSchema = z.enum(["internal", "external"]);
+
+/**
+ * Type definition for link types derived from schema
+ */
+export type LinkType = z.infer<typeof LinkTypeSchema>;
+
+/**
+ * Schema for extract links tool arguments
+ * @example
+ * ```typescript
+ * const linkArgs = {
+ *   url: "https://example.com/docs",
+ *   selector: "main",
+ *   type: "internal"
+ * };
+ * ```
+ */
+export const ExtractLinksArgsSchema = z.object({
+  url: z.string().url().describe("URL of the page to extract links from"),
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("CSS selector of the element to read links from instead of the whole page"),
+  type: LinkTypeSchema.optional().describe(
+    "Only return links to the page's own site (internal) or to other sites (external)"
+  ),
+  sessionId: SessionIdSchema.optional(),
+});
+
+/**
+ * Type definition for extract links tool arguments derived from schema
+ */
+export type ExtractLinksArgs = z.infer<typeof ExtractLinksArgsSchema>;
+
+/**
+ * Schema for screenshot image formats
+ */
+export const ImageFormatSchema = z.enum(["png", "jpeg", "webp"]);
+
+/**
+ * Screenshot image format
+ */
+export type ImageFormat = z.infer<typeof ImageFormatSchema>;
+
+/**
+ * Schema for browser viewport sizes in CSS pixels
+ */
+export const ViewportSchema = z.object({
+  width: z.number().int().min(320).max(3840).describe("Viewport width in pixels"),
+  height: z.number().int().min(240).max(2160).describe("Viewport height in pixels"),
+});
+
+/**
+ * Browser viewport size in CSS pixels
+ */
+export type Viewport = z.infer<typeof ViewportSchema>;
+
+/**
+ * Schema for take screenshot tool arguments
+ * @example
+ * ```typescript
+ * const screenshotArgs = {
+ *   url: "https://example.com/pricing",
+ *   selector: "#plans",
+ *   format: "jpeg",
+ *   quality: 70
+ * };
+ * ```
+ */
+export const TakeScreenshotArgsSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .optional()
+    .describe(
+      "URL to load before capturing; defaults to the page loaded last, or the session's page"
+    ),
+  fullPage: z
+    .boolean()
+    .default(false)
+    .describe("Capture the whole scrollable page instead of the viewport"),
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("CSS selector of an element to capture instead of the page"),
+  viewport: ViewportSchema.optional().describe("Viewport size (default: 1600x900)"),
+  format: ImageFormatSchema.default("png").describe("Image format"),
+  quality: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe(
+      "Quality of jpeg and webp images, lowered when needed to fit the size limit (default: 80)"
+    ),
+  tiled: z
+    .boolean()
+    .optional()
+    .describe(
+      "Scroll through the page capturing one viewport-sized image per segment, waiting for lazy-loaded images and hiding sticky headers after the first; at most 16 segments are taken, and `truncated` is set when they don't reach the end of the page"
+    ),
+  sessionId: SessionIdSchema.optional(),
+});
+
+/**
+ * Type definition for take screenshot tool arguments derived from schema
+ */
+export type TakeScreenshotArgs = z.infer<typeof TakeScreenshotArgsSchema>;
+
+/**
+ * Schema for list sessions tool arguments; the tool takes none
+ */
+export const ListSessionsArgsSchema = z.object({});
+
+/**
+ * Schema for close session tool arguments
+ * @example
+ * ```typescript
+ * const closeArgs = { sessionId: "docs" };
+ * ```
+ */
+export const CloseSessionArgsSchema = z.object({
+  sessionId: SessionIdSchema.describe("ID of the session to close"),
+});
+
+/**
+ * Type definition for close session tool arguments derived from schema
+ */
+export type CloseSessionArgs = z.infer<typeof CloseSessionArgsSchema>;
+
+/**
+ * An open browser session
+ */
+export interface SessionInfo {
+  /** ID the session was opened with */
+  sessionId: string;
+  /** URL of the session's page */
   url: string;
+  /** Title of the session's page */
+  title: string;
+  /** Whether a call is using the session right now */
+  busy: boolean;
+  /** ISO timestamp of when the session was opened */
+  createdAt: string;
+  /** ISO timestamp of when a call last finished using the session */
+  lastUsedAt: string;
+}
+
+/**
+ * Result of list_sessions
+ */
+export interface SessionListResult {
+  /** Open sessions, most recently used first */
+  sessions: SessionInfo[];
+  /** Largest number of sessions that may be open at once */
+  maxSessions: number;
+}
+
+/**
+ * An element to interact with, found by CSS selector, visible text or snapshot ref
+ */
+export interface ElementTarget {
+  /** CSS selector; the first matching element is used */
+  selector?: string;
+  /** Visible text, or for form fields their label or placeholder */
+  text?: string;
+  /** Ref of the element in a page_snapshot of the page, such as `e12` */
+  ref?: string;
+}
+
+/**
+ * Fields locating the element an interactive tool acts on, plus the session to act in
+ *
+ * @internal
+ */
+const elementTargetFields = {
+  selector: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("CSS selector of the element; the first match is used"),
+  text: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Visible text of the element, matched case-insensitively, instead of a selector"),
+  ref: z
+    .string()
+    .regex(/^e\d+$/, "Refs look like e12")
+    .optional()
+    .describe("Ref of the element from page_snapshot, such as e12, instead of a selector"),
+  sessionId: SessionIdSchema.optional().describe(
+    "Session whose page to act on; defaults to the page loaded last without a session"
+  ),
+};
+
+/**
+ * Requires exactly one of `selector`, `text` and `ref`, or at most one when `optional`
+ * is set.
+ *
+ * @internal
+ */
+function targetRefinement(optional: boolean) {
+  return (args: ElementTarget) => {
+    const count = [args.selector, args.text, args.ref].filter(Boolean).length;
+    return optional ? count <= 1 : count === 1;
+  };
+}
+
+/**
+ * Schema for click tool arguments
+ * @example
+ * ```typescript
+ * const clickArgs = { text: "Accept all" };
+ * ```
+ */
+export const ClickArgsSchema = z
+  .object(elementTargetFields)
+  .refine(targetRefinement(false), "Pass one of selector, text or ref");
+
+/**
+ * Type definition for click tool arguments derived from schema
+ */
+export type ClickArgs = z.infer<typeof ClickArgsSchema>;
+
+/**
+ * Schema for type text tool arguments. A `text` target matches the field's label
+ * or placeholder.
+ * @example
+ * ```typescript
+ * const typeArgs = { selector: "input[name=q]", value: "playwright", submit: true };
+ * ```
+ */
+export const TypeTextArgsSchema = z
+  .object({
+    ...elementTargetFields,
+    text: elementTargetFields.text.describe(
+      "Label or placeholder of the field, matched case-insensitively, instead of a selector"
+    ),
+    value: z.string().describe("Text to type"),
+    clear: z
+      .boolean()
+      .default(true)
+      .describe("Replace the field's value; when false the text is typed after it"),
+    submit: z.boolean().default(false).describe("Press Enter after typing"),
+  })
+  .refine(targetRefinement(false), "Pass one of selector, text or ref");
+
+/**
+ * Type definition for type text tool arguments derived from schema
+ */
+export type TypeTextArgs = z.infer<typeof TypeTextArgsSchema>;
+
+/**
+ * Schema for press key tool arguments
+ * @example
+ * ```typescript
+ * const keyArgs = { key: "Escape" };
+ * ```
+ */
+export const PressKeyArgsSchema = z
+  .object({
+    ...elementTargetFields,
+    selector: elementTargetFields.selector.describe(
+      "CSS selector of the element to focus first; defaults to the focused element"
+    ),
+    text: elementTargetFields.text.describe("Visible text of the element to focus first"),
+    ref: elementTargetFields.ref.describe("Ref from page_snapshot of the element to focus first"),
+    key: z
+      .string()
+      .min(1)
+      .describe("Key or combination to press, e.g. Enter, Escape, ArrowDown or Control+A"),
+  })
+  .refine(targetRefinement(true), "Pass at most one of selector, text or ref");
+
+/**
+ * Type definition for press key tool arguments derived from schema
+ */
+export type PressKeyArgs = z.infer<typeof PressKeyArgsSchema>;
+
+/**
+ * Directions the scroll tool moves in
+ */
+export const ScrollDirectionSchema = z.enum(["down", "up", "top", "bottom"]);
+
+/**
+ * Type definition for scroll directions derived from schema
+ */
+export type ScrollDirection = z.infer<typeof ScrollDirectionSchema>;
+
+/**
+ * Schema for scroll tool arguments. With a target, it is scrolled into view instead.
+ * @example
+ * ```typescript
+ * const scrollArgs = { direction: "down", amount: 2000 };
+ * ```
+ */
+export const ScrollArgsSchema = z
+  .object({
+    ...elementTargetFields,
+    selector: elementTargetFields.selector.describe(
+      "CSS selector of an element to scroll into view instead of scrolling by an amount"
+    ),
+    text: elementTargetFields.text.describe("Visible text of an element to scroll into view"),
+    ref: elementTargetFields.ref.describe(
+      "Ref from page_snapshot of an element to scroll into view"
+    ),
+    direction: ScrollDirectionSchema.default("down").describe(
+      "Scroll down or up by `amount`, or to the top or bottom of the page"
+    ),
+    amount: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("Pixels to scroll up or down (default: one viewport height)"),
+  })
+  .refine(targetRefinement(true), "Pass at most one of selector, text or ref");
+
+/**
+ * Type definition for scroll tool arguments derived from schema
+ */
+export type ScrollArgs = z.infer<typeof ScrollArgsSchema>;
+
+/**
+ * Schema for select option tool arguments. A `text` target matches the select's label.
+ * @example
+ * ```typescript
+ * const selectArgs = { text: "Country", values: ["Germany"] };
+ * ```
+ */
+export const SelectOptionArgsSchema = z
+  .object({
+    ...elementTargetFields,
+    text: elementTargetFields.text.describe(
+      "Label of the select element, matched case-insensitively, instead of a selector"
+    ),
+    values: z
+      .array(z.string())
+      .min(1)
+      .describe("Values or labels of the options to select; several for a multiple select"),
+  })
+  .refine(targetRefinement(false), "Pass one of selector, text or ref");
+
+/**
+ * Type definition for select option tool arguments derived from schema
+ */
+export type SelectOptionArgs = z.infer<typeof SelectOptionArgsSchema>;
+
+/**
+ * States the wait for tool waits for
+ */
+export const ElementStateSchema = z.enum(["visible", "hidden", "attached", "detached"]);
+
+/**
+ * Type definition for element states derived from schema
+ */
+export type ElementState = z.infer<typeof ElementStateSchema>;
+
+/**
+ * Schema for wait for tool arguments
+ * @example
+ * ```typescript
+ * const waitArgs = { selector: ".results li", state: "visible", timeout: 10000 };
+ * ```
+ */
+export const WaitForArgsSchema = z
+  .object({
+    ...elementTargetFields,
+    state: ElementStateSchema.default("visible").describe(
+      "Wait until the element is visible, hidden, in the page (attached) or gone (detached)"
+    ),
+    timeout: z
+      .number()
+      .int()
+      .min(100)
+      .max(30000)
+      .default(10000)
+      .describe("Longest time to wait in milliseconds"),
+  })
+  .refine(targetRefinement(false), "Pass one of selector, text or ref");
+
+/**
+ * Type definition for wait for tool arguments derived from schema
+ */
+export type WaitForArgs = z.infer<typeof WaitForArgsSchema>;
+
+/**
+ * Schema for page snapshot tool arguments
+ * @example
+ * ```typescript
+ * const snapshotArgs = { interactiveOnly: true, sessionId: "shop" };
+ * ```
+ */
+export const PageSnapshotArgsSchema = z.object({
+  interactiveOnly: z
+    .boolean()
+    .default(false)
+    .describe("List only elements with a ref, such as links, buttons and form fields"),
+  sessionId: elementTargetFields.sessionId,
+});
+
+/**
+ * Type definition for page snapshot tool arguments derived from schema
+ */
+export type PageSnapshotArgs = z.infer<typeof PageSnapshotArgsSchema>;
+
+/**
+ * Result of page_snapshot, described alongside the outline
+ */
+export interface PageSnapshotResult {
+  /** URL of the page */
+  url: string;
+  /** Title of the page */
+  title: string;
+  /** Number of elements with a ref */
+  refCount: number;
+  /** ISO timestamp of the snapshot */
+  timestamp: string;
+}
+
+/**
+ * A value before and after an interaction
+ */
+export interface ValueChange<T> {
+  from: T;
+  to: T;
+}
+
+/**
+ * What an interaction changed on the page
+ */
+export interface PageChanges {
+  /** URLs before and after, when the page navigated */
+  navigated?: ValueChange<string>;
+  /** Titles before and after, when the title changed */
+  title?: ValueChange<string>;
+  /** Vertical scroll offsets before and after, when the page scrolled */
+  scrolled?: ValueChange<number>;
+  /** First lines of visible text that appeared */
+  addedLines: string[];
+  /** First lines of visible text that disappeared */
+  removedLines: string[];
+  /** Number of lines that appeared */
+  addedCount: number;
+  /** Number of lines that disappeared */
+  removedCount: number;
+  /** One-line description of the changes */
+  summary: string;
+}
+
+/**
+ * Result of an interactive tool such as click or type_text
+ */
+export interface InteractionResult {
+  /** Name of the tool that acted */
+  action: string;
+  /** URL of the page afterwards */
+  url: string;
+  /** Title of the page afterwards */
+  title: string;
+  /** Values of the options selected, for select_option */
+  selected?: string[];
+  /** What changed on the page */
+  changes: PageChanges;
+  /** ISO timestamp of the interaction */
+  timestamp: string;
+}
+
+/**
+ * A region of a page in CSS pixels, measured from the top left of the document
+ */
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A screenshot image
+ */
+export interface ScreenshotImage {
+  /** Base64 encoded image data */
+  data: string;
+  /** MIME type of the image, e.g. `image/png` */
+  mimeType: string;
+  /** Region of the page the image shows, for one of several tiles of a large capture */
+  clip?: PageRegion;
+  /** Vertical scroll offset the image was captured at, for segments of a tiled capture */
+  scrollY?: number;
+  /** Height of the whole page in CSS pixels, for segments of a tiled capture */
+  pageHeight?: number;
+}
+
+/**
+ * Result of take_screenshot, described alongside the images
+ */
+export interface ScreenshotResult {
+  /** URL of the captured page */
+  url: string;
+  /** Title of the captured page */
+  title: string;
+  /** Format of the images */
+  format: ImageFormat;
+  /** Number of images; more than one when the capture was split into tiles */
+  imageCount: number;
+  /** Regions of the page the tiles show, top to bottom, absent for a single image */
+  tiles?: PageRegion[];
+  /** Scroll offsets the segments of a tiled capture were taken at, in image order */
+  scrollOffsets?: number[];
+  /** Height of the whole page in CSS pixels, for a tiled capture */
+  pageHeight?: number;
+  /** Set when a tiled capture stopped at its segment limit before the end of the page */
+  truncated?: boolean;
+}
+
+/**
+ * Entry of a page's table of contents
+ */
+export interface TocEntry {
+  /** ID of the chunk the heading starts in, for read_chunk */
+  id: string;
+  /** Heading text */
+  title: string;
+  /** Heading level, 0 for the introduction before the first heading */
+  level: number;
+  /** Length of the chunk in characters */
+  length: number;
+}
+
+/**
+ * Article metadata found in a page's markup; fields are absent when not found
+ */
+export interface ArticleMetadata {
+  /** Author or authors of the article */
+  byline?: string;
+  /** ISO timestamp of when the article was published */
+  publishedAt?: string;
+  /** Name of the site or publication */
+  siteName?: string;
+  /** Short summary of the article */
+  excerpt?: string;
+}
+
+/**
+ * A loaded page and its extracted content, as stored in the page cache
+ */
+export interface PageContent extends ArticleMetadata {
+  /** URL the page ended up at after redirects */
+  finalUrl: string;
+  /** HTTP status of the page response */
+  status: number;
   /** Page title */
   title: string;
-  /** Extracted content in Markdown format */
+  /** Extracted content in the requested format */
   content: string;
-  /** ISO timestamp of when the research was conducted */
+  /** Number of words in the page's visible text */
+  wordCount: number;
+  /** ISO timestamp of when the page was loaded */
   timestamp: string;
+}
+
+/**
+ * Represents the result of researching a web page, including its content and optional screenshot
+ */
+export interface ResearchResult extends PageContent {
+  /** URL of the researched page as requested */
+  url: string;
+  /** Format of `content` */
+  format: ContentFormat;
+  /** Character offset `content` starts at within the full extracted content */
+  offset: number;
+  /** Length of the full extracted content */
+  totalLength: number;
+  /** Offset to pass to read the next chunk, absent when `content` reaches the end */
+  nextOffset?: number;
   /** Path to saved screenshot if one was taken */
   screenshotPath?: string;
+  /** Table of contents of long Markdown content, in the first response only */
+  toc?: TocEntry[];
+  /** Whether the content was served from the page cache, absent when it is disabled */
+  cache?: CacheInfo;
+}
+
+/**
+ * A chunk of a page's Markdown content, as returned by read_chunk
+ */
+export interface ChunkResult {
+  /** URL of the page as requested */
+  url: string;
+  /** URL the page ended up at after redirects */
+  finalUrl: string;
+  /** Page title */
+  title: string;
+  /** ID of this chunk */
+  chunkId: string;
+  /** Titles of the headings leading to this chunk, outermost first */
+  path: string[];
+  /** Markdown text of the chunk */
+  content: string;
+  /** Position of the chunk, starting at 0 */
+  index: number;
+  /** Number of chunks of the page */
+  chunkCount: number;
+  /** ID of the chunk before this one, absent for the first */
+  previousChunkId?: string;
+  /** ID of the chunk after this one, absent for the last */
+  nextChunkId?: string;
+  /** ISO timestamp of when the page was loaded */
+  timestamp: string;
+  /** Whether the content was served from the page cache, absent when it is disabled */
+  cache?: CacheInfo;
+}
+
+/**
+ * A data table of a page, as returned by extract_tables
+ */
+export interface ExtractedTable {
+  /** Position of the table among the page's data tables, starting at 0 */
+  index: number;
+  /** Table caption, if any */
+  caption?: string;
+  /** Column names, from the header rows or "Column 1", "Column 2" and so on */
+  columns: string[];
+  /** Number of data rows */
+  rowCount: number;
+  /** Data rows keyed by column name, in JSON format */
+  rows?: Record<string, string>[];
+  /** Header line and data rows as CSV, in CSV format */
+  csv?: string;
+}
+
+/**
+ * Data tables of a page, as returned by extract_tables
+ */
+export interface TableExtractionResult {
+  /** URL of the page as requested */
+  url: string;
+  /** URL the page ended up at after redirects */
+  finalUrl: string;
+  /** Page title */
+  title: string;
+  /** Format of the tables */
+  format: TableFormat;
+  /** Tables in document order */
+  tables: ExtractedTable[];
+  /** ISO timestamp of when the page was loaded */
+  timestamp: string;
+}
+
+/**
+ * A unique link of a page, as returned by extract_links
+ */
+export interface ExtractedLink {
+  /** Absolute URL of the first occurrence, as written on the page */
+  url: string;
+  /** Anchor text of the first occurrence with any */
+  text: string;
+  /** Whether the link stays on the page's site */
+  type: LinkType;
+  /** Values of the `rel` attributes, e.g. `nofollow` */
+  rel?: string[];
+  /** Heading of the section the link first appears under */
+  section?: string;
+  /** Number of times the page links to this URL */
+  count: number;
+}
+
+/**
+ * A heading in a page's outline
+ */
+export interface OutlineEntry {
+  /** Heading level, 1 to 6 */
+  level: number;
+  /** Heading text */
+  text: string;
+  /** URL of the heading's anchor, when it has an ID */
+  anchor?: string;
+}
+
+/**
+ * Links and heading outline of a page, as returned by extract_links
+ */
+export interface LinkExtractionResult {
+  /** URL of the page as requested */
+  url: string;
+  /** URL the page ended up at after redirects, which links are resolved against */
+  finalUrl: string;
+  /** Page title */
+  title: string;
+  /** Number of unique internal links, before filtering by type */
+  internalCount: number;
+  /** Number of unique external links, before filtering by type */
+  externalCount: number;
+  /** Unique links in order of first appearance */
+  links: ExtractedLink[];
+  /** Headings in document order */
+  outline: OutlineEntry[];
+  /** ISO timestamp of when the page was loaded */
+  timestamp: string;
 }
 
 /**
@@ -82,11 +1174,89 @@ export interface SearchResult {
   description: string;
   /** Additional metadata about the result */
   metadata: {
-    /** Type of content (documentation, social media, article) */
-    type: "documentation" | "social" | "article";
+    /** Kind of content, from the domain/URL-pattern classification table */
+    type: ContentType;
     /** Source domain of the result */
     source: string;
   };
+  /** Label of the topic cluster this result belongs to, see `queryAnalysis.clusters` */
+  cluster: string;
+}
+
+/**
+ * A group of search results sharing a keyword
+ */
+export interface TopicCluster {
+  /** Keyword or phrase shared by the results, or "other" for results sharing none */
+  label: string;
+  /** Other salient keywords of the results in this cluster */
+  keywords: string[];
+  /** Number of results in this cluster */
+  resultCount: number;
+}
+
+/**
+ * Filters applied to a web search, echoed back so the search can be reproduced
+ */
+export interface SearchFilters {
+  /** Age restriction on results */
+  timeRange?: "day" | "week" | "month" | "year" | "custom";
+  /** Start date (YYYY-MM-DD) of a custom time range */
+  dateFrom?: string;
+  /** End date (YYYY-MM-DD) of a custom time range */
+  dateTo?: string;
+  /** Domain results were restricted to */
+  site?: string;
+  /** Domains excluded from results */
+  excludeSites?: string[];
+  /** File type results were restricted to */
+  filetype?: string;
+  /** Phrase required verbatim in results */
+  exactPhrase?: string;
+  /** Content types results were restricted to, applied after fetching */
+  contentTypes?: ContentType[];
+}
+
+/**
+ * Zero-click information DuckDuckGo shows above the results, such as an encyclopedia
+ * abstract, a direct answer, a definition or an infobox
+ */
+export interface InstantAnswer {
+  /** Heading of the answer, usually the entity name */
+  heading: string;
+  /** Abstract text summarizing the topic */
+  abstract?: string;
+  /** Name of the abstract's source (e.g. "Wikipedia") */
+  source?: string;
+  /** URL of the abstract's source page */
+  sourceUrl?: string;
+  /** Direct answer to the query (e.g. a calculation or conversion) */
+  answer?: string;
+  /** Dictionary definition of the query */
+  definition?: {
+    /** Definition text */
+    text: string;
+    /** Name of the dictionary */
+    source: string;
+    /** URL of the definition */
+    url: string;
+  };
+  /** Image URL associated with the topic */
+  image?: string;
+  /** Structured facts from the infobox */
+  infobox: Array<{
+    /** Field name (e.g. "Developer") */
+    label: string;
+    /** Field value */
+    value: string;
+  }>;
+  /** Topics related to the query */
+  relatedTopics: Array<{
+    /** Topic description */
+    text: string;
+    /** URL of the topic */
+    url: string;
+  }>;
 }
 
 /**
@@ -97,6 +1267,8 @@ export interface SearchResponse {
   type: "search_results";
   /** Array of search results */
   data: SearchResult[];
+  /** Zero-click instant answer for the query, when DuckDuckGo has one */
+  instantAnswer?: InstantAnswer;
   /** Metadata about the search operation */
   metadata: {
     /** Original search query */
@@ -105,6 +1277,12 @@ export interface SearchResponse {
     timestamp: string;
     /** Number of results found */
     resultCount: number;
+    /** Number of duplicate results (URL variants and near-identical copies) merged away */
+    duplicatesMerged: number;
+    /** Opaque cursor for fetching the next page of results, absent when exhausted */
+    nextCursor?: string;
+    /** Whether the response was served from the on-disk cache */
+    cache?: CacheInfo;
     /** Context in which the search was performed */
     searchContext: {
       /** Region setting used for search */
@@ -113,17 +1291,219 @@ export interface SearchResponse {
       safeSearch: SafeSearchType;
       /** Number of results requested */
       numResults?: number;
+      /** Filters applied to the search, present only when at least one was requested */
+      filters?: SearchFilters;
+      /** Query actually sent to DuckDuckGo after applying filter operators */
+      effectiveQuery?: string;
+      /** True when the region was picked from the query's detected language */
+      regionAutoDetected?: boolean;
     };
     /** Analysis of the query and results */
     queryAnalysis: {
-      /** Detected language of the query */
+      /** Detected language of the query (ISO 639-1 code, "und" if undetermined) */
       language: string;
-      /** Topics detected in the results */
+      /** Confidence of the language detection, between 0 and 1 */
+      languageConfidence: number;
+      /** Salient keywords and phrases across the results, best first */
       topics: string[];
+      /** Results grouped by shared keyword, largest group first */
+      clusters: TopicCluster[];
+    };
+  };
+}
+
+/**
+ * A result in the merged union of a batch search, ranked by reciprocal rank fusion
+ */
+export interface FusedSearchResult extends Omit<SearchResult, "cluster"> {
+  /** Reciprocal rank fusion score: the sum of 1 / (k + rank) over the queries returning it */
+  score: number;
+  /** Queries that returned this result, in batch order */
+  queries: string[];
+}
+
+/**
+ * Outcome of a single query in a batch search
+ */
+export interface BatchQueryResult {
+  /** Search query */
+  query: string;
+  /** Search response, absent if the query failed */
+  response?: SearchResponse;
+  /** Why the query failed, absent if it succeeded */
+  error?: {
+    /** JSON-RPC error code, if the failure carried one */
+    code?: number;
+    /** Error message */
+    message: string;
+  };
+}
+
+/**
+ * Response format for batch searches
+ */
+export interface BatchSearchResponse {
+  /** Type identifier for batch search results */
+  type: "batch_search_results";
+  /** Per-query results, in batch order */
+  queries: BatchQueryResult[];
+  /** De-duplicated union of all results, best first */
+  merged: FusedSearchResult[];
+  /** Metadata about the batch */
+  metadata: {
+    /** ISO timestamp of when the batch was run */
+    timestamp: string;
+    /** Number of queries in the batch */
+    queryCount: number;
+    /** Number of queries that failed */
+    failedCount: number;
+    /** Number of results in the merged union */
+    resultCount: number;
+    /** Number of results merged into others when building the union */
+    duplicatesMerged: number;
+    /** Rank fusion method and its constant */
+    fusion: {
+      method: "reciprocal_rank_fusion";
+      k: number;
     };
   };
 }
 
+/**
+ * Represents a single news article search result
+ */
+export interface NewsSearchResult {
+  /** Headline of the article */
+  title: string;
+  /** URL of the article */
+  url: string;
+  /** Excerpt from the article */
+  excerpt: string;
+  /** Publication or syndicate the article was indexed from */
+  source: string;
+  /** ISO timestamp of when the article was published */
+  publishedAt: string;
+  /** Human readable age of the article (e.g. "2 hours ago") */
+  relativeTime: string;
+  /** Thumbnail image URL, if the article has one */
+  thumbnail?: string;
+}
+
+/**
+ * Represents a single image search result
+ */
+export interface ImageSearchResult {
+  /** Title or caption of the image */
+  title: string;
+  /** URL of the page the image appears on */
+  url: string;
+  /** Direct URL of the full-size image */
+  imageUrl: string;
+  /** Thumbnail image URL */
+  thumbnail: string;
+  /** Source that indexed the image */
+  source: string;
+  /** Width of the image in pixels */
+  width: number;
+  /** Height of the image in pixels */
+  height: number;
+}
+
+/**
+ * Represents a single video search result
+ */
+export interface VideoSearchResult {
+  /** Title of the video */
+  title: string;
+  /** URL of the video */
+  url: string;
+  /** Description of the video */
+  description: string;
+  /** Thumbnail image URL */
+  thumbnail: string;
+  /** Duration of the video (e.g. "9:20") */
+  duration: string;
+  /** ISO timestamp of when the video was published */
+  publishedAt: string;
+  /** Platform the video is hosted on (e.g. "YouTube") */
+  platform: string;
+  /** Name of the uploader */
+  publisher: string;
+  /** View count, if known */
+  viewCount?: number;
+}
+
+/**
+ * Metadata shared by news, image and video search responses
+ */
+export interface VerticalSearchMetadata {
+  /** Original search query */
+  query: string;
+  /** ISO timestamp of when the search was conducted */
+  timestamp: string;
+  /** Number of results found */
+  resultCount: number;
+  /** Opaque cursor for fetching the next page of results, absent when exhausted */
+  nextCursor?: string;
+  /** Context in which the search was performed */
+  searchContext: {
+    /** Region setting used for search */
+    region: string;
+    /** Safe search level applied */
+    safeSearch: SafeSearchType;
+    /** Number of results requested */
+    numResults: number;
+  };
+}
+
+/**
+ * Response from a news search operation
+ */
+export interface NewsSearchResponse {
+  /** Discriminator for response type */
+  type: "news_results";
+  /** Array of news results */
+  data: NewsSearchResult[];
+  /** Metadata about the search operation */
+  metadata: VerticalSearchMetadata;
+}
+
+/**
+ * Response from an image search operation
+ */
+export interface ImageSearchResponse {
+  /** Discriminator for response type */
+  type: "image_results";
+  /** Array of image results */
+  data: ImageSearchResult[];
+  /** Metadata about the search operation */
+  metadata: VerticalSearchMetadata;
+}
+
+/**
+ * Response from a video search operation
+ */
+export interface VideoSearchResponse {
+  /** Discriminator for response type */
+  type: "video_results";
+  /** Array of video results */
+  data: VideoSearchResult[];
+  /** Metadata about the search operation */
+  metadata: VerticalSearchMetadata;
+}
+
+/**
+ * Cache status reported alongside responses that may be served from the cache
+ */
+export interface CacheInfo {
+  /** Whether the response was served from the cache */
+  hit: boolean;
+  /** ISO timestamp of when the cached value was stored */
+  storedAt: string;
+  /** ISO timestamp of when the cached value expires */
+  expiresAt: string;
+}
+
 /**
  * Standard error response format
  */
@@ -148,4 +1528,10 @@ export interface SearchOptions {
   safeSearch?: SafeSearchType;
   /** Number of results to return */
   numResults?: number;
+  /** Offset into the result set to start from */
+  offset?: number;
+  /** DuckDuckGo query key from a previous request for the same query */
+  vqd?: string;
+  /** Time range as a SearchTimeType or a "YYYY-MM-DD..YYYY-MM-DD" date range */
+  time?: SearchTimeType | string;
 }
@@ -27,6 +27,32 @@ export const MAX_SCREENSHOT_SIZE = 5 * 1024 * 1024;
  */
 export const SCREENSHOTS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-screenshots-"));
 
+/**
+ * Reads a non-negative number from an environment variable, falling back to a
+ * default when the variable is unset or invalid.
+ *
+ * @param name - Environment variable name
+ * @param defaultValue - Value to use when the variable is unset or invalid
+ * @returns The configured number
+ *
+ * @example
+ * ```typescript
+ * const ttlSeconds = readEnvNumber("MCP_SEARCH_CACHE_TTL", 3600);
+ * ```
+ */
+export function readEnvNumber(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (Number.isFinite(value) && value >= 0) {
+    return value;
+  }
+  console.error(`Ignoring invalid ${name}="${raw}", using ${defaultValue}`);
+  return defaultValue;
+}
+
 /**
  * Validates a URL string for security and format.
  * Ensures the URL uses either http or https protocol.
@@ -50,13 +76,242 @@ export function isValidUrl(urlString: string): boolean {
   }
 }
 
+/**
+ * Query parameters that only track where a visitor came from and never change the
+ * page content. Parameters starting with `utm_` are removed as well.
+ * @constant
+ */
+export const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "ref_src",
+  "ref_url",
+  "spm",
+]);
+
+/**
+ * Maps an AMP URL to the regular page it mirrors: Google AMP viewer and AMP cache
+ * URLs, `amp.` subdomains, `/amp` path segments, `.amp` file suffixes and `amp`
+ * query parameters. The mapped URL may not exist, so it is only fit for comparing
+ * URLs. An `amp.` label is kept when it is part of the registrable domain, as in
+ * `amp.dev`.
+ *
+ * @internal
+ */
+function resolveAmpUrl(url: URL): URL {
+  // Viewer and cache URLs embed the original URL in the path, with "s/" marking https
+  const embedded = /^(www\.)?google\.[a-z.]+$/.test(url.hostname)
+    ? /^\/amp\/(s\/)?(.+)$/.exec(url.pathname)
+    : url.hostname.endsWith(".cdn.ampproject.org")
+      ? /^\/[cvi]\/(s\/)?(.+)$/.exec(url.pathname)
+      : null;
+  if (embedded) {
+    try {
+      return resolveAmpUrl(
+        new URL(`${embedded[1] ? "https" : "http"}://${embedded[2]}${url.search}`)
+      );
+    } catch {
+      return url;
+    }
+  }
+
+  url.searchParams.delete("amp");
+  if (url.searchParams.get("outputType") === "amp") {
+    url.searchParams.delete("outputType");
+  }
+  url.hostname = stripHostPrefix(url.hostname, /^amp\./);
+  url.pathname = url.pathname
+    .replace(/^\/amp(?=\/)/, "")
+    .replace(/\/amp\/?$/, "/")
+    .replace(/\.amp(\.html?)?$/, "$1");
+  return url;
+}
+
+/**
+ * Removes a prefix from a hostname, unless that would leave fewer than two labels,
+ * as for `amp.dev` or `m.com`.
+ *
+ * @param hostname - The hostname to strip
+ * @param prefix - Pattern of the prefix, anchored at the start
+ * @returns The hostname without the prefix, or unchanged if it is the registrable domain
+ *
+ * @example
+ * ```typescript
+ * stripHostPrefix("www.example.com", /^(www|m|mobile)\./); // => "example.com"
+ * stripHostPrefix("m.com", /^(www|m|mobile)\./); // => "m.com"
+ * ```
+ */
+export function stripHostPrefix(hostname: string, prefix: RegExp): string {
+  const stripped = hostname.replace(prefix, "");
+  return stripped.includes(".") ? stripped : hostname;
+}
+
+/**
+ * Reduces a URL to a canonical form so equivalent spellings compare equal.
+ * Lower-cases the scheme and host, drops default ports, fragments, trailing slashes
+ * on non-root paths and tracking parameters such as `utm_*` and `fbclid`, and sorts
+ * the remaining query parameters. The result is meant as a key for comparing URLs,
+ * not as a link to hand out.
+ *
+ * @param urlString - The URL to canonicalize
+ * @returns The canonical URL, or the input unchanged if it cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * canonicalizeUrl("HTTPS://Example.com:443/docs/?b=2&a=1&utm_source=x#intro");
+ * // => "https://example.com/docs?a=1&b=2"
+ * ```
+ */
+export function canonicalizeUrl(urlString: string): string {
+  let url: URL;
+  try {
+    url = new URL(urlString);
+  } catch {
+    return urlString;
+  }
+
+  url.hash = "";
+  for (const name of [...url.searchParams.keys()]) {
+    const lowerName = name.toLowerCase();
+    if (lowerName.startsWith("utm_") || TRACKING_PARAMS.has(lowerName)) {
+      url.searchParams.delete(name);
+    }
+  }
+  url.searchParams.sort();
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+  // URL already lower-cases scheme and host and strips default ports
+  return url.toString();
+}
+
+/**
+ * Derives a key identifying the page behind a URL, for detecting duplicates.
+ * In addition to {@link canonicalizeUrl}, resolves AMP URLs to the pages they
+ * mirror and ignores the scheme and `www.`, `m.` and `mobile.` host prefixes, which
+ * usually serve the same content. AMP resolution guesses from the URL's spelling,
+ * so the key can merge distinct pages and is only meant for search results.
+ *
+ * @param urlString - The URL to derive a key for
+ * @returns Key equal for URLs that very likely show the same page
+ *
+ * @example
+ * ```typescript
+ * urlIdentityKey("http://m.example.com/a?utm_medium=social") === urlIdentityKey("https://example.com/a");
+ * // => true
+ * ```
+ */
+export function urlIdentityKey(urlString: string): string {
+  let resolved: string;
+  try {
+    resolved = resolveAmpUrl(new URL(urlString)).toString();
+  } catch {
+    resolved = urlString;
+  }
+  const key = canonicalizeUrl(resolved).replace(/^https?:\/\//, "");
+  const hostEnd = key.search(/[/?]/);
+  const host = hostEnd === -1 ? key : key.slice(0, hostEnd);
+  return stripHostPrefix(host, /^(www|m|mobile)\./) + key.slice(host.length);
+}
+
+/**
+ * Part of a longer text returned by {@link sliceContent}
+ */
+export interface ContentSlice {
+  /** Text of this part */
+  text: string;
+  /** Character offset this part starts at */
+  offset: number;
+  /** Length of the whole text */
+  totalLength: number;
+  /** Offset to continue reading from, absent when this part reaches the end */
+  nextOffset?: number;
+}
+
+/**
+ * Cuts a window of at most `maxLength` characters out of a text, starting at
+ * `offset`. A cut that would fall mid-word is moved back to the last line break or
+ * space in the second half of the window, so chunks read naturally and `nextOffset`
+ * continues exactly where the returned text ends.
+ *
+ * @param content - Text to slice
+ * @param offset - Character offset to start at
+ * @param maxLength - Maximum length of the slice, or undefined for the rest of the text
+ * @returns The slice and where to continue
+ *
+ * @example
+ * ```typescript
+ * const first = sliceContent(markdown, 0, 5000);
+ * const second = first.nextOffset && sliceContent(markdown, first.nextOffset, 5000);
+ * ```
+ */
+export function sliceContent(content: string, offset: number, maxLength?: number): ContentSlice {
+  const start = Math.min(offset, content.length);
+  let end = maxLength === undefined ? content.length : Math.min(start + maxLength, content.length);
+  if (end < content.length && /\S/.test(content[end])) {
+    const window = content.slice(start, end);
+    const boundary = Math.max(window.lastIndexOf("\n"), window.lastIndexOf(" "));
+    if (boundary >= window.length / 2) {
+      end = start + boundary + 1;
+    }
+  }
+  return {
+    text: content.slice(start, end),
+    offset: start,
+    totalLength: content.length,
+    ...(end < content.length ? { nextOffset: end } : {}),
+  };
+}
+
+/**
+ * Options controlling how {@link withRetry} spaces out and limits attempts
+ */
+export interface RetryOptions {
+  /** Factor the delay is multiplied by after each failed attempt (default: 1, fixed delay) */
+  backoffFactor?: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelay?: number;
+  /** Randomize each delay between half and all of its computed value */
+  jitter?: boolean;
+  /** Return false to stop retrying and rethrow the error immediately */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+/**
+ * Computes the delay before the next attempt of {@link withRetry}.
+ *
+ * @param attempt - Zero-based index of the attempt that just failed
+ * @param delay - Base delay in milliseconds
+ * @param options - Backoff settings
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  attempt: number,
+  delay: number,
+  options: RetryOptions = {}
+): number {
+  const { backoffFactor = 1, maxDelay = Number.POSITIVE_INFINITY, jitter = false } = options;
+  const base = Math.min(maxDelay, delay * backoffFactor ** attempt);
+  return jitter ? Math.round(base / 2 + Math.random() * (base / 2)) : base;
+}
+
 /**
  * Generic retry mechanism for handling transient failures.
- * Attempts an operation multiple times with a delay between attempts.
+ * Attempts an operation multiple times with a delay between attempts, optionally
+ * growing the delay exponentially with jitter.
  *
  * @param operation - Async operation to retry
  * @param retries - Maximum number of retry attempts (default: MAX_RETRIES)
  * @param delay - Delay between retries in milliseconds (default: RETRY_DELAY)
+ * @param options - Backoff, jitter and retry filter settings (default: fixed delay)
  * @returns Promise resolving to the operation result
  * @throws Last error encountered if all retries fail
  *
@@ -67,12 +322,16 @@ export function isValidUrl(urlString: string): boolean {
  *   3,  // retries
  *   1000 // delay in ms
  * );
+ *
+ * // Exponential backoff with jitter: ~1s, ~2s, ~4s...
+ * await withRetry(operation, 5, 1000, { backoffFactor: 2, jitter: true });
  * ```
  */
 export async function withRetry<T>(
   operation: () => Promise<T>,
   retries = MAX_RETRIES,
-  delay = RETRY_DELAY
+  delay = RETRY_DELAY,
+  options: RetryOptions = {}
 ): Promise<T> {
   let lastError: Error;
 
@@ -82,9 +341,13 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error as Error;
       console.error("withRetry caught error:", error); // Added logging
+      if (options.shouldRetry && !options.shouldRetry(lastError, i)) {
+        throw lastError;
+      }
       if (i < retries - 1) {
-        console.error(`Attempt ${i + 1} failed, retrying in ${delay}ms:`, error);
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        const wait = computeRetryDelay(i, delay, options);
+        console.error(`Attempt ${i + 1} failed, retrying in ${wait}ms:`, error);
+        await new Promise((resolve) => setTimeout(resolve, wait));
       }
     }
   }
@@ -92,6 +355,37 @@ export async function withRetry<T>(
   throw lastError!;
 }
 
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * preserving the input order in the results.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function applied to each item and its index
+ * @returns Promise resolving to the results in input order
+ *
+ * @example
+ * ```typescript
+ * const pages = await mapWithConcurrency(urls, 3, (url) => fetch(url));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 /**
  * Saves a base64 encoded screenshot to disk with size validation.
  * Creates a unique filename using the provided title and timestamp.
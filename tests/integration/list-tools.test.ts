@@ -285,11 +285,27 @@ describe("DuckDuckResearch Server - Tool Listing", () => {
     if (!('result' in response) || !response.result) {
       throw new Error('Expected result in response');
     }
-    expect(response.result.tools).toHaveLength(3);
+    expect(response.result.tools).toHaveLength(19);
     expect(response.result.tools.map(t => t.name)).toEqual([
       "search_duckduckgo",
+      "search_news",
+      "search_images",
+      "search_videos",
+      "batch_search",
       "visit_page",
+      "read_chunk",
+      "extract_tables",
+      "extract_links",
       "take_screenshot",
+      "page_snapshot",
+      "click",
+      "type_text",
+      "press_key",
+      "scroll",
+      "select_option",
+      "wait_for",
+      "list_sessions",
+      "close_session",
     ]);
   });
 });
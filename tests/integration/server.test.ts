@@ -258,7 +258,7 @@ describe("DuckDuckResearch Server", () => {
       type: string;
       text?: string;
       data?: string;
-      mediaType?: string;
+      mimeType?: string;
     }>;
   }
 
@@ -275,11 +275,27 @@ describe("DuckDuckResearch Server", () => {
       if (!('result' in response) || !response.result) {
         throw new Error('Expected result in response');
       }
-      expect(response.result.tools).toHaveLength(3);
+      expect(response.result.tools).toHaveLength(19);
       expect(response.result.tools.map((t) => t.name)).toEqual([
         "search_duckduckgo",
+        "search_news",
+        "search_images",
+        "search_videos",
+        "batch_search",
         "visit_page",
+        "read_chunk",
+        "extract_tables",
+        "extract_links",
         "take_screenshot",
+        "page_snapshot",
+        "click",
+        "type_text",
+        "press_key",
+        "scroll",
+        "select_option",
+        "wait_for",
+        "list_sessions",
+        "close_session",
       ]);
     });
   });
@@ -388,9 +404,13 @@ describe("DuckDuckResearch Server", () => {
       if (!('result' in response) || !response.result) {
         throw new Error('Expected result in response');
       }
-      expect(response.result.content[0].type).toBe("image");
-      expect(response.result.content[0].data).toBeDefined();
-      expect(response.result.content[0].mediaType).toBe("image/png");
+      expect(JSON.parse(response.result.content[0].text ?? "")).toMatchObject({
+        format: "png",
+        imageCount: 1,
+      });
+      expect(response.result.content[1].type).toBe("image");
+      expect(response.result.content[1].data).toBeDefined();
+      expect(response.result.content[1].mimeType).toBe("image/png");
     });
   });
 
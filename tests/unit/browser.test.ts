@@ -1,7 +1,12 @@
 import { type Browser, type BrowserContext, type Page, chromium } from "playwright";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { Mock } from "vitest";
-import { browserManager } from "../../src/browser.js";
+import {
+  MAX_BROWSER_PAGES,
+  MAX_BROWSER_SESSIONS,
+  MAX_SCREENSHOT_TILES,
+  browserManager,
+} from "../../src/browser.js";
 
 vi.mock("playwright", () => ({
   chromium: {
@@ -24,9 +29,15 @@ describe("browserManager", () => {
       goto: vi.fn(),
       waitForLoadState: vi.fn(),
       evaluate: vi.fn(),
+      $: vi.fn(),
+      $$eval: vi.fn(),
       setViewportSize: vi.fn(),
       screenshot: vi.fn(),
       context: vi.fn(),
+      url: vi.fn().mockReturnValue("https://example.com/"),
+      isClosed: vi.fn().mockReturnValue(false),
+      on: vi.fn(),
+      mainFrame: vi.fn().mockReturnValue("main frame"),
     } as unknown as Page;
 
     mockContext = {
@@ -79,6 +90,202 @@ describe("browserManager", () => {
     });
   });
 
+  describe("withPage", () => {
+    let pages: Page[];
+
+    beforeEach(() => {
+      // Give every context its own page so tests can tell pages apart
+      pages = [];
+      (mockBrowser.newContext as Mock).mockImplementation(async () => {
+        const context = { close: vi.fn() } as unknown as BrowserContext;
+        const page = {
+          url: vi.fn().mockReturnValue("about:blank"),
+          title: vi.fn().mockResolvedValue(""),
+          isClosed: vi.fn().mockReturnValue(false),
+          context: vi.fn().mockReturnValue(context),
+        } as unknown as Page;
+        pages.push(page);
+        return { newPage: vi.fn().mockResolvedValue(page) };
+      });
+    });
+
+    const deferred = () => {
+      let resolve!: () => void;
+      const promise = new Promise<void>((done) => {
+        resolve = done;
+      });
+      return { promise, resolve };
+    };
+
+    it("should run concurrent calls on separate pages and queue calls beyond the limit", async () => {
+      const release = deferred();
+      const used: Page[] = [];
+      const task = async (page: Page) => {
+        used.push(page);
+        await release.promise;
+      };
+
+      const calls = Array.from({ length: MAX_BROWSER_PAGES + 1 }, () =>
+        browserManager.withPage(task)
+      );
+      await vi.waitFor(() => expect(used).toHaveLength(MAX_BROWSER_PAGES));
+      expect(new Set(used).size).toBe(MAX_BROWSER_PAGES);
+
+      release.resolve();
+      await Promise.all(calls);
+      expect(used).toHaveLength(MAX_BROWSER_PAGES + 1);
+      expect(pages).toHaveLength(MAX_BROWSER_PAGES);
+      expect(launchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reuse the page used last and capture it as the current page", async () => {
+      await browserManager.withPage(async () => {});
+      const first = pages[0];
+
+      const reused = await browserManager.withPage(async (page) => page);
+      const current = await browserManager.withPage(async (page) => page, { current: true });
+
+      expect(reused).toBe(first);
+      expect(current).toBe(first);
+      expect(await browserManager.ensureBrowser()).toBe(first);
+    });
+
+    it("should load a deferred page before the current page is used", async () => {
+      const navigate = vi.spyOn(browserManager, "safePageNavigation").mockResolvedValue({
+        status: 200,
+        finalUrl: "https://example.com/cached",
+        title: "Cached",
+        wordCount: 100,
+      });
+      await browserManager.withPage(async () => {});
+
+      browserManager.deferNavigation("https://example.com/cached");
+      const current = await browserManager.withPage(async (page) => page, { current: true });
+      await browserManager.withPage(async () => {}, { current: true });
+
+      expect(current).toBe(pages[0]);
+      expect(navigate).toHaveBeenCalledTimes(1);
+      expect(navigate).toHaveBeenCalledWith(pages[0], "https://example.com/cached");
+
+      // A page loaded meanwhile becomes the current page instead
+      browserManager.deferNavigation("https://example.com/stale");
+      await browserManager.withPage(async () => {});
+      await browserManager.withPage(async () => {}, { current: true });
+      expect(navigate).toHaveBeenCalledTimes(1);
+      navigate.mockRestore();
+    });
+
+    it("should drop pages that were closed", async () => {
+      await browserManager.withPage(async (page) => {
+        (page.isClosed as Mock).mockReturnValue(true);
+      });
+
+      const page = await browserManager.withPage(async (page) => page);
+
+      expect(pages).toHaveLength(2);
+      expect(page).toBe(pages[1]);
+    });
+
+    it("should give each session its own page and run its calls one at a time", async () => {
+      const release = deferred();
+      const order: string[] = [];
+
+      const first = browserManager.withPage(
+        async (page) => {
+          order.push("first");
+          await release.promise;
+          return page;
+        },
+        { sessionId: "docs" }
+      );
+      const second = browserManager.withPage(
+        async (page) => {
+          order.push("second");
+          return page;
+        },
+        { sessionId: "docs" }
+      );
+      const other = await browserManager.withPage(async (page) => page, { sessionId: "news" });
+
+      expect(order).toEqual(["first"]);
+      release.resolve();
+      const [firstPage, secondPage] = await Promise.all([first, second]);
+
+      expect(order).toEqual(["first", "second"]);
+      expect(secondPage).toBe(firstPage);
+      expect(other).not.toBe(firstPage);
+    });
+
+    it("should refuse to open more sessions than allowed", async () => {
+      for (let i = 0; i < MAX_BROWSER_SESSIONS; i++) {
+        await browserManager.withPage(async () => {}, { sessionId: `s${i}` });
+      }
+
+      await expect(browserManager.withPage(async () => {}, { sessionId: "extra" })).rejects.toThrow(
+        "sessions are open"
+      );
+    });
+
+    it("should only list and close sessions once their page is open", async () => {
+      const opening = deferred();
+      const newContext = mockBrowser.newContext as Mock;
+      const openContext = newContext.getMockImplementation();
+      newContext.mockImplementationOnce(async () => {
+        await opening.promise;
+        return openContext?.();
+      });
+
+      const call = browserManager.withPage(async (page) => page, { sessionId: "docs" });
+      await vi.waitFor(() => expect(newContext).toHaveBeenCalled());
+      expect(await browserManager.listSessions()).toEqual([]);
+      const closed = browserManager.closeSession("docs");
+
+      opening.resolve();
+      expect(await call).toBe(pages[0]);
+      expect(await closed).toBe(true);
+      expect(pages[0].context().close).toHaveBeenCalled();
+    });
+
+    it("should not give the current page to calls while a page opens", async () => {
+      const opening = deferred();
+      const newContext = mockBrowser.newContext as Mock;
+      const openContext = newContext.getMockImplementation();
+      newContext.mockImplementationOnce(async () => {
+        await opening.promise;
+        return openContext?.();
+      });
+
+      const first = browserManager.withPage(async (page) => page);
+      await vi.waitFor(() => expect(newContext).toHaveBeenCalled());
+      const current = await browserManager.withPage(async (page) => page, { current: true });
+
+      expect(current).toBe(pages[0]);
+      opening.resolve();
+      expect(await first).toBe(pages[1]);
+    });
+
+    it("should list and close sessions", async () => {
+      await browserManager.withPage(async () => {}, { sessionId: "docs" });
+      (pages[0].url as Mock).mockReturnValue("https://example.com/docs");
+      (pages[0].title as Mock).mockResolvedValue("Docs");
+
+      expect(await browserManager.listSessions()).toEqual([
+        {
+          sessionId: "docs",
+          url: "https://example.com/docs",
+          title: "Docs",
+          busy: false,
+          createdAt: expect.any(String),
+          lastUsedAt: expect.any(String),
+        },
+      ]);
+      expect(await browserManager.closeSession("docs")).toBe(true);
+      expect(pages[0].context().close).toHaveBeenCalled();
+      expect(await browserManager.listSessions()).toEqual([]);
+      expect(await browserManager.closeSession("docs")).toBe(false);
+    });
+  });
+
   describe("safePageNavigation", () => {
     it("should navigate successfully with proper response", async () => {
       (mockPage.goto as Mock).mockResolvedValue({
@@ -93,8 +300,14 @@ describe("browserManager", () => {
         title: "Test Page",
       });
 
-      await browserManager.safePageNavigation(mockPage, "https://example.com");
+      const navigation = await browserManager.safePageNavigation(mockPage, "https://example.com");
 
+      expect(navigation).toEqual({
+        status: 200,
+        finalUrl: "https://example.com/",
+        title: "Test Page",
+        wordCount: 100,
+      });
       expect(mockContext.addCookies).toHaveBeenCalled();
       expect(mockPage.goto).toHaveBeenCalledWith(
         "https://example.com",
@@ -183,7 +396,335 @@ describe("browserManager", () => {
     });
   });
 
+  describe("extractContent", () => {
+    it("should pass the selector and toggles to the page", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue("<div><p>Content</p></div>");
+      await browserManager.extractContent(mockPage, {
+        selector: "#readme",
+        includeLinks: false,
+        includeImages: false,
+      });
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(1);
+      expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), {
+        sel: "#readme",
+        article: null,
+        text: false,
+        links: false,
+        images: false,
+      });
+    });
+
+    it("should prefer the readable article over the fallback heuristic", async () => {
+      (mockPage.evaluate as Mock)
+        .mockResolvedValueOnce("<p>Article text</p>")
+        .mockResolvedValueOnce("<div><p>Article text</p></div>");
+      const markdown = await browserManager.extractContent(mockPage);
+      expect(markdown).toBe("Article text");
+      expect(mockPage.evaluate).toHaveBeenLastCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ sel: undefined, article: "<p>Article text</p>" })
+      );
+    });
+
+    it("should fall back to the heuristic when no article is found", async () => {
+      (mockPage.evaluate as Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce("<main><p>Main text</p></main>");
+      const markdown = await browserManager.extractContent(mockPage);
+      expect(markdown).toBe("Main text");
+      expect(mockPage.evaluate).toHaveBeenLastCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ article: null })
+      );
+    });
+
+    it("should return HTML unconverted", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue("  <main><h1>Test</h1></main>\n");
+      const html = await browserManager.extractContent(mockPage, { format: "html" });
+      expect(html).toBe("<main><h1>Test</h1></main>");
+    });
+
+    it("should collapse blank lines in text output", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue("Title  \n\n\n\nFirst paragraph\n");
+      const text = await browserManager.extractContent(mockPage, { format: "text" });
+      expect(text).toBe("Title\n\nFirst paragraph");
+      expect(mockPage.evaluate).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.objectContaining({ text: true })
+      );
+    });
+
+    it("should convert data tables to GFM tables", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(
+        `<table>
+          <thead><tr><th>Plan</th><th>Price</th></tr></thead>
+          <tbody>
+            <tr><td><a href="/pro">Pro</a></td><td>$10 | month</td></tr>
+            <tr><td colspan="2">Contact us</td></tr>
+          </tbody>
+        </table>`
+      );
+      const markdown = await browserManager.extractContent(mockPage, { selector: "table" });
+      expect(markdown).toBe(
+        [
+          "| Plan | Price |",
+          "| --- | --- |",
+          "| [Pro](/pro) | $10 \\| month |",
+          "| Contact us | Contact us |",
+        ].join("\n")
+      );
+    });
+
+    it("should drop javascript links and encode URLs for Markdown", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(
+        '<p><a href="javascript:void(0)">Menu</a> <a href="https://en.wikipedia.org/wiki/Go_(game)">Go</a> <img src="https://example.com/a b.png" alt="A"></p>'
+      );
+      const markdown = await browserManager.extractContent(mockPage, { selector: "p" });
+      expect(markdown).toBe(
+        "Menu [Go](https://en.wikipedia.org/wiki/Go_%28game%29) ![A](https://example.com/a%20b.png)"
+      );
+    });
+
+    it("should convert highlighted code blocks with their language", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(
+        `<div><div class="highlight highlight-source-python"><pre><span class="k">def</span> <span class="nf">f</span>():
+    <span class="k">return</span> 1
+
+
+<span class="n">f</span>()</pre></div><pre><code data-lang="Rust">let a = 1;<br>let b = 2;</code></pre><pre class="line-numbers"><code class="language-sh"><span class="line-numbers-rows"><span></span></span>npm install</code></pre></div>`
+      );
+      const markdown = await browserManager.extractContent(mockPage, { selector: "div" });
+      expect(markdown).toBe(
+        [
+          "```python",
+          "def f():",
+          "    return 1",
+          "",
+          "",
+          "f()",
+          "```",
+          "",
+          "```rust",
+          "let a = 1;",
+          "let b = 2;",
+          "```",
+          "",
+          "```sh",
+          "npm install",
+          "```",
+        ].join("\n")
+      );
+    });
+
+    it("should keep only the content of layout tables", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(
+        '<table role="presentation"><tr><td><p>Sidebar</p></td></tr></table>'
+      );
+      const markdown = await browserManager.extractContent(mockPage, { selector: "table" });
+      expect(markdown).toBe("Sidebar");
+    });
+
+    it("should fail when the selector matches nothing", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(null);
+      await expect(
+        browserManager.extractContent(mockPage, { selector: ".missing" })
+      ).rejects.toThrow('No element matches selector ".missing"');
+    });
+  });
+
+  describe("extractMetadata", () => {
+    it("should normalize the metadata found in the page", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue({
+        byline: "By  Jane Doe",
+        publishedAt: "2024-03-05",
+        siteName: null,
+      });
+      expect(await browserManager.extractMetadata(mockPage)).toEqual({
+        byline: "Jane Doe",
+        publishedAt: "2024-03-05T00:00:00.000Z",
+      });
+    });
+
+    it("should return empty metadata when extraction fails", async () => {
+      (mockPage.evaluate as Mock).mockRejectedValue(new Error("Execution context was destroyed"));
+      expect(await browserManager.extractMetadata(mockPage)).toEqual({});
+    });
+  });
+
+  describe("extractTables", () => {
+    it("should read the tables matching the selector", async () => {
+      const tables = [{ headRowCount: 0, rows: [] }];
+      (mockPage.$ as Mock).mockResolvedValue({});
+      (mockPage.$$eval as Mock).mockResolvedValue(tables);
+      expect(await browserManager.extractTables(mockPage, "#pricing")).toBe(tables);
+      expect(mockPage.$$eval).toHaveBeenCalledWith("#pricing", expect.any(Function), undefined);
+    });
+
+    it("should fail when the selector matches nothing", async () => {
+      (mockPage.$ as Mock).mockResolvedValue(null);
+      await expect(browserManager.extractTables(mockPage, ".missing")).rejects.toThrow(
+        'Table extraction failed: No element matches selector ".missing"'
+      );
+      expect(mockPage.$$eval).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("extractLinks", () => {
+    it("should read the links of the selected element", async () => {
+      const raw = { baseUrl: "https://example.com/", links: [], headings: [] };
+      (mockPage.evaluate as Mock).mockResolvedValue(raw);
+      expect(await browserManager.extractLinks(mockPage, "main")).toBe(raw);
+      expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), "main");
+    });
+
+    it("should fail when the selector matches nothing", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(null);
+      await expect(browserManager.extractLinks(mockPage, ".missing")).rejects.toThrow(
+        'Link extraction failed: No element matches selector ".missing"'
+      );
+    });
+  });
+
+  describe("interactions", () => {
+    let locator: Record<string, Mock>;
+
+    beforeEach(() => {
+      locator = {
+        first: vi.fn(),
+        locator: vi.fn(),
+        or: vi.fn(),
+        click: vi.fn(),
+        fill: vi.fn(),
+        press: vi.fn(),
+        pressSequentially: vi.fn(),
+        selectOption: vi.fn(),
+      };
+      for (const chain of ["first", "locator", "or"]) locator[chain].mockReturnValue(locator);
+      Object.assign(mockPage, {
+        locator: vi.fn().mockReturnValue(locator),
+        getByText: vi.fn().mockReturnValue(locator),
+        getByLabel: vi.fn().mockReturnValue(locator),
+        getByPlaceholder: vi.fn().mockReturnValue(locator),
+      });
+    });
+
+    it("should click the first element matching a selector", async () => {
+      await browserManager.click(mockPage, { selector: "button.more" });
+
+      expect(mockPage.locator).toHaveBeenCalledWith("button.more");
+      expect(locator.first).toHaveBeenCalled();
+      expect(locator.click).toHaveBeenCalledWith({ timeout: 5000 });
+    });
+
+    it("should find elements by visible text", async () => {
+      await browserManager.click(mockPage, { text: "Accept all" });
+
+      expect(mockPage.getByText).toHaveBeenCalledWith("Accept all");
+      expect(locator.locator).toHaveBeenCalledWith("visible=true");
+    });
+
+    it("should find form fields by label or placeholder and submit them", async () => {
+      await browserManager.typeText(mockPage, { text: "Search" }, "playwright", {
+        submit: true,
+      });
+
+      expect(mockPage.getByLabel).toHaveBeenCalledWith("Search");
+      expect(mockPage.getByPlaceholder).toHaveBeenCalledWith("Search");
+      expect(locator.fill).toHaveBeenCalledWith("playwright", { timeout: 5000 });
+      expect(locator.press).toHaveBeenCalledWith("Enter", { timeout: 5000 });
+    });
+
+    it("should type after the current value when not clearing", async () => {
+      await browserManager.typeText(mockPage, { selector: "#q" }, " docs", { clear: false });
+
+      expect(locator.fill).not.toHaveBeenCalled();
+      expect(locator.press).toHaveBeenCalledWith("End", { timeout: 5000 });
+      expect(locator.pressSequentially).toHaveBeenCalledWith(" docs", { timeout: 5000 });
+    });
+
+    it("should return the selected values", async () => {
+      locator.selectOption.mockResolvedValue(["de"]);
+
+      expect(await browserManager.selectOption(mockPage, { text: "Country" }, ["Germany"])).toEqual(
+        ["de"]
+      );
+    });
+
+    it("should scroll the page by the given amount", async () => {
+      await browserManager.scroll(mockPage, { direction: "up", amount: 500 });
+
+      expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), {
+        direction: "up",
+        amount: 500,
+      });
+    });
+
+    it("should find elements by the ref of a snapshot", async () => {
+      Object.assign(mockPage, { getByRole: vi.fn().mockReturnValue(locator) });
+      locator.ariaSnapshot = vi
+        .fn()
+        .mockResolvedValue('- list:\n  - listitem:\n    - button "Add"\n- button "Add"');
+      locator.nth = vi.fn().mockReturnValue(locator);
+
+      const { outline } = await browserManager.snapshotPage(mockPage);
+      await browserManager.click(mockPage, { ref: "e2" });
+
+      expect(mockPage.locator).toHaveBeenCalledWith("body");
+      expect(outline).toBe(
+        '- list\n  - listitem\n    - button "Add" [ref=e1]\n- button "Add" [ref=e2]'
+      );
+      // The second "Add" button in document order, as getByRole counts them
+      expect(mockPage.getByRole).toHaveBeenCalledWith("button", { name: "Add", exact: true });
+      expect(locator.nth).toHaveBeenCalledWith(1);
+      expect(locator.click).toHaveBeenCalled();
+    });
+
+    it("should drop refs when the main frame navigates", async () => {
+      Object.assign(mockPage, { getByRole: vi.fn().mockReturnValue(locator) });
+      locator.ariaSnapshot = vi.fn().mockResolvedValue('- button "Go"');
+      locator.nth = vi.fn().mockReturnValue(locator);
+
+      await browserManager.snapshotPage(mockPage);
+      await browserManager.snapshotPage(mockPage);
+      const on = mockPage.on as unknown as Mock;
+      expect(on).toHaveBeenCalledTimes(1);
+      const [event, onNavigated] = on.mock.calls[0];
+      expect(event).toBe("framenavigated");
+
+      onNavigated("child frame");
+      await browserManager.click(mockPage, { ref: "e1" });
+      expect(locator.click).toHaveBeenCalled();
+
+      onNavigated("main frame");
+      await expect(browserManager.click(mockPage, { ref: "e1" })).rejects.toThrow(
+        'Click failed: Unknown ref "e1"'
+      );
+    });
+
+    it("should reject refs the page has no snapshot for", async () => {
+      await expect(browserManager.click(mockPage, { ref: "e1" })).rejects.toThrow(
+        'Click failed: Unknown ref "e1"'
+      );
+    });
+
+    it("should keep the first line of Playwright errors", async () => {
+      locator.click.mockRejectedValue(
+        new Error("locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for locator")
+      );
+
+      await expect(browserManager.click(mockPage, { selector: "#missing" })).rejects.toThrow(
+        /^Click failed: locator.click: Timeout 5000ms exceeded.$/
+      );
+    });
+  });
+
   describe("takeScreenshotWithSizeLimit", () => {
+    const region = { x: 0, y: 0, width: 1600, height: 4000 };
+
+    beforeEach(() => {
+      (mockPage.evaluate as Mock).mockResolvedValue(region);
+    });
+
     it("should take screenshot with default viewport", async () => {
       const mockScreenshot = Buffer.from("test-screenshot");
       (mockPage.screenshot as Mock).mockResolvedValue(mockScreenshot);
@@ -192,22 +733,178 @@ describe("browserManager", () => {
       const result = await browserManager.takeScreenshotWithSizeLimit(mockPage);
 
       expect(mockPage.setViewportSize).toHaveBeenCalledWith({ width: 1600, height: 900 });
-      expect(result).toBe(mockScreenshot.toString("base64"));
+      expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "png", fullPage: false });
+      expect(result).toEqual([{ data: mockScreenshot.toString("base64"), mimeType: "image/png" }]);
     });
 
-    it("should reduce viewport size for large screenshots", async () => {
+    it("should clip element screenshots to the element", async () => {
+      (mockPage.screenshot as Mock).mockResolvedValue(Buffer.from("element"));
+
+      await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        selector: "#plans",
+        viewport: { width: 800, height: 600 },
+        format: "jpeg",
+      });
+
+      expect(mockPage.setViewportSize).toHaveBeenCalledWith({ width: 800, height: 600 });
+      expect(mockPage.evaluate).toHaveBeenCalledWith(expect.any(Function), {
+        sel: "#plans",
+        full: false,
+      });
+      expect(mockPage.screenshot).toHaveBeenCalledWith({
+        type: "jpeg",
+        quality: 80,
+        fullPage: true,
+        clip: region,
+      });
+    });
+
+    it("should fail when the selector matches nothing", async () => {
+      (mockPage.evaluate as Mock).mockResolvedValue(null);
+      await expect(
+        browserManager.takeScreenshotWithSizeLimit(mockPage, { selector: ".missing" })
+      ).rejects.toThrow('No element matches selector ".missing"');
+      expect(mockPage.screenshot).not.toHaveBeenCalled();
+    });
+
+    it("should lower the quality of large lossy screenshots", async () => {
       const largeScreenshot = Buffer.alloc(6 * 1024 * 1024);
       const smallScreenshot = Buffer.from("small-screenshot");
-
       (mockPage.screenshot as Mock)
+        .mockResolvedValueOnce(largeScreenshot)
         .mockResolvedValueOnce(largeScreenshot)
         .mockResolvedValueOnce(smallScreenshot);
-      (mockPage.setViewportSize as Mock).mockImplementation(() => {});
 
-      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage);
+      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        format: "jpeg",
+        quality: 70,
+      });
+
+      const qualities = (mockPage.screenshot as Mock).mock.calls.map(
+        ([options]) => options.quality
+      );
+      expect(qualities).toEqual([70, 60, 40]);
+      expect(result).toEqual([
+        { data: smallScreenshot.toString("base64"), mimeType: "image/jpeg" },
+      ]);
+    });
+
+    it("should split large screenshots into tiles", async () => {
+      (mockPage.screenshot as Mock)
+        .mockResolvedValueOnce(Buffer.alloc(6 * 1024 * 1024))
+        .mockResolvedValue(Buffer.from("tile"));
+
+      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        fullPage: true,
+      });
+
+      expect(result.map((image) => image.clip)).toEqual([
+        { x: 0, y: 0, width: 1600, height: 1334 },
+        { x: 0, y: 1334, width: 1600, height: 1334 },
+        { x: 0, y: 2668, width: 1600, height: 1332 },
+      ]);
+      expect(mockPage.screenshot).toHaveBeenLastCalledWith({
+        type: "png",
+        fullPage: true,
+        clip: { x: 0, y: 2668, width: 1600, height: 1332 },
+      });
+    });
+
+    it("should fail when even the smallest tiles are too large", async () => {
+      (mockPage.screenshot as Mock).mockResolvedValue(Buffer.alloc(6 * 1024 * 1024));
+      await expect(browserManager.takeScreenshotWithSizeLimit(mockPage)).rejects.toThrow(
+        "Failed to reduce screenshot to under 5MB"
+      );
+    });
+
+    it("should capture tiled screenshots segment by segment while scrolling", async () => {
+      const position = (scrollY: number) => ({
+        scrollY,
+        width: 1600,
+        height: 900,
+        scrollHeight: 2000,
+      });
+      (mockPage.evaluate as Mock)
+        .mockResolvedValueOnce(position(0))
+        .mockResolvedValueOnce(position(900))
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(position(1100))
+        .mockResolvedValueOnce(undefined);
+      (mockPage.screenshot as Mock).mockResolvedValue(Buffer.from("segment"));
+
+      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        tiled: true,
+      });
+
+      expect(result.map((image) => image.scrollY)).toEqual([0, 900, 1100]);
+      expect(result[2].clip).toEqual({ x: 0, y: 1100, width: 1600, height: 900 });
+      expect(mockPage.screenshot).toHaveBeenCalledTimes(3);
+      expect(mockPage.screenshot).toHaveBeenCalledWith({ type: "png", fullPage: false });
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(5);
+    });
+
+    it("should stop tiled captures at the segment limit", async () => {
+      (mockPage.evaluate as Mock).mockImplementation(async (_fn, arg) =>
+        arg?.segment === undefined
+          ? undefined
+          : { scrollY: arg.segment * 900, width: 1600, height: 900, scrollHeight: 50000 }
+      );
+      (mockPage.screenshot as Mock).mockResolvedValue(Buffer.from("segment"));
+
+      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        tiled: true,
+      });
+
+      expect(result).toHaveLength(MAX_SCREENSHOT_TILES);
+      expect(result[MAX_SCREENSHOT_TILES - 1]).toMatchObject({
+        scrollY: (MAX_SCREENSHOT_TILES - 1) * 900,
+        pageHeight: 50000,
+      });
+    });
+
+    it("should restore the page when a tiled capture fails", async () => {
+      (mockPage.evaluate as Mock)
+        .mockResolvedValueOnce({ scrollY: 0, width: 1600, height: 900, scrollHeight: 5000 })
+        .mockResolvedValueOnce(undefined);
+      (mockPage.screenshot as Mock).mockResolvedValue(Buffer.alloc(6 * 1024 * 1024));
+
+      await expect(
+        browserManager.takeScreenshotWithSizeLimit(mockPage, { tiled: true })
+      ).rejects.toThrow("Segment at 0px exceeds 5MB");
+      expect(mockPage.evaluate).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject tiled screenshots of an element", async () => {
+      await expect(
+        browserManager.takeScreenshotWithSizeLimit(mockPage, { tiled: true, selector: "#a" })
+      ).rejects.toThrow("can't use a selector");
+    });
+
+    it("should capture webp through the DevTools protocol", async () => {
+      const session = {
+        send: vi.fn().mockResolvedValue({ data: Buffer.from("webp").toString("base64") }),
+        detach: vi.fn(),
+      };
+      (mockPage.context as Mock).mockReturnValue({
+        newCDPSession: vi.fn().mockResolvedValue(session),
+      });
 
-      expect(mockPage.setViewportSize).toHaveBeenCalledTimes(2);
-      expect(result).toBe(smallScreenshot.toString("base64"));
+      const result = await browserManager.takeScreenshotWithSizeLimit(mockPage, {
+        fullPage: true,
+        format: "webp",
+        quality: 50,
+      });
+
+      expect(session.send).toHaveBeenCalledWith("Page.captureScreenshot", {
+        format: "webp",
+        quality: 50,
+        clip: { ...region, scale: 1 },
+        captureBeyondViewport: true,
+      });
+      expect(session.detach).toHaveBeenCalled();
+      expect(result).toEqual([
+        { data: Buffer.from("webp").toString("base64"), mimeType: "image/webp" },
+      ]);
     });
   });
 
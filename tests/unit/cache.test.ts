@@ -0,0 +1,95 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DiskCache, createCacheKey, normalizeQuery, toCacheInfo } from "../../src/cache.js";
+
+describe("cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-cache-test-"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("DiskCache", () => {
+    it("should return stored values until they expire", async () => {
+      vi.useFakeTimers();
+      const cache = new DiskCache<{ answer: number }>(dir, 1000);
+
+      const stored = await cache.set("key", { answer: 42 });
+      expect(stored.expiresAt - stored.storedAt).toBe(1000);
+
+      const entry = await cache.get("key");
+      expect(entry?.value).toEqual({ answer: 42 });
+
+      vi.advanceTimersByTime(1001);
+      expect(await cache.get("key")).toBeUndefined();
+    });
+
+    it("should miss on unknown keys", async () => {
+      const cache = new DiskCache<string>(dir, 1000);
+      expect(await cache.get("missing")).toBeUndefined();
+    });
+
+    it("should not store anything when the TTL is zero", async () => {
+      const cache = new DiskCache<string>(dir, 0);
+      await cache.set("key", "value");
+
+      expect(cache.enabled).toBe(false);
+      expect(await cache.get("key")).toBeUndefined();
+      expect(fs.readdirSync(dir)).toHaveLength(0);
+    });
+
+    it("should treat corrupt entries as misses", async () => {
+      const cache = new DiskCache<string>(dir, 1000);
+      await cache.set("key", "value");
+      for (const file of fs.readdirSync(dir)) {
+        fs.writeFileSync(path.join(dir, file), "{not json");
+      }
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      expect(await cache.get("key")).toBeUndefined();
+    });
+
+    it("should remove all entries on clear", async () => {
+      const cache = new DiskCache<string>(dir, 1000);
+      await cache.set("key", "value");
+      await cache.clear();
+
+      expect(await cache.get("key")).toBeUndefined();
+    });
+  });
+
+  describe("createCacheKey", () => {
+    it("should ignore property order and undefined values", () => {
+      expect(createCacheKey("search", { b: 2, a: 1, c: undefined })).toBe(
+        createCacheKey("search", { a: 1, b: 2 })
+      );
+    });
+
+    it("should separate namespaces", () => {
+      expect(createCacheKey("search", { a: 1 })).not.toBe(createCacheKey("page", { a: 1 }));
+    });
+  });
+
+  describe("normalizeQuery", () => {
+    it("should trim, collapse whitespace and lower-case", () => {
+      expect(normalizeQuery("  TypeScript   Best\tPractices ")).toBe("typescript best practices");
+    });
+  });
+
+  describe("toCacheInfo", () => {
+    it("should report ISO timestamps", () => {
+      expect(toCacheInfo({ value: "x", storedAt: 0, expiresAt: 1000 }, true)).toEqual({
+        hit: true,
+        storedAt: "1970-01-01T00:00:00.000Z",
+        expiresAt: "1970-01-01T00:00:01.000Z",
+      });
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { INTRO_CHUNK_ID, chunkMarkdown } from "../../src/chunk.js";
+
+const document = [
+  "Welcome to the docs.",
+  "",
+  "# Getting Started",
+  "",
+  "## Installation",
+  "",
+  "Run the installer.",
+  "",
+  "## Usage",
+  "",
+  "```bash",
+  "# not a heading",
+  "",
+  "tool --help",
+  "```",
+  "",
+  "# FAQ",
+  "",
+  "Answers to common questions.",
+].join("\n");
+
+describe("chunk", () => {
+  describe("chunkMarkdown", () => {
+    it("should split at headings with IDs from the heading path", () => {
+      const { chunks } = chunkMarkdown(document);
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual([
+        INTRO_CHUNK_ID,
+        "getting-started/installation",
+        "getting-started/usage",
+        "faq",
+      ]);
+      expect(chunks[1].text).toBe("# Getting Started\n\n## Installation\n\nRun the installer.");
+      expect(chunks[1].path).toEqual(["Getting Started", "Installation"]);
+      expect(chunks[2].text).toContain("# not a heading");
+    });
+
+    it("should list every heading in the table of contents", () => {
+      const { toc } = chunkMarkdown(document);
+
+      expect(toc.map(({ id, title, level }) => [id, title, level])).toEqual([
+        [INTRO_CHUNK_ID, "Introduction", 0],
+        ["getting-started/installation", "Getting Started", 1],
+        ["getting-started/installation", "Installation", 2],
+        ["getting-started/usage", "Usage", 2],
+        ["faq", "FAQ", 1],
+      ]);
+    });
+
+    it("should keep IDs stable when other sections change", () => {
+      const edited = document.replace(
+        "Run the installer.",
+        "Run the new installer.\n\nThen reboot."
+      );
+      const ids = chunkMarkdown(edited).chunks.map((chunk) => chunk.id);
+
+      expect(ids).toEqual(chunkMarkdown(document).chunks.map((chunk) => chunk.id));
+    });
+
+    it("should number repeated headings and split long sections into parts", () => {
+      const paragraph = "word ".repeat(30).trim();
+      const markdown = [
+        "## Example",
+        "",
+        paragraph,
+        "",
+        paragraph,
+        "",
+        paragraph,
+        "",
+        "## Example",
+        "",
+        "Short.",
+      ].join("\n");
+
+      const { chunks } = chunkMarkdown(markdown, 200);
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual([
+        "example",
+        "example:2",
+        "example:3",
+        "example-2",
+      ]);
+      expect(chunks[1].text).toBe(paragraph);
+      expect(chunks.every((chunk) => chunk.text.length <= 200)).toBe(true);
+    });
+
+    it("should slugify headings with links, punctuation and non-Latin scripts", () => {
+      const { chunks } = chunkMarkdown(
+        "# [C# API](https://x.test) — Überblick\n\ntext\n\n# 安装\n\ntext"
+      );
+
+      expect(chunks.map((chunk) => chunk.id)).toEqual(["c-api-überblick", "安装"]);
+    });
+
+    it("should keep trailing headings without content", () => {
+      const { chunks, toc } = chunkMarkdown("Intro text\n\n# Appendix");
+
+      expect(chunks.map((chunk) => [chunk.id, chunk.text])).toEqual([
+        [INTRO_CHUNK_ID, "Intro text"],
+        ["appendix", "# Appendix"],
+      ]);
+      expect(toc.at(-1)).toEqual({ id: "appendix", title: "Appendix", level: 1, length: 10 });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONTENT_TYPE_RULES, classifyUrl } from "../../src/classify.js";
+
+describe("classify", () => {
+  describe("classifyUrl", () => {
+    it.each([
+      ["https://github.com/microsoft/TypeScript", "code_repository"],
+      ["https://gist.github.com/user/abc123", "code_repository"],
+      ["https://docs.github.com/en/actions", "documentation"],
+      ["https://www.typescriptlang.org/docs/handbook/intro.html", "documentation"],
+      ["https://docs.python.org/3/library/asyncio.html", "documentation"],
+      ["https://stackoverflow.com/questions/12345/how-to", "qa"],
+      ["https://unix.stackexchange.com/questions/1/x", "qa"],
+      ["https://www.reddit.com/r/typescript/comments/abc", "forum"],
+      ["https://news.ycombinator.com/item?id=1", "forum"],
+      ["https://community.example.com/t/question/42", "forum"],
+      ["https://www.reuters.com/technology/story", "news"],
+      ["https://arxiv.org/abs/1706.03762", "academic"],
+      ["https://www.youtube.com/watch?v=abc", "video"],
+      ["https://example.com/whitepaper.PDF", "pdf"],
+      ["https://arxiv.org/pdf/1706.03762.pdf", "pdf"],
+      ["https://en.wikipedia.org/wiki/TypeScript", "encyclopedia"],
+      ["https://www.amazon.co.uk/dp/B000", "ecommerce"],
+      ["https://x.com/user/status/1", "social"],
+      ["https://example.com/blog/post", "article"],
+    ])("should classify %s as %s", (url, type) => {
+      expect(classifyUrl(url)).toBe(type);
+    });
+
+    it("should not match look-alike domains", () => {
+      expect(classifyUrl("https://notgithub.com/repo")).toBe("article");
+    });
+
+    it("should check custom rules in order before the defaults", () => {
+      const rules = [
+        { type: "forum" as const, domains: ["github.com"], urlPattern: /\/discussions/ },
+        ...DEFAULT_CONTENT_TYPE_RULES,
+      ];
+
+      expect(classifyUrl("https://github.com/org/repo/discussions/1", rules)).toBe("forum");
+      expect(classifyUrl("https://github.com/org/repo", rules)).toBe("code_repository");
+    });
+
+    it("should treat invalid URLs as articles", () => {
+      expect(classifyUrl("not a url")).toBe("article");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { SafeSearchType } from "duck-duck-scrape";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_CONTENT_TYPE_RULES } from "../../src/classify.js";
+import {
+  BUILTIN_SEARCH_DEFAULTS,
+  DUCKDUCKGO_REGIONS,
+  RegionSchema,
+  isValidRegion,
+  loadServerConfig,
+} from "../../src/config.js";
+import { LANGUAGE_REGIONS } from "../../src/language.js";
+
+describe("config", () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-config-test-"));
+    configFile = path.join(dir, "config.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("loadServerConfig", () => {
+    it("should use built-in defaults when nothing is configured", () => {
+      expect(loadServerConfig({}).searchDefaults).toEqual(BUILTIN_SEARCH_DEFAULTS);
+      expect(BUILTIN_SEARCH_DEFAULTS.region).toBe("wt-wt");
+    });
+
+    it("should read defaults from the environment", () => {
+      expect(
+        loadServerConfig({
+          MCP_DEFAULT_REGION: "us-en",
+          MCP_DEFAULT_SAFE_SEARCH: "Strict",
+          MCP_DEFAULT_NUM_RESULTS: "20",
+        }).searchDefaults
+      ).toEqual({
+        region: "us-en",
+        safeSearch: SafeSearchType.STRICT,
+        numResults: 20,
+        verticalNumResults: BUILTIN_SEARCH_DEFAULTS.verticalNumResults,
+      });
+    });
+
+    it("should let the environment override the config file", () => {
+      fs.writeFileSync(configFile, JSON.stringify({ region: "uk-en", verticalNumResults: 10 }));
+
+      expect(
+        loadServerConfig({ MCP_CONFIG_FILE: configFile, MCP_DEFAULT_REGION: "de-de" })
+          .searchDefaults
+      ).toMatchObject({ region: "de-de", verticalNumResults: 10 });
+    });
+
+    it("should reject unknown regions and keys", () => {
+      expect(() => loadServerConfig({ MCP_DEFAULT_REGION: "zh-cn" })).toThrow(
+        /Invalid configuration in environment: region: Unknown region "zh-cn"/
+      );
+
+      fs.writeFileSync(configFile, JSON.stringify({ regoin: "us-en" }));
+      expect(() => loadServerConfig({ MCP_CONFIG_FILE: configFile })).toThrow(/Unrecognized key/);
+    });
+
+    it("should reject invalid values", () => {
+      expect(() => loadServerConfig({ MCP_DEFAULT_SAFE_SEARCH: "sometimes" })).toThrow(
+        /safeSearch/
+      );
+      expect(() => loadServerConfig({ MCP_DEFAULT_NUM_RESULTS: "0" })).toThrow(/numResults/);
+    });
+
+    it("should check configured content type rules before the built-in ones", () => {
+      fs.writeFileSync(
+        configFile,
+        JSON.stringify({
+          contentTypes: [
+            { type: "documentation", domains: ["Wiki.Corp.Example"] },
+            { type: "forum", urlPattern: "github\\.com/[^/]+/[^/]+/discussions" },
+          ],
+        })
+      );
+
+      const { contentTypeRules } = loadServerConfig({ MCP_CONFIG_FILE: configFile });
+
+      expect(contentTypeRules.slice(0, 2)).toEqual([
+        { type: "documentation", domains: ["wiki.corp.example"] },
+        { type: "forum", urlPattern: /github\.com\/[^/]+\/[^/]+\/discussions/i },
+      ]);
+      expect(contentTypeRules.slice(2)).toEqual(DEFAULT_CONTENT_TYPE_RULES);
+    });
+
+    it("should reject invalid content type rules", () => {
+      for (const rule of [
+        { type: "blog", domains: ["example.com"] },
+        { type: "forum" },
+        { type: "forum", urlPattern: "(" },
+      ]) {
+        fs.writeFileSync(configFile, JSON.stringify({ contentTypes: [rule] }));
+        expect(() => loadServerConfig({ MCP_CONFIG_FILE: configFile })).toThrow(/contentTypes\.0/);
+      }
+    });
+
+    it("should report unreadable config files", () => {
+      expect(() => loadServerConfig({ MCP_CONFIG_FILE: path.join(dir, "missing.json") })).toThrow(
+        /Could not read config file/
+      );
+    });
+  });
+
+  describe("regions", () => {
+    it("should validate region codes", () => {
+      expect(isValidRegion("us-en")).toBe(true);
+      expect(isValidRegion("zh-cn")).toBe(false);
+      expect(isValidRegion("constructor")).toBe(false);
+      expect(RegionSchema.safeParse("cn-zh").success).toBe(true);
+    });
+
+    it("should only auto-select valid regions", () => {
+      for (const region of Object.values(LANGUAGE_REGIONS)) {
+        expect(DUCKDUCKGO_REGIONS).toHaveProperty([region]);
+      }
+    });
+  });
+});
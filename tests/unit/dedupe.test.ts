@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { ResultDeduplicator } from "../../src/dedupe.js";
+
+const result = (url: string, title = "A title", description = "A description") => ({
+  url,
+  title,
+  description,
+});
+
+describe("dedupe", () => {
+  describe("ResultDeduplicator", () => {
+    it("should merge URL variants of the same page", () => {
+      const deduplicator = new ResultDeduplicator();
+
+      expect(deduplicator.add(result("https://example.com/story", "One", "First"))).toBe(true);
+      expect(deduplicator.add(result("http://www.example.com/story/", "Two", "Second"))).toBe(
+        false
+      );
+      expect(deduplicator.add(result("https://m.example.com/story?utm_source=x", "3", "3"))).toBe(
+        false
+      );
+      expect(deduplicator.mergedCount).toBe(2);
+    });
+
+    it("should merge near-identical titles and descriptions on different URLs", () => {
+      const deduplicator = new ResultDeduplicator();
+      const title = "TypeScript 5.4 released with NoInfer and closure narrowing";
+      const description =
+        "Microsoft has released TypeScript 5.4, adding the NoInfer utility type and better narrowing in closures.";
+
+      expect(deduplicator.add(result("https://news.example.com/ts-54", title, description))).toBe(
+        true
+      );
+      expect(
+        deduplicator.add(
+          result("https://mirror.example.org/ts54", `${title} - Mirror`, `${description} Read more`)
+        )
+      ).toBe(false);
+      expect(deduplicator.mergedCount).toBe(1);
+    });
+
+    it("should keep distinct results that share a title or a description only", () => {
+      const deduplicator = new ResultDeduplicator();
+
+      expect(
+        deduplicator.add(result("https://a.example.com", "Home", "Site A about gardening"))
+      ).toBe(true);
+      expect(
+        deduplicator.add(result("https://b.example.com", "Home", "Site B about sailing"))
+      ).toBe(true);
+      expect(
+        deduplicator.add(
+          result("https://c.example.com", "Gardening tips", "Site A about gardening")
+        )
+      ).toBe(true);
+      expect(deduplicator.mergedCount).toBe(0);
+    });
+
+    it("should locate the recorded result a duplicate belongs to without recording it", () => {
+      const deduplicator = new ResultDeduplicator();
+      deduplicator.add(result("https://a.example.com/page", "Alpha", "First page"));
+      deduplicator.add(result("https://b.example.com/page", "Beta", "Second page"));
+
+      expect(deduplicator.indexOf(result("http://www.b.example.com/page", "B", "B"))).toBe(1);
+      expect(deduplicator.indexOf(result("https://c.example.com/page", "Gamma", "Third"))).toBe(-1);
+      expect(deduplicator.mergedCount).toBe(0);
+      expect(deduplicator.add(result("https://c.example.com/page", "Gamma", "Third"))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUTO_REGION_MIN_CONFIDENCE,
+  LANGUAGE_REGIONS,
+  detectLanguage,
+  regionForLanguage,
+} from "../../src/language.js";
+
+describe("language", () => {
+  describe("detectLanguage", () => {
+    it("should detect languages by script", () => {
+      expect(detectLanguage("测试查询").language).toBe("zh");
+      expect(detectLanguage("東京の天気").language).toBe("ja");
+      expect(detectLanguage("서울 날씨").language).toBe("ko");
+      expect(detectLanguage("как выучить python").language).toBe("ru");
+      expect(detectLanguage("як вивчити українську мову").language).toBe("uk");
+      expect(detectLanguage("الطقس في القاهرة").language).toBe("ar");
+      expect(detectLanguage("מזג אוויר").language).toBe("he");
+      expect(detectLanguage("καιρός αθήνα").language).toBe("el");
+    });
+
+    it("should detect Latin-script languages", () => {
+      expect(detectLanguage("typescript best practices").language).toBe("en");
+      expect(detectLanguage("comment installer node sur windows").language).toBe("fr");
+      expect(detectLanguage("cómo aprender python").language).toBe("es");
+      expect(detectLanguage("wie funktioniert der compiler").language).toBe("de");
+      expect(detectLanguage("come cucinare la pasta").language).toBe("it");
+      expect(detectLanguage("como fazer pão caseiro").language).toBe("pt");
+      expect(detectLanguage("jak nauczyć się programowania").language).toBe("pl");
+      expect(detectLanguage("python nasıl öğrenilir").language).toBe("tr");
+    });
+
+    it("should not be fooled by hyphens", () => {
+      expect(detectLanguage("state-of-the-art compilers").language).toBe("en");
+    });
+
+    it("should be less confident about short ambiguous queries", () => {
+      expect(detectLanguage("react hooks").confidence).toBeLessThan(
+        detectLanguage("how to use react hooks with the context api").confidence
+      );
+    });
+
+    it("should report undetermined text without letters", () => {
+      expect(detectLanguage("12345 !?")).toEqual({ language: "und", confidence: 0 });
+    });
+  });
+
+  describe("regionForLanguage", () => {
+    it("should map confident detections to a region", () => {
+      expect(regionForLanguage({ language: "ja", confidence: 1 })).toBe(LANGUAGE_REGIONS.ja);
+    });
+
+    it("should not infer a region from low-confidence or unknown languages", () => {
+      expect(
+        regionForLanguage({ language: "de", confidence: AUTO_REGION_MIN_CONFIDENCE - 0.01 })
+      ).toBeUndefined();
+      expect(regionForLanguage({ language: "und", confidence: 0 })).toBeUndefined();
+    });
+  });
+});
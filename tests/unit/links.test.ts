@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { type RawLink, buildOutline, normalizeLinks } from "../../src/links.js";
+
+const link = (href: string, extra: Partial<RawLink> = {}): RawLink => ({
+  href,
+  text: "",
+  rel: "",
+  section: "",
+  ...extra,
+});
+
+describe("links", () => {
+  describe("normalizeLinks", () => {
+    const pageUrl = "https://www.example.com/docs/intro";
+
+    it("should resolve relative links and classify them", () => {
+      const links = normalizeLinks(
+        [
+          link("setup", { text: "Setup", section: "Getting started" }),
+          link("https://example.com/blog", { text: "Blog" }),
+          link("https://github.com/example/repo", { text: "GitHub", rel: "noopener NoFollow" }),
+        ],
+        pageUrl
+      );
+      expect(links).toEqual([
+        {
+          url: "https://www.example.com/docs/setup",
+          text: "Setup",
+          type: "internal",
+          section: "Getting started",
+          count: 1,
+        },
+        { url: "https://example.com/blog", text: "Blog", type: "internal", count: 1 },
+        {
+          url: "https://github.com/example/repo",
+          text: "GitHub",
+          type: "external",
+          rel: ["noopener", "nofollow"],
+          count: 1,
+        },
+      ]);
+    });
+
+    it("should merge links to the same page", () => {
+      const links = normalizeLinks(
+        [
+          link("/pricing?utm_source=nav", { rel: "nofollow" }),
+          link("/pricing/#plans", { text: "  See   pricing ", section: "Plans", rel: "noopener" }),
+        ],
+        pageUrl
+      );
+      expect(links).toEqual([
+        {
+          url: "https://www.example.com/pricing?utm_source=nav",
+          text: "See pricing",
+          type: "internal",
+          rel: ["nofollow", "noopener"],
+          section: "Plans",
+          count: 2,
+        },
+      ]);
+    });
+
+    it("should skip non-http links, in-page anchors and invalid URLs", () => {
+      const links = normalizeLinks(
+        [
+          link("#section"),
+          link("mailto:team@example.com"),
+          link("javascript:void(0)"),
+          link("https://www.example.com/docs/intro/"),
+          link("http://[invalid"),
+        ],
+        pageUrl
+      );
+      expect(links).toEqual([]);
+    });
+
+    it("should return links as written rather than in canonical form", () => {
+      const links = normalizeLinks(
+        [link("https://amp.dev/documentation/components/#intro"), link("https://m.com/x")],
+        pageUrl
+      );
+      expect(links.map((link) => [link.url, link.type])).toEqual([
+        ["https://amp.dev/documentation/components/#intro", "external"],
+        ["https://m.com/x", "external"],
+      ]);
+    });
+
+    it("should resolve links against the base URL", () => {
+      const [resolved] = normalizeLinks([link("guide")], pageUrl, "https://cdn.example.org/v2/");
+      expect(resolved).toMatchObject({ url: "https://cdn.example.org/v2/guide", type: "external" });
+    });
+  });
+
+  describe("buildOutline", () => {
+    it("should link headings with an ID to their anchor", () => {
+      expect(
+        buildOutline(
+          [
+            { level: 1, text: "Intro", id: "" },
+            { level: 2, text: "Install", id: "install" },
+          ],
+          "https://example.com/docs#top"
+        )
+      ).toEqual([
+        { level: 1, text: "Intro" },
+        { level: 2, text: "Install", anchor: "https://example.com/docs#install" },
+      ]);
+    });
+  });
+});
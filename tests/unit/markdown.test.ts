@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  fenceCode,
+  languageFromClass,
+  tidyMarkdown,
+  toReferenceLinks,
+} from "../../src/markdown.js";
+
+describe("markdown", () => {
+  describe("toReferenceLinks", () => {
+    it("should number links and list each URL once", () => {
+      const markdown = [
+        "See [the docs](https://example.com/docs) and [API](https://example.com/api).",
+        "",
+        "Back to [docs](https://example.com/docs).",
+      ].join("\n");
+      expect(toReferenceLinks(markdown)).toBe(
+        [
+          "See [the docs][1] and [API][2].",
+          "",
+          "Back to [docs][1].",
+          "",
+          "[1]: https://example.com/docs",
+          "[2]: https://example.com/api",
+        ].join("\n")
+      );
+    });
+
+    it("should rewrite images and linked images", () => {
+      expect(
+        toReferenceLinks("[![Logo](https://example.com/logo.png)](https://example.com/)")
+      ).toBe("[![Logo][1]][2]\n\n[1]: https://example.com/logo.png\n[2]: https://example.com/");
+    });
+
+    it("should keep escaped brackets in link text", () => {
+      expect(toReferenceLinks("[array\\[0\\]](https://example.com/a)")).toBe(
+        "[array\\[0\\]][1]\n\n[1]: https://example.com/a"
+      );
+    });
+
+    it("should leave code blocks and code spans unchanged", () => {
+      const markdown = [
+        "Use `[x](y)` syntax:",
+        "",
+        "```md",
+        "[link](https://example.com/in-code)",
+        "```",
+        "",
+        "[real](https://example.com/real)",
+      ].join("\n");
+      expect(toReferenceLinks(markdown)).toBe(
+        [
+          "Use `[x](y)` syntax:",
+          "",
+          "```md",
+          "[link](https://example.com/in-code)",
+          "```",
+          "",
+          "[real][1]",
+          "",
+          "[1]: https://example.com/real",
+        ].join("\n")
+      );
+    });
+
+    it("should return markdown without links unchanged", () => {
+      expect(toReferenceLinks("# Title\n\nNo links here.")).toBe("# Title\n\nNo links here.");
+    });
+  });
+
+  describe("languageFromClass", () => {
+    it("should read the common highlighter conventions", () => {
+      expect(languageFromClass("hljs language-TypeScript")).toBe("typescript");
+      expect(languageFromClass("prettyprint lang-py")).toBe("py");
+      expect(languageFromClass("highlight highlight-source-shell")).toBe("shell");
+      expect(languageFromClass("highlight-cpp")).toBe("cpp");
+      expect(languageFromClass("brush: csharp; toolbar: false")).toBe("csharp");
+    });
+
+    it("should treat plain text as no language", () => {
+      expect(languageFromClass("language-plaintext")).toBe("");
+      expect(languageFromClass("code-block")).toBeUndefined();
+    });
+  });
+
+  describe("fenceCode", () => {
+    it("should keep the code exactly and tag the language", () => {
+      expect(fenceCode("if (a) {\n\n\n  b();\n}\n", "js")).toBe(
+        "```js\nif (a) {\n\n\n  b();\n}\n```"
+      );
+    });
+
+    it("should use a fence longer than any backticks in the code", () => {
+      expect(fenceCode("```md\ntext\n```")).toBe("````\n```md\ntext\n```\n````");
+    });
+  });
+
+  describe("tidyMarkdown", () => {
+    it("should collapse blank lines and drop empty list items outside code", () => {
+      expect(tidyMarkdown("\n# Title\n\n\n\n- \n   \nText\n\n```\na\n\n\n  \nb\n```\n\n")).toBe(
+        "# Title\n\nText\n\n```\na\n\n\n  \nb\n```"
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_CHANGED_LINES,
+  MAX_CHANGED_LINE_LENGTH,
+  type PageState,
+  diffPageStates,
+} from "../../src/pagediff.js";
+
+const state = (extra: Partial<PageState> = {}): PageState => ({
+  url: "https://example.com/",
+  title: "Example",
+  text: "",
+  scrollY: 0,
+  ...extra,
+});
+
+describe("pagediff", () => {
+  describe("diffPageStates", () => {
+    it("should list added and removed lines regardless of order", () => {
+      const changes = diffPageStates(
+        state({ text: "We use cookies\nAccept all\nNews\n  Sports  " }),
+        state({ text: "Sports\nNews\nWeather" })
+      );
+      expect(changes).toEqual({
+        addedLines: ["Weather"],
+        removedLines: ["We use cookies", "Accept all"],
+        addedCount: 1,
+        removedCount: 2,
+        summary: "1 line added, 2 lines removed",
+      });
+    });
+
+    it("should count repeated lines", () => {
+      const changes = diffPageStates(
+        state({ text: "Item\nLoad more" }),
+        state({ text: "Item\nItem\nItem\nLoad more" })
+      );
+      expect(changes.addedLines).toEqual(["Item", "Item"]);
+      expect(changes.removedCount).toBe(0);
+    });
+
+    it("should report navigation, title and scroll changes", () => {
+      const changes = diffPageStates(
+        state(),
+        state({ url: "https://example.com/search?q=a", title: "Results", scrollY: 900 })
+      );
+      expect(changes).toMatchObject({
+        navigated: { from: "https://example.com/", to: "https://example.com/search?q=a" },
+        title: { from: "Example", to: "Results" },
+        scrolled: { from: 0, to: 900 },
+        summary: "Navigated to https://example.com/search?q=a, scrolled to 900px",
+      });
+    });
+
+    it("should limit the listed lines but count all of them", () => {
+      const lines = Array.from({ length: MAX_CHANGED_LINES + 5 }, (_, i) => `Result ${i}`);
+      const long = "x".repeat(MAX_CHANGED_LINE_LENGTH + 50);
+      const changes = diffPageStates(state(), state({ text: [long, ...lines].join("\n") }));
+      expect(changes.addedLines).toHaveLength(MAX_CHANGED_LINES);
+      expect(changes.addedLines[0]).toHaveLength(MAX_CHANGED_LINE_LENGTH);
+      expect(changes.addedCount).toBe(MAX_CHANGED_LINES + 6);
+    });
+
+    it("should say when nothing changed", () => {
+      expect(diffPageStates(state({ text: "Same" }), state({ text: "Same" })).summary).toBe(
+        "No visible change"
+      );
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  RATE_LIMITED_ERROR_CODE,
+  RATE_LIMIT_RETRIES,
+  RateLimitError,
+  TokenBucket,
+  isRateLimitError,
+  searchRateLimiter,
+  withSearchRateLimit,
+} from "../../src/ratelimit.js";
+
+describe("ratelimit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("TokenBucket", () => {
+    it("should allow a burst and then space out callers", async () => {
+      const bucket = new TokenBucket(2, 1);
+      const acquired: number[] = [];
+
+      for (let i = 0; i < 4; i++) {
+        bucket.acquire().then(() => acquired.push(i));
+      }
+      await vi.advanceTimersByTimeAsync(0);
+      expect(acquired).toEqual([0, 1]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired).toEqual([0, 1, 2]);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(acquired).toEqual([0, 1, 2, 3]);
+    });
+
+    it("should make the next caller wait after being drained", async () => {
+      const bucket = new TokenBucket(3, 1);
+      bucket.drain();
+
+      let acquired = false;
+      bucket.acquire().then(() => {
+        acquired = true;
+      });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(acquired).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(acquired).toBe(true);
+    });
+  });
+
+  describe("isRateLimitError", () => {
+    it("should recognize DuckDuckGo throttling errors", () => {
+      expect(
+        isRateLimitError(
+          new Error(
+            "DDG detected an anomaly in the request, you are likely making requests too quickly."
+          )
+        )
+      ).toBe(true);
+      expect(isRateLimitError(new Error('Failed to get the VQD for query "test".'))).toBe(true);
+      expect(isRateLimitError(new Error("HTTP 429 Too Many Requests"))).toBe(true);
+    });
+
+    it("should ignore unrelated errors", () => {
+      expect(isRateLimitError(new Error("Query cannot be empty!"))).toBe(false);
+      expect(isRateLimitError("anomaly")).toBe(false);
+    });
+  });
+
+  describe("withSearchRateLimit", () => {
+    beforeEach(() => {
+      vi.spyOn(searchRateLimiter, "acquire").mockResolvedValue(undefined);
+    });
+
+    it("should retry rate-limited requests with backoff", async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("DDG detected an anomaly in the request"))
+        .mockResolvedValueOnce("results");
+
+      const promise = withSearchRateLimit(operation);
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe("results");
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(searchRateLimiter.acquire).toHaveBeenCalledTimes(2);
+    });
+
+    it("should raise a RateLimitError with a retry hint after all retries", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("DDG detected an anomaly"));
+
+      const promise = withSearchRateLimit(operation);
+      const assertion = expect(promise).rejects.toSatisfy(
+        (error: unknown) =>
+          error instanceof RateLimitError &&
+          error.code === RATE_LIMITED_ERROR_CODE &&
+          error.retryAfterMs > 0 &&
+          (error.data as { retryAfterMs: number }).retryAfterMs === error.retryAfterMs
+      );
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(RATE_LIMIT_RETRIES);
+    });
+
+    it("should not retry other errors", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("Query cannot be empty!"));
+
+      await expect(withSearchRateLimit(operation)).rejects.toThrow("Query cannot be empty!");
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
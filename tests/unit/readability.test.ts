@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import type { Page } from "playwright";
+import { describe, expect, it } from "vitest";
+import { browserManager } from "../../src/browser.js";
+import {
+  MAX_BYLINE_LENGTH,
+  MAX_EXCERPT_LENGTH,
+  findReadableContent,
+  normalizeArticleMetadata,
+} from "../../src/readability.js";
+
+const story = [
+  "The river rose, slowly at first and then all at once, flooding the lower town overnight.",
+  "Residents, shop owners and volunteers filled sandbags, while the school became a shelter.",
+  "By noon the water reached the square, and the bridge to the old quarter was closed.",
+].map((text) => `<p>${text}</p>`);
+
+const navigation = ["News", "Sport", "Weather", "Travel", "Culture", "Business"].map(
+  (section) => `<p><a href="/${section}">${section}, latest, popular, archive</a></p>`
+);
+
+// Page whose evaluate runs the function against the test document
+const fixturePage = { evaluate: (fn: (arg: unknown) => unknown, arg: unknown) => fn(arg) };
+
+describe("readability", () => {
+  describe("findReadableContent", () => {
+    it("should prefer dense text over a cookie banner and a link-heavy nav", () => {
+      document.body.innerHTML = `
+        <div class="notice">
+          <p>We and our partners store, access and use cookies, to personalise content.</p>
+        </div>
+        <div>
+          <div>${navigation.join("")}</div>
+        </div>
+        <div>
+          <div>${story.join("")}</div>
+        </div>`;
+
+      const html = findReadableContent();
+
+      expect(html).toContain("The river rose");
+      expect(html).toContain("the bridge to the old quarter");
+      expect(html).not.toContain("cookies");
+      expect(html).not.toContain("popular");
+    });
+
+    it("should join sibling paragraphs of the article", () => {
+      document.body.innerHTML = `
+        <div class="story">${story.slice(0, 2).join("")}</div>
+        ${story[2]}
+        <p>Advertisement</p>`;
+
+      const html = findReadableContent();
+
+      expect(html).toContain("the bridge to the old quarter");
+      expect(html).not.toContain("Advertisement");
+    });
+
+    it("should return null when no element scores", () => {
+      document.body.innerHTML = `
+        <main>
+          <h1>Search</h1>
+          <ul><li><a href="/a">First result</a></li><li><a href="/b">Second result</a></li></ul>
+        </main>`;
+
+      expect(findReadableContent()).toBeNull();
+    });
+
+    it("should fall back to the main content area when no element scores", async () => {
+      document.body.innerHTML = `
+        <nav><a href="/">Home</a></nav>
+        <main><h1>Search</h1><ul><li>First result</li><li>Second result</li></ul></main>
+        <footer>Contact</footer>`;
+
+      const html = await browserManager.extractContent(fixturePage as unknown as Page, {
+        format: "html",
+      });
+
+      expect(html).toBe(
+        "<main><h1>Search</h1><ul><li>First result</li><li>Second result</li></ul></main>"
+      );
+    });
+
+    it("should fall back to the body without changing the page", async () => {
+      document.body.innerHTML = `
+        <nav><a href="/">Home</a></nav>
+        <div><h1>Search</h1><ul><li>First result</li><li>Second result</li></ul></div>
+        <footer>Contact</footer>`;
+
+      const html = await browserManager.extractContent(fixturePage as unknown as Page, {
+        format: "html",
+      });
+
+      expect(html).toContain("Second result");
+      expect(html).not.toContain("Home");
+      expect(html).not.toContain("Contact");
+      expect(document.querySelector("nav")?.textContent).toBe("Home");
+      expect(document.querySelector("footer")?.textContent).toBe("Contact");
+    });
+  });
+
+  describe("normalizeArticleMetadata", () => {
+    it("should clean up values and convert dates to ISO 8601", () => {
+      expect(
+        normalizeArticleMetadata({
+          byline: "\n  by Jane   Doe ",
+          publishedAt: "2024-03-05T10:00:00+01:00",
+          siteName: " Example News ",
+          excerpt: "A short\nsummary.",
+        })
+      ).toEqual({
+        byline: "Jane Doe",
+        publishedAt: "2024-03-05T09:00:00.000Z",
+        siteName: "Example News",
+        excerpt: "A short summary.",
+      });
+    });
+
+    it("should leave out missing and unusable values", () => {
+      expect(
+        normalizeArticleMetadata({
+          byline: "https://www.facebook.com/janedoe",
+          publishedAt: "last Tuesday",
+          siteName: "   ",
+          excerpt: null,
+        })
+      ).toEqual({});
+      expect(normalizeArticleMetadata({ byline: "x".repeat(MAX_BYLINE_LENGTH + 1) })).toEqual({});
+    });
+
+    it("should shorten long excerpts at a word boundary", () => {
+      const excerpt = normalizeArticleMetadata({ excerpt: "lorem ipsum, ".repeat(40) }).excerpt;
+      expect(excerpt?.length).toBeLessThanOrEqual(MAX_EXCERPT_LENGTH + 1);
+      expect(excerpt).toMatch(/ipsum…$/);
+    });
+  });
+});
@@ -0,0 +1,675 @@
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { Page } from "playwright";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Mock } from "vitest";
+import { browserManager } from "../../src/browser.js";
+import { pageCache } from "../../src/cache.js";
+import {
+  performChunkRead,
+  performClick,
+  performLinkExtraction,
+  performPageSnapshot,
+  performPageVisit,
+  performScreenshot,
+  performSelectOption,
+  performSessionClose,
+  performSessionList,
+  performTableExtraction,
+} from "../../src/research.js";
+import type { PageContent, VisitPageArgs } from "../../src/types.js";
+import { saveScreenshot } from "../../src/utils.js";
+
+vi.mock("../../src/utils.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/utils.js")>()),
+  saveScreenshot: vi.fn(),
+}));
+
+const visitArgs = (args: Partial<VisitPageArgs> = {}): VisitPageArgs => ({
+  url: "https://example.com/docs",
+  format: "markdown",
+  offset: 0,
+  includeLinks: true,
+  includeImages: true,
+  ...args,
+});
+
+describe("research", () => {
+  const mockPage = {
+    url: vi.fn(),
+    title: vi.fn(),
+    isClosed: vi.fn(() => false),
+  } as unknown as Page;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(pageCache, "get").mockResolvedValue(undefined);
+    vi.spyOn(pageCache, "set").mockImplementation(async (_key, value) => ({
+      value,
+      storedAt: 0,
+      expiresAt: 1000,
+    }));
+    vi.spyOn(browserManager, "withPage").mockImplementation(async (task) => task(mockPage));
+    vi.spyOn(browserManager, "safePageNavigation").mockResolvedValue({
+      status: 200,
+      finalUrl: "https://www.example.com/docs/",
+      title: "Example Docs",
+      wordCount: 120,
+    });
+    vi.spyOn(browserManager, "extractContent").mockResolvedValue("# Docs\n\nSome content here");
+    vi.spyOn(browserManager, "extractMetadata").mockResolvedValue({
+      byline: "Jane Doe",
+      siteName: "Example",
+    });
+    vi.spyOn(browserManager, "takeScreenshotWithSizeLimit").mockResolvedValue([
+      { data: "cG5n", mimeType: "image/png" },
+    ]);
+    (saveScreenshot as Mock).mockResolvedValue("/tmp/example_docs.png");
+  });
+
+  describe("performPageVisit", () => {
+    it("should return a structured result with navigation details", async () => {
+      const { result, screenshots } = await performPageVisit(visitArgs());
+
+      expect(result).toEqual({
+        url: "https://example.com/docs",
+        finalUrl: "https://www.example.com/docs/",
+        status: 200,
+        title: "Example Docs",
+        format: "markdown",
+        content: "# Docs\n\nSome content here",
+        wordCount: 120,
+        byline: "Jane Doe",
+        siteName: "Example",
+        offset: 0,
+        totalLength: 25,
+        timestamp: expect.any(String),
+        cache: expect.objectContaining({ hit: false }),
+      });
+      expect(screenshots).toBeUndefined();
+      expect(browserManager.extractContent).toHaveBeenCalledWith(mockPage, {
+        format: "markdown",
+        includeLinks: true,
+        includeImages: true,
+      });
+    });
+
+    it("should cut the requested chunk and report where to continue", async () => {
+      const { result } = await performPageVisit(visitArgs({ offset: 8, maxLength: 7 }));
+
+      expect(result).toMatchObject({
+        content: "Some ",
+        offset: 8,
+        nextOffset: 13,
+        totalLength: 25,
+      });
+      const stored = (pageCache.set as Mock).mock.calls[0][1] as PageContent;
+      expect(stored.content).toBe("# Docs\n\nSome content here");
+    });
+
+    it("should serve cached pages without loading them", async () => {
+      const cachedPage: PageContent = {
+        finalUrl: "https://example.com/docs",
+        status: 200,
+        title: "Cached Docs",
+        content: "cached content",
+        wordCount: 2,
+        timestamp: "2024-01-01T00:00:00.000Z",
+      };
+      (pageCache.get as Mock).mockResolvedValueOnce({
+        value: cachedPage,
+        storedAt: 0,
+        expiresAt: 1000,
+      });
+
+      const { result } = await performPageVisit(visitArgs());
+
+      expect(result).toMatchObject({
+        title: "Cached Docs",
+        content: "cached content",
+        cache: { hit: true },
+      });
+      expect(browserManager.withPage).not.toHaveBeenCalled();
+    });
+
+    it("should key the cache on extraction options", async () => {
+      await performPageVisit(visitArgs());
+      await performPageVisit(visitArgs({ format: "text" }));
+      await performPageVisit(visitArgs({ offset: 10, maxLength: 5 }));
+
+      const [first, second, third] = (pageCache.get as Mock).mock.calls.map(([key]) => key);
+      expect(second).not.toBe(first);
+      expect(third).toBe(first);
+    });
+
+    it("should take and save a screenshot when requested", async () => {
+      const { result, screenshots } = await performPageVisit(visitArgs({ takeScreenshot: true }));
+
+      expect(pageCache.get).not.toHaveBeenCalled();
+      expect(screenshots).toEqual([{ data: "cG5n", mimeType: "image/png" }]);
+      expect(saveScreenshot).toHaveBeenCalledWith("cG5n", "Example Docs");
+      expect(result.screenshotPath).toBe("/tmp/example_docs.png");
+    });
+
+    it("should include a table of contents for content spanning several chunks", async () => {
+      (browserManager.extractContent as Mock).mockResolvedValue(
+        `# Setup\n\n${"Install it. ".repeat(500)}\n\n# Usage\n\nRun it.`
+      );
+
+      const { result } = await performPageVisit(visitArgs({ maxLength: 1000 }));
+
+      expect(result.toc?.map((entry) => entry.id)).toEqual(["setup", "usage"]);
+      const { result: next } = await performPageVisit(
+        visitArgs({ maxLength: 1000, offset: result.nextOffset })
+      );
+      expect(next.toc).toBeUndefined();
+    });
+
+    it("should rewrite links as references without changing the cached content", async () => {
+      const content = "See [docs](https://example.com/docs) and [docs](https://example.com/docs).";
+      (browserManager.extractContent as Mock).mockResolvedValue(content);
+
+      const { result } = await performPageVisit(visitArgs({ linkStyle: "referenced" }));
+
+      expect(result.content).toBe("See [docs][1] and [docs][1].\n\n[1]: https://example.com/docs");
+      expect(result.totalLength).toBe(content.length);
+      expect(((pageCache.set as Mock).mock.calls[0][1] as PageContent).content).toBe(content);
+    });
+
+    it("should reject invalid arguments", async () => {
+      await expect(performPageVisit(visitArgs({ url: "not-a-url" }))).rejects.toThrow(
+        "Invalid arguments"
+      );
+      expect(browserManager.withPage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("performChunkRead", () => {
+    const markdown = "Intro text\n\n# Setup\n\nInstall it.\n\n# Usage\n\nRun it.";
+
+    beforeEach(() => {
+      (browserManager.extractContent as Mock).mockResolvedValue(markdown);
+    });
+
+    it("should return a chunk from the cached extraction without loading the page", async () => {
+      (pageCache.get as Mock).mockResolvedValueOnce({
+        value: {
+          finalUrl: "https://example.com/docs",
+          status: 200,
+          title: "Docs",
+          content: markdown,
+          wordCount: 8,
+          timestamp: "2024-01-01T00:00:00.000Z",
+        },
+        storedAt: 0,
+        expiresAt: 1000,
+      });
+
+      const { result } = await performChunkRead({
+        url: "https://example.com/docs",
+        chunkId: "setup",
+        includeLinks: true,
+        includeImages: true,
+      });
+
+      expect(result).toEqual({
+        url: "https://example.com/docs",
+        finalUrl: "https://example.com/docs",
+        title: "Docs",
+        chunkId: "setup",
+        path: ["Setup"],
+        content: "# Setup\n\nInstall it.",
+        index: 1,
+        chunkCount: 3,
+        previousChunkId: "intro",
+        nextChunkId: "usage",
+        timestamp: "2024-01-01T00:00:00.000Z",
+        cache: expect.objectContaining({ hit: true }),
+      });
+      expect(browserManager.withPage).not.toHaveBeenCalled();
+    });
+
+    it("should share the cache entry of a markdown visit with the same options", async () => {
+      await performPageVisit(visitArgs({ includeImages: false }));
+      await performChunkRead({
+        url: "https://example.com/docs",
+        chunkId: "usage",
+        includeLinks: true,
+        includeImages: false,
+      });
+
+      const [visitKey, readKey] = (pageCache.get as Mock).mock.calls.map(([key]) => key);
+      expect(readKey).toBe(visitKey);
+    });
+
+    it("should load the page when it is not cached", async () => {
+      const { result } = await performChunkRead({
+        url: "https://example.com/docs",
+        chunkId: "usage",
+        includeLinks: true,
+        includeImages: true,
+      });
+
+      expect(browserManager.extractContent).toHaveBeenCalledWith(
+        mockPage,
+        expect.objectContaining({ format: "markdown" })
+      );
+      expect(result.content).toBe("# Usage\n\nRun it.");
+      expect(result.nextChunkId).toBeUndefined();
+    });
+
+    it("should reject unknown chunk IDs", async () => {
+      const read = performChunkRead({
+        url: "https://example.com/docs",
+        chunkId: "missing",
+        includeLinks: true,
+        includeImages: true,
+      });
+
+      await expect(read).rejects.toThrow(McpError);
+      await expect(read).rejects.toThrow("the page has chunks: intro, setup, usage");
+    });
+  });
+
+  describe("performTableExtraction", () => {
+    beforeEach(() => {
+      vi.spyOn(browserManager, "extractTables").mockResolvedValue([
+        {
+          caption: "Plans",
+          headRowCount: 1,
+          rows: [
+            [
+              { text: "Plan", header: true, colspan: 1, rowspan: 1 },
+              { text: "Price", header: true, colspan: 1, rowspan: 1 },
+            ],
+            [
+              { text: "Pro", header: false, colspan: 1, rowspan: 1 },
+              { text: "$10, monthly", header: false, colspan: 1, rowspan: 1 },
+            ],
+          ],
+        },
+        { headRowCount: 0, rows: [[{ text: "", header: false, colspan: 1, rowspan: 1 }]] },
+      ]);
+    });
+
+    it("should return tables as JSON rows keyed by column", async () => {
+      const result = await performTableExtraction({
+        url: "https://example.com/pricing",
+        selector: "#plans",
+        format: "json",
+      });
+
+      expect(result).toEqual({
+        url: "https://example.com/pricing",
+        finalUrl: "https://www.example.com/docs/",
+        title: "Example Docs",
+        format: "json",
+        tables: [
+          {
+            index: 0,
+            caption: "Plans",
+            columns: ["Plan", "Price"],
+            rowCount: 1,
+            rows: [{ Plan: "Pro", Price: "$10, monthly" }],
+          },
+        ],
+        timestamp: expect.any(String),
+      });
+      expect(browserManager.extractTables).toHaveBeenCalledWith(mockPage, "#plans");
+    });
+
+    it("should return tables as CSV", async () => {
+      const result = await performTableExtraction({
+        url: "https://example.com/pricing",
+        format: "csv",
+      });
+
+      expect(result.tables[0].csv).toBe('Plan,Price\r\nPro,"$10, monthly"');
+      expect(result.tables[0].rows).toBeUndefined();
+    });
+  });
+
+  describe("performLinkExtraction", () => {
+    beforeEach(() => {
+      vi.spyOn(browserManager, "extractLinks").mockResolvedValue({
+        baseUrl: "https://www.example.com/docs/",
+        links: [
+          { href: "setup", text: "Setup", rel: "", section: "Install" },
+          { href: "https://github.com/example", text: "GitHub", rel: "", section: "" },
+          { href: "setup#linux", text: "Linux", rel: "", section: "Install" },
+        ],
+        headings: [{ level: 2, text: "Install", id: "install" }],
+      });
+    });
+
+    it("should resolve links against the final URL and return the outline", async () => {
+      const result = await performLinkExtraction({ url: "https://example.com/docs" });
+
+      expect(result).toEqual({
+        url: "https://example.com/docs",
+        finalUrl: "https://www.example.com/docs/",
+        title: "Example Docs",
+        internalCount: 1,
+        externalCount: 1,
+        links: [
+          {
+            url: "https://www.example.com/docs/setup",
+            text: "Setup",
+            type: "internal",
+            section: "Install",
+            count: 2,
+          },
+          { url: "https://github.com/example", text: "GitHub", type: "external", count: 1 },
+        ],
+        outline: [{ level: 2, text: "Install", anchor: "https://www.example.com/docs/#install" }],
+        timestamp: expect.any(String),
+      });
+    });
+
+    it("should filter links by type", async () => {
+      const result = await performLinkExtraction({
+        url: "https://example.com/docs",
+        selector: "main",
+        type: "external",
+      });
+
+      expect(result.links.map((link) => link.url)).toEqual(["https://github.com/example"]);
+      expect(result.internalCount).toBe(1);
+      expect(browserManager.extractLinks).toHaveBeenCalledWith(mockPage, "main");
+    });
+  });
+
+  describe("performScreenshot", () => {
+    beforeEach(() => {
+      (mockPage.url as Mock).mockReturnValue("https://www.example.com/docs/");
+      (mockPage.title as Mock).mockResolvedValue("Example Docs");
+    });
+
+    it("should load the URL and capture it with the given options", async () => {
+      const { result, images } = await performScreenshot({
+        url: "https://example.com/docs",
+        fullPage: true,
+        format: "jpeg",
+        quality: 60,
+      });
+
+      expect(browserManager.safePageNavigation).toHaveBeenCalledWith(
+        mockPage,
+        "https://example.com/docs"
+      );
+      expect(browserManager.takeScreenshotWithSizeLimit).toHaveBeenCalledWith(mockPage, {
+        fullPage: true,
+        format: "jpeg",
+        quality: 60,
+      });
+      expect(result).toEqual({
+        url: "https://www.example.com/docs/",
+        title: "Example Docs",
+        format: "jpeg",
+        imageCount: 1,
+      });
+      expect(images).toEqual([{ data: "cG5n", mimeType: "image/png" }]);
+    });
+
+    it("should list the regions of tiles", async () => {
+      const clip = (y: number) => ({ x: 0, y, width: 1600, height: 900 });
+      (browserManager.takeScreenshotWithSizeLimit as Mock).mockResolvedValue([
+        { data: "YQ==", mimeType: "image/png", clip: clip(0) },
+        { data: "Yg==", mimeType: "image/png", clip: clip(900) },
+      ]);
+
+      const { result } = await performScreenshot({ fullPage: true, format: "png" });
+
+      expect(browserManager.safePageNavigation).not.toHaveBeenCalled();
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        current: true,
+      });
+      expect(result.tiles).toEqual([clip(0), clip(900)]);
+    });
+
+    it("should report the scroll offsets of tiled segments", async () => {
+      (browserManager.takeScreenshotWithSizeLimit as Mock).mockResolvedValue([
+        { data: "YQ==", mimeType: "image/png", scrollY: 0 },
+        { data: "Yg==", mimeType: "image/png", scrollY: 900 },
+      ]);
+
+      const { result } = await performScreenshot({ fullPage: false, format: "png", tiled: true });
+
+      expect(result.scrollOffsets).toEqual([0, 900]);
+    });
+
+    it("should report tiled captures that stop before the end of the page", async () => {
+      const segment = (scrollY: number) => ({
+        data: "YQ==",
+        mimeType: "image/png",
+        scrollY,
+        clip: { x: 0, y: scrollY, width: 1600, height: 900 },
+        pageHeight: 1800,
+      });
+      const takeScreenshot = browserManager.takeScreenshotWithSizeLimit as Mock;
+      takeScreenshot.mockResolvedValueOnce([segment(0)]);
+      takeScreenshot.mockResolvedValueOnce([segment(0), segment(900)]);
+
+      const truncated = await performScreenshot({ fullPage: false, format: "png", tiled: true });
+      const complete = await performScreenshot({ fullPage: false, format: "png", tiled: true });
+
+      expect(truncated.result).toMatchObject({ pageHeight: 1800, truncated: true });
+      expect(complete.result.pageHeight).toBe(1800);
+      expect(complete.result.truncated).toBeUndefined();
+    });
+
+    it("should refuse to capture a blank page", async () => {
+      (mockPage.url as Mock).mockReturnValue("about:blank");
+
+      await expect(performScreenshot({ fullPage: false, format: "png" })).rejects.toThrow(McpError);
+      expect(browserManager.takeScreenshotWithSizeLimit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sessions", () => {
+    it("should run page work in the given session without using the cache", async () => {
+      await performPageVisit(visitArgs({ sessionId: "docs" }));
+
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        sessionId: "docs",
+      });
+      expect(pageCache.get).not.toHaveBeenCalled();
+      expect(pageCache.set).not.toHaveBeenCalled();
+    });
+
+    it("should capture the session's page when no URL is given", async () => {
+      (mockPage.url as Mock).mockReturnValue("https://www.example.com/docs/");
+
+      await performScreenshot({ fullPage: false, format: "png", sessionId: "docs" });
+
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        sessionId: "docs",
+        current: true,
+      });
+    });
+
+    it("should list sessions with the session limit", async () => {
+      const session = {
+        sessionId: "docs",
+        url: "https://example.com/",
+        title: "Example",
+        busy: false,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        lastUsedAt: "2024-01-01T00:00:00.000Z",
+      };
+      vi.spyOn(browserManager, "listSessions").mockResolvedValue([session]);
+
+      expect(await performSessionList()).toEqual({
+        sessions: [session],
+        maxSessions: expect.any(Number),
+      });
+    });
+
+    it("should reject closing an unknown session", async () => {
+      vi.spyOn(browserManager, "closeSession").mockResolvedValue(false);
+
+      await expect(performSessionClose({ sessionId: "missing" })).rejects.toThrow(McpError);
+    });
+
+    it("should reject invalid session IDs", async () => {
+      await expect(performPageVisit(visitArgs({ sessionId: "a b" }))).rejects.toThrow(
+        "Invalid arguments"
+      );
+    });
+  });
+
+  describe("interactions", () => {
+    beforeEach(() => {
+      (mockPage.url as Mock).mockReturnValue("https://example.com/");
+      vi.spyOn(browserManager, "waitForSettle").mockResolvedValue();
+      vi.spyOn(browserManager, "readPageState")
+        .mockResolvedValueOnce({
+          url: "https://example.com/",
+          title: "Example",
+          text: "Accept cookies\nNews",
+          scrollY: 0,
+        })
+        .mockResolvedValueOnce({
+          url: "https://example.com/",
+          title: "Example",
+          text: "News",
+          scrollY: 0,
+        });
+    });
+
+    it("should act on the current page and report what changed", async () => {
+      vi.spyOn(browserManager, "click").mockResolvedValue();
+
+      const result = await performClick({ text: "Accept" });
+
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        current: true,
+      });
+      expect(browserManager.click).toHaveBeenCalledWith(mockPage, { text: "Accept" });
+      expect(browserManager.waitForSettle).toHaveBeenCalledWith(mockPage);
+      expect(result).toEqual({
+        action: "click",
+        url: "https://example.com/",
+        title: "Example",
+        changes: {
+          addedLines: [],
+          removedLines: ["Accept cookies"],
+          addedCount: 0,
+          removedCount: 1,
+          summary: "1 line removed",
+        },
+        timestamp: expect.any(String),
+      });
+    });
+
+    it("should load a page visited from the cache before acting on it", async () => {
+      (pageCache.get as Mock).mockResolvedValueOnce({
+        value: {
+          finalUrl: "https://example.com/docs",
+          status: 200,
+          title: "Cached Docs",
+          content: "cached content",
+          timestamp: "2024-01-01T00:00:00.000Z",
+        },
+        storedAt: 0,
+        expiresAt: 1000,
+      });
+      // Use the real page pool, opening mockPage for every new page
+      (browserManager.withPage as Mock).mockRestore();
+      vi.spyOn(
+        browserManager as unknown as { openPage: () => Promise<Page> },
+        "openPage"
+      ).mockResolvedValue(mockPage);
+      vi.spyOn(browserManager, "click").mockResolvedValue();
+      browserManager.resetBrowser();
+
+      await performPageVisit(visitArgs());
+      expect(browserManager.safePageNavigation).not.toHaveBeenCalled();
+      await performClick({ text: "Accept" });
+
+      expect(browserManager.safePageNavigation).toHaveBeenCalledWith(
+        mockPage,
+        "https://example.com/docs"
+      );
+      expect((browserManager.safePageNavigation as Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (browserManager.click as Mock).mock.invocationCallOrder[0]
+      );
+    });
+
+    it("should report the selected values", async () => {
+      vi.spyOn(browserManager, "selectOption").mockResolvedValue(["newest"]);
+
+      const result = await performSelectOption({
+        selector: "#sort",
+        values: ["Newest"],
+        sessionId: "shop",
+      });
+
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        sessionId: "shop",
+        current: true,
+      });
+      expect(result.selected).toEqual(["newest"]);
+    });
+
+    it("should require exactly one of selector, text and ref", async () => {
+      await expect(performClick({})).rejects.toThrow("Pass one of selector, text or ref");
+      await expect(performClick({ selector: "a", ref: "e1" })).rejects.toThrow(
+        "Pass one of selector, text or ref"
+      );
+    });
+
+    it("should pass refs on as targets", async () => {
+      vi.spyOn(browserManager, "click").mockResolvedValue();
+
+      await performClick({ ref: "e3" });
+
+      expect(browserManager.click).toHaveBeenCalledWith(mockPage, { ref: "e3" });
+    });
+
+    it("should refuse to act on a blank page", async () => {
+      (mockPage.url as Mock).mockReturnValue("about:blank");
+      vi.spyOn(browserManager, "click").mockResolvedValue();
+
+      await expect(performClick({ text: "Accept" })).rejects.toThrow(McpError);
+      expect(browserManager.click).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("performPageSnapshot", () => {
+    beforeEach(() => {
+      (mockPage.url as Mock).mockReturnValue("https://example.com/");
+      (mockPage.title as Mock).mockResolvedValue("Example");
+      vi.spyOn(browserManager, "snapshotPage").mockResolvedValue({
+        outline: '- button "Accept all" [ref=e1]',
+        refCount: 1,
+      });
+    });
+
+    it("should snapshot the current page", async () => {
+      const { result, snapshot } = await performPageSnapshot({
+        interactiveOnly: true,
+        sessionId: "shop",
+      });
+
+      expect(browserManager.withPage).toHaveBeenCalledWith(expect.any(Function), {
+        sessionId: "shop",
+        current: true,
+      });
+      expect(browserManager.snapshotPage).toHaveBeenCalledWith(mockPage, true);
+      expect(result).toEqual({
+        url: "https://example.com/",
+        title: "Example",
+        refCount: 1,
+        timestamp: expect.any(String),
+      });
+      expect(snapshot).toBe('- button "Accept all" [ref=e1]');
+    });
+
+    it("should refuse to snapshot a blank page", async () => {
+      (mockPage.url as Mock).mockReturnValue("about:blank");
+
+      await expect(performPageSnapshot({ interactiveOnly: false })).rejects.toThrow(McpError);
+      expect(browserManager.snapshotPage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,16 +1,33 @@
 import { McpError } from "@modelcontextprotocol/sdk/types.js";
-import { SafeSearchType, search } from "duck-duck-scrape";
+import { SafeSearchType, search, searchImages, searchNews, searchVideos } from "duck-duck-scrape";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { Mock } from "vitest";
-import { performSearch } from "../../src/search.js";
-import type { SearchArgs } from "../../src/types.js";
+import { searchCache } from "../../src/cache.js";
+import { RateLimitError, searchRateLimiter } from "../../src/ratelimit.js";
+import {
+  RRF_K,
+  performBatchSearch,
+  performImageSearch,
+  performNewsSearch,
+  performSearch,
+  performVideoSearch,
+} from "../../src/search.js";
+import type { BatchSearchArgs, NewsSearchArgs, SearchArgs } from "../../src/types.js";
 
 // Create a typed mock for search
 const mockSearch = search as unknown as Mock<typeof search>;
+const mockSearchNews = searchNews as unknown as Mock<typeof searchNews>;
+const mockSearchImages = searchImages as unknown as Mock<typeof searchImages>;
+const mockSearchVideos = searchVideos as unknown as Mock<typeof searchVideos>;
+const mockFetch = vi.fn<typeof fetch>();
 
 // Mock duck-duck-scrape
-vi.mock("duck-duck-scrape", () => ({
+vi.mock("duck-duck-scrape", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("duck-duck-scrape")>()),
   search: vi.fn(),
+  searchNews: vi.fn(),
+  searchImages: vi.fn(),
+  searchVideos: vi.fn(),
   SafeSearchType: {
     OFF: "OFF",
     MODERATE: "MODERATE",
@@ -21,6 +38,17 @@ vi.mock("duck-duck-scrape", () => ({
 describe("search", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Keep tests off the real on-disk cache
+    vi.spyOn(searchCache, "get").mockResolvedValue(undefined);
+    vi.spyOn(searchCache, "set").mockImplementation(async (_key, value) => ({
+      value,
+      storedAt: 0,
+      expiresAt: 1000,
+    }));
+    vi.spyOn(searchRateLimiter, "acquire").mockResolvedValue(undefined);
+    // Instant answer lookups return an empty answer unless a test overrides it
+    mockFetch.mockImplementation(async () => new Response("{}"));
+    vi.stubGlobal("fetch", mockFetch);
   });
 
   const mockSearchResult = {
@@ -62,16 +90,16 @@ describe("search", () => {
     });
 
     expect(search).toHaveBeenCalledWith("test query", {
-      region: "zh-cn",
+      region: "wt-wt",
       safeSearch: SafeSearchType.MODERATE,
-      numResults: 50,
+      offset: 0,
     });
 
     expect(result.type).toBe("search_results");
     expect(result.data).toHaveLength(3);
     expect(result.metadata.query).toBe("test query");
     expect(result.metadata.searchContext).toEqual({
-      region: "zh-cn",
+      region: "wt-wt",
       safeSearch: SafeSearchType.MODERATE,
       numResults: 50,
     });
@@ -92,7 +120,7 @@ describe("search", () => {
     expect(search).toHaveBeenCalledWith("test query", {
       region: "us-en",
       safeSearch: SafeSearchType.STRICT,
-      numResults: 25,
+      offset: 0,
     });
 
     expect(result.metadata.searchContext).toEqual({
@@ -108,7 +136,7 @@ describe("search", () => {
     const result = await performSearch({ query: "test query" });
 
     expect(result.data[0].metadata.type).toBe("documentation"); // docs.example.com
-    expect(result.data[1].metadata.type).toBe("documentation"); // github.com
+    expect(result.data[1].metadata.type).toBe("code_repository"); // github.com
     expect(result.data[2].metadata.type).toBe("social"); // twitter.com
   });
 
@@ -129,6 +157,13 @@ describe("search", () => {
     ).rejects.toThrow();
   });
 
+  it("should reject unknown regions", async () => {
+    await expect(
+      performSearch({ query: "test query", options: { region: "zh-cn" } } as SearchArgs)
+    ).rejects.toThrow(/Unknown region .*zh-cn.*; expected one of: .*cn-zh/);
+    expect(search).not.toHaveBeenCalled();
+  });
+
   it("should detect language based on query", async () => {
     mockSearch.mockResolvedValue(mockSearchResult);
 
@@ -136,37 +171,698 @@ describe("search", () => {
     let result = await performSearch({ query: "test query" });
     expect(result.metadata.queryAnalysis.language).toBe("en");
 
-    // Chinese query (contains hyphen)
-    result = await performSearch({ query: "测试-查询" });
-    expect(result.metadata.queryAnalysis.language).toBe("zh-cn");
+    // Chinese query
+    result = await performSearch({ query: "测试查询" });
+    expect(result.metadata.queryAnalysis.language).toBe("zh");
+    expect(result.metadata.queryAnalysis.languageConfidence).toBe(1);
+
+    // Hyphenated English query
+    result = await performSearch({ query: "state-of-the-art compilers" });
+    expect(result.metadata.queryAnalysis.language).toBe("en");
+  });
+
+  it("should pick a region from the query language when autoRegion is set", async () => {
+    mockSearch.mockResolvedValue(mockSearchResult);
+
+    const result = await performSearch({
+      query: "wie funktioniert der compiler",
+      options: { autoRegion: true } as SearchArgs["options"],
+    });
+
+    expect(search).toHaveBeenCalledWith("wie funktioniert der compiler", {
+      region: "de-de",
+      safeSearch: SafeSearchType.MODERATE,
+      offset: 0,
+    });
+    expect(result.metadata.searchContext.region).toBe("de-de");
+    expect(result.metadata.searchContext.regionAutoDetected).toBe(true);
+  });
+
+  it("should keep an explicit region when autoRegion is set", async () => {
+    mockSearch.mockResolvedValue(mockSearchResult);
+
+    const result = await performSearch({
+      query: "wie funktioniert der compiler",
+      options: { region: "us-en", autoRegion: true } as SearchArgs["options"],
+    });
+
+    expect(result.metadata.searchContext.region).toBe("us-en");
+    expect(result.metadata.searchContext.regionAutoDetected).toBeUndefined();
   });
 
-  it("should detect topics from results", async () => {
+  it("should extract topics and cluster results", async () => {
+    const makeResult = (slug: string, title: string, description: string) => ({
+      title,
+      url: `https://example.com/${slug}`,
+      description,
+      hostname: "example.com",
+      rawDescription: description,
+      icon: "",
+    });
     mockSearch.mockResolvedValue({
       results: [
+        makeResult("1", "Vitest configuration guide", "Configure coverage reports in Vitest."),
+        makeResult(
+          "2",
+          "Migrating from Mocha to Jest",
+          "Jest migration steps and snapshot support."
+        ),
+        makeResult(
+          "3",
+          "Vitest coverage with v8",
+          "Collect coverage reports using the v8 provider."
+        ),
+        makeResult("4", "Jest snapshot testing", "Snapshot files explained for Jest users."),
+        makeResult("5", "Testing library overview", "Overview of the testing library ecosystem."),
+      ],
+      noResults: false,
+      vqd: "3-0",
+    });
+
+    const result = await performSearch({ query: "javascript testing" });
+
+    expect(result.metadata.queryAnalysis.topics).toEqual(
+      expect.arrayContaining(["vitest", "jest", "coverage reports"])
+    );
+    expect(result.data.map((r) => r.cluster)).toEqual([
+      "vitest",
+      "jest",
+      "vitest",
+      "jest",
+      "other",
+    ]);
+    expect(
+      Object.fromEntries(
+        result.metadata.queryAnalysis.clusters.map((c) => [c.label, c.resultCount])
+      )
+    ).toEqual({ vitest: 2, jest: 2, other: 1 });
+  });
+
+  describe("pagination", () => {
+    const makePage = (start: number, count: number) => ({
+      results: Array.from({ length: count }, (_, i) => ({
+        title: `Result ${start + i}`,
+        url: `https://example.com/${start + i}`,
+        description: `Description ${start + i}`,
+        hostname: "example.com",
+        rawDescription: `Description ${start + i}`,
+        icon: "",
+      })),
+      noResults: false,
+      vqd: "3-123-456",
+    });
+
+    const pageOptions = (numResults: number) => ({
+      region: "us-en",
+      safeSearch: SafeSearchType.MODERATE,
+      numResults,
+    });
+
+    it("should fetch further pages until numResults is reached", async () => {
+      mockSearch.mockResolvedValueOnce(makePage(0, 3)).mockResolvedValueOnce(makePage(3, 3));
+
+      const result = await performSearch({ query: "test query", options: pageOptions(5) });
+
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(mockSearch.mock.calls[1][1]).toMatchObject({ offset: 3, vqd: "3-123-456" });
+      expect(result.data).toHaveLength(5);
+      expect(result.metadata.nextCursor).toBeDefined();
+    });
+
+    it("should resume from a cursor without re-issuing the query", async () => {
+      mockSearch.mockResolvedValueOnce(makePage(0, 3));
+      const first = await performSearch({ query: "test query", options: pageOptions(2) });
+
+      mockSearch.mockResolvedValueOnce(makePage(2, 3));
+      const second = await performSearch({
+        query: "test query",
+        options: pageOptions(2),
+        cursor: first.metadata.nextCursor,
+      } as SearchArgs);
+
+      expect(mockSearch.mock.calls[1][1]).toMatchObject({ offset: 2, vqd: "3-123-456" });
+      expect(second.data.map((r) => r.url)).toEqual([
+        "https://example.com/2",
+        "https://example.com/3",
+      ]);
+    });
+
+    it("should omit nextCursor when results are exhausted", async () => {
+      mockSearch
+        .mockResolvedValueOnce(makePage(0, 2))
+        .mockResolvedValueOnce({ results: [], noResults: true, vqd: "3-123-456" });
+
+      const result = await performSearch({ query: "test query", options: pageOptions(10) });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata.nextCursor).toBeUndefined();
+    });
+
+    it("should reject malformed cursors and cursors for other queries", async () => {
+      await expect(
+        performSearch({ query: "test query", cursor: "not-a-cursor" } as SearchArgs)
+      ).rejects.toThrow("Invalid cursor");
+
+      mockSearch.mockResolvedValueOnce(makePage(0, 3));
+      const first = await performSearch({ query: "test query", options: pageOptions(2) });
+
+      await expect(
+        performSearch({ query: "other query", cursor: first.metadata.nextCursor } as SearchArgs)
+      ).rejects.toThrow("different query");
+    });
+  });
+
+  describe("vertical searches", () => {
+    it("should map news results with publish date and source", async () => {
+      mockSearchNews.mockResolvedValueOnce({
+        noResults: false,
+        vqd: "3-1-1",
+        results: [
+          {
+            date: 1700000000,
+            excerpt: " TypeScript 5.3 is out ",
+            image: "https://img.example.com/ts.png",
+            relativeTime: "2 hours ago",
+            syndicate: "Example News",
+            title: "TypeScript 5.3 released",
+            url: "https://news.example.com/ts",
+            isOld: false,
+          },
+        ],
+      });
+      mockSearchNews.mockResolvedValueOnce({ noResults: true, vqd: "3-1-1", results: [] });
+
+      const result = await performNewsSearch({ query: "typescript" } as NewsSearchArgs);
+
+      expect(searchNews).toHaveBeenCalledWith(
+        "typescript",
+        expect.objectContaining({ locale: "wt-wt", offset: 0 })
+      );
+      expect(result.type).toBe("news_results");
+      expect(result.data[0]).toEqual({
+        title: "TypeScript 5.3 released",
+        url: "https://news.example.com/ts",
+        excerpt: "TypeScript 5.3 is out",
+        source: "Example News",
+        publishedAt: new Date(1700000000 * 1000).toISOString(),
+        relativeTime: "2 hours ago",
+        thumbnail: "https://img.example.com/ts.png",
+      });
+      expect(result.metadata.nextCursor).toBeUndefined();
+    });
+
+    it("should map image results with dimensions", async () => {
+      mockSearchImages.mockResolvedValueOnce({
+        noResults: false,
+        vqd: "3-1-1",
+        results: [
+          {
+            height: 600,
+            width: 800,
+            image: "https://img.example.com/full.png",
+            thumbnail: "https://img.example.com/thumb.png",
+            source: "Bing",
+            title: "TypeScript logo",
+            url: "https://example.com/logo",
+          },
+        ],
+      });
+
+      const result = await performImageSearch({
+        query: "typescript logo",
+        options: { region: "us-en", safeSearch: SafeSearchType.MODERATE, numResults: 1 },
+      });
+
+      expect(result.type).toBe("image_results");
+      expect(result.data[0]).toMatchObject({
+        imageUrl: "https://img.example.com/full.png",
+        thumbnail: "https://img.example.com/thumb.png",
+        width: 800,
+        height: 600,
+      });
+      expect(result.metadata.nextCursor).toBeDefined();
+    });
+
+    it("should map video results with duration and publisher", async () => {
+      mockSearchVideos.mockResolvedValueOnce({
+        noResults: false,
+        vqd: "3-1-1",
+        results: [
+          {
+            url: "https://video.example.com/1",
+            title: "TypeScript in 100 seconds",
+            description: "A quick intro",
+            image: "https://img.example.com/v1.jpg",
+            duration: "1:40",
+            published: "2024-01-01T00:00:00.000Z",
+            publishedOn: "YouTube",
+            publisher: "Example Channel",
+            viewCount: 1000,
+          },
+        ],
+      });
+
+      const result = await performVideoSearch({
+        query: "typescript tutorial",
+        options: { region: "us-en", safeSearch: SafeSearchType.MODERATE, numResults: 1 },
+      });
+
+      expect(result.type).toBe("video_results");
+      expect(result.data[0]).toMatchObject({
+        duration: "1:40",
+        platform: "YouTube",
+        publisher: "Example Channel",
+        thumbnail: "https://img.example.com/v1.jpg",
+        viewCount: 1000,
+      });
+    });
+
+    it("should surface persistent rate limiting as a RateLimitError", async () => {
+      vi.useFakeTimers();
+      mockSearchNews.mockRejectedValue(new Error("DDG detected an anomaly in the request"));
+
+      const promise = performNewsSearch({ query: "typescript" } as NewsSearchArgs);
+      const assertion = expect(promise).rejects.toBeInstanceOf(RateLimitError);
+      await vi.runAllTimersAsync();
+      await assertion;
+
+      mockSearchNews.mockReset();
+      vi.useRealTimers();
+    });
+
+    it("should wrap vertical search errors", async () => {
+      mockSearchNews.mockRejectedValueOnce(new Error("boom"));
+
+      await expect(performNewsSearch({ query: "typescript" } as NewsSearchArgs)).rejects.toThrow(
+        "Search failed: boom"
+      );
+    });
+  });
+
+  describe("filters", () => {
+    const filterOptions = {
+      region: "us-en",
+      safeSearch: SafeSearchType.MODERATE,
+      numResults: 3,
+    };
+
+    it("should translate site, filetype and phrase filters into query operators", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+
+      const result = await performSearch({
+        query: "typescript",
+        options: {
+          ...filterOptions,
+          site: "TypeScriptLang.org",
+          excludeSites: ["w3schools.com"],
+          filetype: "pdf",
+          exactPhrase: "strict mode",
+        },
+      });
+
+      const expectedQuery =
+        'typescript "strict mode" site:typescriptlang.org -site:w3schools.com filetype:pdf';
+      expect(search).toHaveBeenCalledWith(expectedQuery, expect.objectContaining({ offset: 0 }));
+      expect(result.metadata.query).toBe("typescript");
+      expect(result.metadata.searchContext.effectiveQuery).toBe(expectedQuery);
+      expect(result.metadata.searchContext.filters).toEqual({
+        site: "typescriptlang.org",
+        excludeSites: ["w3schools.com"],
+        filetype: "pdf",
+        exactPhrase: "strict mode",
+      });
+    });
+
+    it("should translate predefined and custom time ranges", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+
+      await performSearch({
+        query: "typescript",
+        options: { ...filterOptions, timeRange: "week" },
+      });
+      expect(search).toHaveBeenLastCalledWith("typescript", expect.objectContaining({ time: "w" }));
+
+      const result = await performSearch({
+        query: "typescript",
+        options: {
+          ...filterOptions,
+          timeRange: "custom",
+          dateFrom: "2024-01-01",
+          dateTo: "2024-03-31",
+        },
+      });
+      expect(search).toHaveBeenLastCalledWith(
+        "typescript",
+        expect.objectContaining({ time: "2024-01-01..2024-03-31" })
+      );
+      expect(result.metadata.searchContext.filters).toEqual({
+        timeRange: "custom",
+        dateFrom: "2024-01-01",
+        dateTo: "2024-03-31",
+      });
+    });
+
+    it("should filter by content type and keep paging for matching results", async () => {
+      mockSearch.mockResolvedValueOnce(mockSearchResult).mockResolvedValueOnce({
+        results: [
+          {
+            title: "GitLab - Example/Other",
+            url: "https://gitlab.com/example/other",
+            description: "Another repository",
+            hostname: "gitlab.com",
+            rawDescription: "Another repository",
+            icon: "",
+          },
+        ],
+        noResults: false,
+        vqd: "3-0",
+      });
+
+      const result = await performSearch({
+        query: "typescript",
+        options: { ...filterOptions, numResults: 2, contentTypes: ["code_repository"] },
+      });
+
+      expect(search).toHaveBeenCalledTimes(2);
+      expect(search).toHaveBeenLastCalledWith("typescript", expect.objectContaining({ offset: 3 }));
+      expect(result.data.map((r) => r.url)).toEqual([
+        "https://github.com/example/project",
+        "https://gitlab.com/example/other",
+      ]);
+      expect(result.metadata.searchContext.filters).toEqual({ contentTypes: ["code_repository"] });
+    });
+
+    it("should reject incomplete custom time ranges", async () => {
+      await expect(
+        performSearch({ query: "typescript", options: { ...filterOptions, timeRange: "custom" } })
+      ).rejects.toThrow("requires both dateFrom and dateTo");
+    });
+  });
+
+  describe("de-duplication", () => {
+    it("should merge duplicates by canonical URL while paging", async () => {
+      const makeResult = (url: string, title: string, description: string) => ({
+        title,
+        url,
+        description,
+        hostname: new URL(url).hostname,
+        rawDescription: description,
+        icon: "",
+      });
+      mockSearch
+        .mockResolvedValueOnce({
+          results: [
+            makeResult("https://example.com/a?utm_source=ddg", "Page A", "About alpha"),
+            makeResult("http://www.example.com/a", "Page A (www)", "About alpha again"),
+            makeResult(
+              "https://www.google.com/amp/s/blog.example.com/b.amp",
+              "Beta explained in depth",
+              "Everything about beta in one long article"
+            ),
+          ],
+          noResults: false,
+          vqd: "3-0",
+        })
+        .mockResolvedValueOnce({
+          results: [
+            makeResult(
+              "https://syndicated.example.net/b",
+              "Beta explained in depth",
+              "Everything about beta in one long article"
+            ),
+            makeResult("https://example.com/c", "Page C", "About gamma"),
+          ],
+          noResults: false,
+          vqd: "3-0",
+        });
+
+      const result = await performSearch({
+        query: "test query",
+        options: { region: "us-en", safeSearch: SafeSearchType.MODERATE, numResults: 3 },
+      });
+
+      // Results keep the URLs DuckDuckGo returned
+      expect(result.data.map((r) => r.url)).toEqual([
+        "https://example.com/a?utm_source=ddg",
+        "https://www.google.com/amp/s/blog.example.com/b.amp",
+        "https://example.com/c",
+      ]);
+      expect(result.metadata.duplicatesMerged).toBe(2);
+      expect(result.metadata.resultCount).toBe(3);
+    });
+  });
+
+  describe("batch search", () => {
+    const makePage = (urls: string[]) => ({
+      results: urls.map((url) => ({
+        title: `Title of ${url}`,
+        url,
+        description: `Description of ${url}`,
+        hostname: new URL(url).hostname,
+        rawDescription: `Description of ${url}`,
+        icon: "",
+      })),
+      noResults: false,
+      vqd: "3-0",
+    });
+
+    it("should fuse results across queries by reciprocal rank", async () => {
+      mockSearch.mockImplementation(async (query) =>
+        query === "first"
+          ? makePage(["https://a.example.com/", "https://b.example.com/"])
+          : makePage(["https://b.example.com/?utm_source=x", "https://c.example.com/"])
+      );
+
+      const result = await performBatchSearch({
+        queries: ["first", "second"],
+        options: { numResults: 2 },
+      });
+
+      expect(result.type).toBe("batch_search_results");
+      expect(result.queries.map((q) => q.query)).toEqual(["first", "second"]);
+      expect(result.queries[0].response?.data).toHaveLength(2);
+      expect(result.merged.map((r) => [r.url, r.queries])).toEqual([
+        ["https://b.example.com/", ["first", "second"]],
+        ["https://a.example.com/", ["first"]],
+        ["https://c.example.com/", ["second"]],
+      ]);
+      expect(result.merged[0].score).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1), 6);
+      expect(result.merged[1].score).toBeCloseTo(1 / (RRF_K + 1), 6);
+      expect(result.merged[0]).not.toHaveProperty("cluster");
+      expect(result.metadata).toMatchObject({
+        queryCount: 2,
+        failedCount: 0,
+        resultCount: 3,
+        duplicatesMerged: 1,
+        fusion: { method: "reciprocal_rank_fusion", k: RRF_K },
+      });
+    });
+
+    it("should let per-query options override shared ones", async () => {
+      mockSearch.mockResolvedValue(makePage(["https://a.example.com/"]));
+
+      await performBatchSearch({
+        queries: ["first", { query: "second", options: { region: "de-de" } }],
+        options: { region: "us-en", safeSearch: SafeSearchType.STRICT },
+      });
+
+      expect(search).toHaveBeenCalledWith("first", {
+        region: "us-en",
+        safeSearch: SafeSearchType.STRICT,
+        offset: 0,
+      });
+      expect(search).toHaveBeenCalledWith("second", {
+        region: "de-de",
+        safeSearch: SafeSearchType.STRICT,
+        offset: 0,
+      });
+    });
+
+    it("should report failed queries without failing the batch", async () => {
+      mockSearch.mockImplementation(async (query) => {
+        if (query === "broken") throw new Error("boom");
+        return makePage(["https://a.example.com/"]);
+      });
+
+      const result = await performBatchSearch({ queries: ["broken", "working"] });
+
+      expect(result.queries[0]).toEqual({
+        query: "broken",
+        error: { message: "Search failed: boom" },
+      });
+      expect(result.queries[1].response?.data).toHaveLength(1);
+      expect(result.metadata.failedCount).toBe(1);
+      expect(result.merged.map((r) => r.queries)).toEqual([["working"]]);
+    });
+
+    it("should throw when every query fails", async () => {
+      mockSearch.mockRejectedValue(new Error("boom"));
+
+      await expect(performBatchSearch({ queries: ["one", "two"] })).rejects.toThrow(
+        "Search failed: boom"
+      );
+    });
+
+    it("should reject invalid batches", async () => {
+      await expect(performBatchSearch({ queries: [] })).rejects.toThrow("Invalid arguments");
+      await expect(
+        performBatchSearch({ queries: ["one"], concurrency: 10 } as BatchSearchArgs)
+      ).rejects.toThrow("Invalid arguments");
+      expect(search).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("caching", () => {
+    it("should serve repeated searches from the cache", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+      const fresh = await performSearch({ query: "test query" });
+      expect(fresh.metadata.cache?.hit).toBe(false);
+
+      const [key, stored] = (searchCache.set as Mock).mock.calls[0];
+      (searchCache.get as Mock).mockResolvedValueOnce({
+        value: stored,
+        storedAt: 0,
+        expiresAt: 1000,
+      });
+      mockSearch.mockClear();
+
+      const cached = await performSearch({ query: "  Test   Query " });
+
+      expect(searchCache.get).toHaveBeenLastCalledWith(key);
+      expect(search).not.toHaveBeenCalled();
+      expect(cached.data).toEqual(fresh.data);
+      expect(cached.metadata.cache?.hit).toBe(true);
+    });
+
+    it("should cache responses with and without instant answers separately", async () => {
+      const entries = new Map<string, unknown>();
+      (searchCache.set as Mock).mockImplementation(async (key, value) => {
+        entries.set(key, value);
+        return { value, storedAt: 0, expiresAt: 1000 };
+      });
+      (searchCache.get as Mock).mockImplementation(async (key) =>
+        entries.has(key) ? { value: entries.get(key), storedAt: 0, expiresAt: 1000 } : undefined
+      );
+      mockSearch.mockResolvedValue(mockSearchResult);
+      mockFetch.mockImplementation(
+        async () => new Response(JSON.stringify({ Heading: "Test", AbstractText: "About tests" }))
+      );
+      const searchWith = (includeInstantAnswer?: boolean) =>
+        performSearch({
+          query: "test query",
+          options: {
+            region: "us-en",
+            safeSearch: SafeSearchType.MODERATE,
+            numResults: 3,
+            ...(includeInstantAnswer === undefined ? {} : { includeInstantAnswer }),
+          },
+        });
+
+      const withAnswer = await searchWith();
+      const withoutAnswer = await searchWith(false);
+      const cachedWith = await searchWith();
+      const cachedWithout = await searchWith(false);
+
+      expect(withAnswer.instantAnswer).toBeDefined();
+      expect(withoutAnswer.metadata.cache?.hit).toBe(false);
+      expect(withoutAnswer.instantAnswer).toBeUndefined();
+      expect(cachedWith.metadata.cache?.hit).toBe(true);
+      expect(cachedWith.instantAnswer).toEqual(withAnswer.instantAnswer);
+      expect(cachedWithout.metadata.cache?.hit).toBe(true);
+      expect(cachedWithout.instantAnswer).toBeUndefined();
+    });
+
+    it("should skip the cache lookup when bypassCache is set", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+
+      await performSearch({ query: "test query", bypassCache: true });
+
+      expect(searchCache.get).not.toHaveBeenCalled();
+      expect(search).toHaveBeenCalled();
+      expect(searchCache.set).toHaveBeenCalled();
+    });
+  });
+
+  describe("instant answers", () => {
+    const instantAnswerResponse = {
+      Heading: "TypeScript",
+      AbstractText: "TypeScript is a free and open-source programming language.",
+      AbstractSource: "Wikipedia",
+      AbstractURL: "https://en.wikipedia.org/wiki/TypeScript",
+      Answer: "",
+      Definition: "",
+      Image: "/i/typescript.png",
+      Infobox: {
+        content: [
+          { label: "Developer", value: "Microsoft", data_type: "string" },
+          { label: "Twitter profile", value: { id: "typescript" }, data_type: "twitter_profile" },
+        ],
+      },
+      RelatedTopics: [
         {
-          title: "GitHub - Project",
-          url: "https://github.com/example",
-          description: "A project",
-          hostname: "github.com",
-          rawDescription: "A project",
-          icon: "",
+          Text: "JavaScript - A programming language",
+          FirstURL: "https://duckduckgo.com/JavaScript",
         },
         {
-          title: "Documentation",
-          url: "https://docs.example.com",
-          description: "Some docs",
-          hostname: "docs.example.com",
-          rawDescription: "Some docs",
-          icon: "",
+          Name: "See also",
+          Topics: [{ Text: "Dart - Another language", FirstURL: "https://duckduckgo.com/Dart" }],
         },
       ],
-      noResults: false,
-      vqd: "3-0",
+    };
+
+    it("should include the instant answer with abstract, infobox and related topics", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+      mockFetch.mockResolvedValueOnce(new Response(JSON.stringify(instantAnswerResponse)));
+
+      const result = await performSearch({ query: "typescript" });
+
+      expect(String(mockFetch.mock.calls[0][0])).toContain("q=typescript");
+      expect(result.instantAnswer).toEqual({
+        heading: "TypeScript",
+        abstract: "TypeScript is a free and open-source programming language.",
+        source: "Wikipedia",
+        sourceUrl: "https://en.wikipedia.org/wiki/TypeScript",
+        image: "https://duckduckgo.com/i/typescript.png",
+        infobox: [{ label: "Developer", value: "Microsoft" }],
+        relatedTopics: [
+          { text: "JavaScript - A programming language", url: "https://duckduckgo.com/JavaScript" },
+          { text: "Dart - Another language", url: "https://duckduckgo.com/Dart" },
+        ],
+      });
     });
 
-    const result = await performSearch({ query: "test query" });
-    expect(result.metadata.queryAnalysis.topics).toContain("technology");
-    expect(result.metadata.queryAnalysis.topics).toContain("documentation");
+    it("should omit empty instant answers", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+
+      const result = await performSearch({ query: "test query" });
+
+      expect(result.instantAnswer).toBeUndefined();
+    });
+
+    it("should still return results when the instant answer lookup fails", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+      mockFetch.mockRejectedValueOnce(new Error("network down"));
+
+      const result = await performSearch({ query: "test query" });
+
+      expect(result.data).toHaveLength(3);
+      expect(result.instantAnswer).toBeUndefined();
+    });
+
+    it("should skip the lookup when disabled", async () => {
+      mockSearch.mockResolvedValue(mockSearchResult);
+
+      await performSearch({
+        query: "test query",
+        options: {
+          region: "us-en",
+          safeSearch: SafeSearchType.MODERATE,
+          numResults: 3,
+          includeInstantAnswer: false,
+        },
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SNAPSHOT_TEXT_LENGTH,
+  type SnapshotNode,
+  parseAriaSnapshot,
+  renderSnapshot,
+} from "../../src/snapshot.js";
+
+const page = (children: SnapshotNode[]): SnapshotNode => ({
+  role: "WebArea",
+  name: "Docs",
+  children,
+});
+
+describe("snapshot", () => {
+  describe("parseAriaSnapshot", () => {
+    it("should read roles, names, states and nesting", () => {
+      const tree = parseAriaSnapshot(
+        [
+          "- banner:",
+          '  - link "Home":',
+          "    - /url: /",
+          '  - heading "Docs" [level=1]',
+          '- checkbox "Remember me" [checked]',
+          '- button "Bold" [pressed=mixed] [disabled]',
+          "- paragraph: Read the docs",
+        ].join("\n")
+      );
+
+      expect(tree.children).toEqual([
+        {
+          role: "banner",
+          name: "",
+          children: [
+            { role: "link", name: "Home" },
+            { role: "heading", name: "Docs", level: 1 },
+          ],
+        },
+        { role: "checkbox", name: "Remember me", checked: true },
+        { role: "button", name: "Bold", pressed: "mixed", disabled: true },
+        { role: "paragraph", name: "", children: [{ role: "text", name: "Read the docs" }] },
+      ]);
+    });
+
+    it("should unquote YAML keys and values and read field values", () => {
+      const tree = parseAriaSnapshot(
+        [
+          `- 'button "Sort: it''s new"'`,
+          '- textbox "Search": "- typed\\x09text"',
+          '- text: "Note: see below"',
+        ].join("\n")
+      );
+
+      expect(tree.children).toEqual([
+        { role: "button", name: "Sort: it's new" },
+        { role: "textbox", name: "Search", value: "- typed\ttext" },
+        { role: "text", name: "Note: see below" },
+      ]);
+    });
+  });
+
+  describe("renderSnapshot", () => {
+    it("should render an indented outline with refs on targetable elements", () => {
+      const { outline, refs, refCount } = renderSnapshot(
+        page([
+          { role: "heading", name: "Install", level: 2 },
+          {
+            role: "navigation",
+            name: "",
+            children: [
+              { role: "link", name: "Guide", children: [{ role: "text", name: "Guide" }] },
+              { role: "text", name: "Version 2" },
+            ],
+          },
+          { role: "textbox", name: "Search", value: "rate limits", focused: true },
+          { role: "checkbox", name: "Beta", checked: "mixed", disabled: true },
+          { role: "button", name: "Menu", expanded: false },
+        ])
+      );
+
+      expect(outline).toBe(
+        [
+          '- heading "Install" [level=2] [ref=e1]',
+          "- navigation",
+          '  - link "Guide" [ref=e2]',
+          '  - text "Version 2"',
+          '- textbox "Search" [value="rate limits"] [focused] [ref=e3]',
+          '- checkbox "Beta" [checked=mixed] [disabled] [ref=e4]',
+          '- button "Menu" [expanded=false] [ref=e5]',
+        ].join("\n")
+      );
+      expect(refCount).toBe(5);
+      expect(refs.get("e2")).toEqual({ role: "link", name: "Guide", nth: 0 });
+    });
+
+    it("should count repeated names, and unnamed elements among all with their role", () => {
+      const { refs } = renderSnapshot(
+        page([
+          { role: "button", name: "Add" },
+          { role: "button", name: "" },
+          { role: "button", name: "Add" },
+        ])
+      );
+
+      expect([...refs.values()]).toEqual([
+        { role: "button", name: "Add", nth: 0 },
+        { role: "button", nth: 1 },
+        { role: "button", name: "Add", nth: 1 },
+      ]);
+    });
+
+    it("should keep refs of elements from the previous snapshot", () => {
+      const first = renderSnapshot(
+        page([
+          { role: "button", name: "Accept" },
+          { role: "link", name: "Home" },
+        ])
+      );
+      const second = renderSnapshot(
+        page([
+          { role: "link", name: "Home" },
+          { role: "link", name: "More" },
+        ]),
+        { previous: first.refs }
+      );
+
+      expect(second.outline).toBe('- link "Home" [ref=e2]\n- link "More" [ref=e3]');
+      expect(second.refCount).toBe(2);
+    });
+
+    it("should list only elements with refs when asked", () => {
+      const { outline } = renderSnapshot(
+        page([
+          {
+            role: "main",
+            name: "",
+            children: [
+              { role: "paragraph", name: "Intro" },
+              { role: "link", name: "Next" },
+            ],
+          },
+        ]),
+        { interactiveOnly: true }
+      );
+
+      expect(outline).toBe('- link "Next" [ref=e1]');
+    });
+
+    it("should shorten long names and handle pages without a tree", () => {
+      const { outline } = renderSnapshot(page([{ role: "link", name: "a".repeat(300) }]));
+
+      expect(outline).toContain(`"${"a".repeat(MAX_SNAPSHOT_TEXT_LENGTH - 1)}…"`);
+      expect(renderSnapshot(null)).toEqual({ outline: "", refs: new Map(), refCount: 0 });
+    });
+  });
+});
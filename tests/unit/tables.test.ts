@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  type RawTable,
+  type RawTableCell,
+  buildTableGrid,
+  tableColumnNames,
+  tableToCsv,
+  tableToMarkdown,
+} from "../../src/tables.js";
+
+const td = (text: string, span: Partial<RawTableCell> = {}): RawTableCell => ({
+  text,
+  header: false,
+  colspan: 1,
+  rowspan: 1,
+  ...span,
+});
+const th = (text: string, span: Partial<RawTableCell> = {}) => td(text, { header: true, ...span });
+
+describe("tables", () => {
+  describe("buildTableGrid", () => {
+    it("should expand column and row spans", () => {
+      const table: RawTable = {
+        headRowCount: 1,
+        rows: [
+          [th("Plan"), th("Limits", { colspan: 2 })],
+          [td("Free", { rowspan: 2 }), td("1 user"), td("1 GB")],
+          [td("No support"), td("-")],
+        ],
+      };
+      expect(buildTableGrid(table)).toEqual({
+        headerRows: [["Plan", "Limits", "Limits"]],
+        rows: [
+          ["Free", "1 user", "1 GB"],
+          ["Free", "No support", "-"],
+        ],
+        columnCount: 3,
+      });
+    });
+
+    it("should detect leading rows of header cells without a thead", () => {
+      const grid = buildTableGrid({
+        caption: "Specs",
+        headRowCount: 0,
+        rows: [
+          [th("Model"), th("Weight")],
+          [th("A1"), td("2 kg")],
+        ],
+      });
+      expect(grid.caption).toBe("Specs");
+      expect(grid.headerRows).toEqual([["Model", "Weight"]]);
+      expect(grid.rows).toEqual([["A1", "2 kg"]]);
+    });
+
+    it("should never treat every row as a header", () => {
+      const grid = buildTableGrid({ headRowCount: 0, rows: [[th("Only")]] });
+      expect(grid.headerRows).toEqual([]);
+      expect(grid.rows).toEqual([["Only"]]);
+    });
+
+    it("should pad short rows and drop empty ones", () => {
+      const grid = buildTableGrid({
+        headRowCount: 0,
+        rows: [[td("a"), td("b")], [td("")], [td("c")]],
+      });
+      expect(grid.rows).toEqual([
+        ["a", "b"],
+        ["c", ""],
+      ]);
+    });
+
+    it("should not extend row spans past the last row", () => {
+      const grid = buildTableGrid({
+        headRowCount: 0,
+        rows: [[td("a", { rowspan: 5 }), td("b")]],
+      });
+      expect(grid.rows).toEqual([["a", "b"]]);
+    });
+  });
+
+  describe("tableColumnNames", () => {
+    it("should join stacked headers and name missing or repeated columns", () => {
+      const names = tableColumnNames({
+        headerRows: [
+          ["Name", "Price", "Price", ""],
+          ["Name", "Monthly", "Yearly", ""],
+        ],
+        rows: [],
+        columnCount: 5,
+      });
+      expect(names).toEqual(["Name", "Price / Monthly", "Price / Yearly", "Column 4", "Column 5"]);
+    });
+
+    it("should suffix duplicate names", () => {
+      const names = tableColumnNames({ headerRows: [["Size", "Size"]], rows: [], columnCount: 2 });
+      expect(names).toEqual(["Size", "Size (2)"]);
+    });
+  });
+
+  describe("tableToMarkdown", () => {
+    it("should format a GFM table with escaped pipes", () => {
+      const markdown = tableToMarkdown({
+        headerRows: [["Plan", "Price"]],
+        rows: [["Pro", "$10 | month"]],
+        columnCount: 2,
+      });
+      expect(markdown).toBe("| Plan | Price |\n| --- | --- |\n| Pro | $10 \\| month |");
+    });
+
+    it("should use the first row as header when there is none", () => {
+      const markdown = tableToMarkdown({
+        headerRows: [],
+        rows: [
+          ["a", "b"],
+          ["c", "d"],
+        ],
+        columnCount: 2,
+      });
+      expect(markdown).toBe("| a | b |\n| --- | --- |\n| c | d |");
+    });
+
+    it("should return an empty string for empty tables", () => {
+      expect(tableToMarkdown({ headerRows: [], rows: [], columnCount: 0 })).toBe("");
+    });
+  });
+
+  describe("tableToCsv", () => {
+    it("should quote fields with separators, quotes and line breaks", () => {
+      const csv = tableToCsv({
+        headerRows: [["Plan", "Note"]],
+        rows: [["Pro", 'Say "hi", then\nleave']],
+        columnCount: 2,
+      });
+      expect(csv).toBe('Plan,Note\r\nPro,"Say ""hi"", then\nleave"');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TOPICS, OTHER_CLUSTER, analyzeTopics } from "../../src/topics.js";
+
+const doc = (title: string, description = "") => ({ title, description });
+
+describe("topics", () => {
+  describe("analyzeTopics", () => {
+    const documents = [
+      doc("Actix Web - A powerful web framework for Rust", "Actix Web is extremely fast."),
+      doc("Axum - Ergonomic web framework built with Tokio", "axum is built on tokio and hyper."),
+      doc("Rocket - Simple, Type-Safe Web Framework for Rust", "Rocket focuses on usability."),
+      doc("Getting started with Actix Web", "Your first actix web application."),
+      doc("Building a REST API with Axum and Tokio", "A tutorial using axum and tokio."),
+      doc("Rocket guide", "Installing Rocket and writing an application."),
+      doc("Are we web yet?", "The state of web programming in Rust."),
+    ];
+
+    it("should rank shared keywords and phrases as topics", () => {
+      const { topics } = analyzeTopics(documents, "rust web framework");
+
+      expect(topics.slice(0, 3)).toEqual(expect.arrayContaining(["actix web", "axum", "rocket"]));
+      expect(topics.length).toBeLessThanOrEqual(MAX_TOPICS);
+    });
+
+    it("should exclude query terms and words covered by a phrase", () => {
+      const { topics } = analyzeTopics(documents, "rust web framework");
+
+      expect(topics).not.toContain("rust");
+      expect(topics).not.toContain("web framework");
+      expect(topics).not.toContain("actix");
+    });
+
+    it("should assign every result to a labeled cluster", () => {
+      const { clusters, assignments } = analyzeTopics(documents, "rust web framework");
+
+      expect(assignments).toEqual([
+        "actix web",
+        "axum",
+        "rocket",
+        "actix web",
+        "axum",
+        "rocket",
+        OTHER_CLUSTER,
+      ]);
+      expect(clusters.map((cluster) => cluster.label).sort()).toEqual(
+        ["actix web", "axum", OTHER_CLUSTER, "rocket"].sort()
+      );
+      expect(clusters.at(-1)?.label).toBe(OTHER_CLUSTER);
+      expect(clusters.find((cluster) => cluster.label === "axum")?.keywords).toContain("tokio");
+      expect(clusters.reduce((sum, cluster) => sum + cluster.resultCount, 0)).toBe(7);
+    });
+
+    it("should ignore stopwords and split Han text into bigrams", () => {
+      const { topics } = analyzeTopics(
+        [doc("机器学习入门"), doc("机器学习教程"), doc("深度学习框架")],
+        "教程"
+      );
+
+      expect(topics).toContain("机器");
+      expect(topics).not.toContain("the");
+    });
+
+    it("should handle empty result sets", () => {
+      expect(analyzeTopics([], "anything")).toEqual({ topics: [], clusters: [], assignments: [] });
+    });
+  });
+});
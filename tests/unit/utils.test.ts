@@ -8,9 +8,15 @@ import {
   MAX_SCREENSHOT_SIZE,
   RETRY_DELAY,
   SCREENSHOTS_DIR,
+  canonicalizeUrl,
   cleanupScreenshots,
+  computeRetryDelay,
   isValidUrl,
+  mapWithConcurrency,
   saveScreenshot,
+  sliceContent,
+  stripHostPrefix,
+  urlIdentityKey,
   withRetry,
 } from "../../src/utils.js";
 
@@ -33,6 +39,78 @@ describe("utils", () => {
     });
   });
 
+  describe("canonicalizeUrl", () => {
+    it("should normalize host, port, fragment, trailing slash and parameter order", () => {
+      expect(canonicalizeUrl("HTTPS://Example.com:443/docs/?b=2&a=1#intro")).toBe(
+        "https://example.com/docs?a=1&b=2"
+      );
+    });
+
+    it("should keep the root path and unparseable input intact", () => {
+      expect(canonicalizeUrl("https://example.com/")).toBe("https://example.com/");
+      expect(canonicalizeUrl("not-a-url")).toBe("not-a-url");
+    });
+
+    it("should strip tracking parameters", () => {
+      expect(
+        canonicalizeUrl("https://example.com/post?utm_source=x&UTM_Medium=y&fbclid=abc&id=7")
+      ).toBe("https://example.com/post?id=7");
+      expect(canonicalizeUrl("https://example.com/post?gclid=1")).toBe("https://example.com/post");
+    });
+
+    it("should leave AMP spellings of a URL alone", () => {
+      expect(canonicalizeUrl("https://www.npmjs.com/package/amp")).toBe(
+        "https://www.npmjs.com/package/amp"
+      );
+      expect(canonicalizeUrl("https://amp.example.com/amp/news/story?amp=1")).toBe(
+        "https://amp.example.com/amp/news/story?amp=1"
+      );
+    });
+  });
+
+  describe("stripHostPrefix", () => {
+    it("should strip the prefix unless it is part of the registrable domain", () => {
+      expect(stripHostPrefix("www.example.com", /^www\./)).toBe("example.com");
+      expect(stripHostPrefix("amp.dev", /^amp\./)).toBe("amp.dev");
+    });
+  });
+
+  describe("urlIdentityKey", () => {
+    it("should ignore scheme and www or mobile host prefixes", () => {
+      const key = urlIdentityKey("https://example.com/a");
+      expect(urlIdentityKey("http://www.example.com/a/")).toBe(key);
+      expect(urlIdentityKey("https://m.example.com/a?utm_medium=social")).toBe(key);
+      expect(urlIdentityKey("https://mobile.example.com/a#top")).toBe(key);
+    });
+
+    it("should resolve AMP URLs to the regular page", () => {
+      const key = urlIdentityKey("https://example.com/news/story");
+      expect(urlIdentityKey("https://www.google.com/amp/s/example.com/news/story.amp")).toBe(key);
+      expect(
+        urlIdentityKey("https://example-com.cdn.ampproject.org/c/s/example.com/news/story/amp/")
+      ).toBe(key);
+      expect(urlIdentityKey("https://amp.example.com/amp/news/story?amp=1")).toBe(key);
+    });
+
+    it("should keep host prefixes that are the registrable domain", () => {
+      expect(urlIdentityKey("https://amp.dev/documentation/components/")).toBe(
+        "amp.dev/documentation/components"
+      );
+      expect(urlIdentityKey("https://m.com/x")).toBe("m.com/x");
+      expect(urlIdentityKey("https://www.com/")).toBe("www.com/");
+      expect(urlIdentityKey("https://www.m.com/x")).toBe("m.com/x");
+    });
+
+    it("should keep different pages apart", () => {
+      expect(urlIdentityKey("https://example.com/a")).not.toBe(
+        urlIdentityKey("https://example.com/b")
+      );
+      expect(urlIdentityKey("https://docs.example.com/a")).not.toBe(
+        urlIdentityKey("https://example.com/a")
+      );
+    });
+  });
+
   describe("withRetry", () => {
     beforeEach(() => {
       vi.useFakeTimers();
@@ -65,20 +143,110 @@ describe("utils", () => {
 
     it("should throw after max retries", async () => {
       const operation = vi.fn().mockRejectedValue(new Error("persistent failure"));
-      
+
       const retryPromise = withRetry(operation, 3);
       // First attempt happens immediately
       expect(operation).toHaveBeenCalledTimes(1);
-      
+
       // Run subsequent retry attempts
       for (let i = 1; i < 3; i++) {
         await vi.advanceTimersByTimeAsync(RETRY_DELAY);
         expect(operation).toHaveBeenCalledTimes(i + 1);
       }
-      
+
       await expect(retryPromise).rejects.toThrow("persistent failure");
       expect(operation).toHaveBeenCalledTimes(3);
     });
+
+    it("should grow the delay exponentially when a backoff factor is set", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("persistent failure"));
+
+      const retryPromise = withRetry(operation, 3, 100, { backoffFactor: 2 });
+      const assertion = expect(retryPromise).rejects.toThrow("persistent failure");
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(operation).toHaveBeenCalledTimes(3);
+
+      await assertion;
+    });
+
+    it("should stop retrying when shouldRetry returns false", async () => {
+      const operation = vi.fn().mockRejectedValue(new Error("fatal"));
+
+      await expect(withRetry(operation, 3, 100, { shouldRetry: () => false })).rejects.toThrow(
+        "fatal"
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("computeRetryDelay", () => {
+    it("should cap exponential delays at maxDelay", () => {
+      expect(computeRetryDelay(0, 1000, { backoffFactor: 2 })).toBe(1000);
+      expect(computeRetryDelay(3, 1000, { backoffFactor: 2 })).toBe(8000);
+      expect(computeRetryDelay(10, 1000, { backoffFactor: 2, maxDelay: 5000 })).toBe(5000);
+    });
+
+    it("should keep jittered delays between half and all of the computed delay", () => {
+      for (let i = 0; i < 20; i++) {
+        const delay = computeRetryDelay(2, 1000, { backoffFactor: 2, jitter: true });
+        expect(delay).toBeGreaterThanOrEqual(2000);
+        expect(delay).toBeLessThanOrEqual(4000);
+      }
+    });
+  });
+
+  describe("mapWithConcurrency", () => {
+    it("should keep input order while limiting calls in flight", async () => {
+      let active = 0;
+      let peak = 0;
+      const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (delay, index) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        active--;
+        return `${index}:${delay}`;
+      });
+
+      expect(results).toEqual(["0:30", "1:10", "2:20", "3:0", "4:5"]);
+      expect(peak).toBe(2);
+    });
+
+    it("should handle an empty list", async () => {
+      expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+    });
+  });
+
+  describe("sliceContent", () => {
+    const text = "alpha beta gamma delta epsilon";
+
+    it("should return the whole text without a maxLength", () => {
+      expect(sliceContent(text, 0)).toEqual({ text, offset: 0, totalLength: text.length });
+    });
+
+    it("should cut at a word boundary and continue from there", () => {
+      const first = sliceContent(text, 0, 13);
+      expect(first).toEqual({ text: "alpha beta ", offset: 0, totalLength: 30, nextOffset: 11 });
+
+      const second = sliceContent(text, first.nextOffset ?? 0, 13);
+      expect(second.text).toBe("gamma delta ");
+      expect(sliceContent(text, 23, 13)).toEqual({ text: "epsilon", offset: 23, totalLength: 30 });
+    });
+
+    it("should cut mid-word when there is no boundary late enough in the window", () => {
+      expect(sliceContent("abcdefghij klm", 0, 8)).toMatchObject({
+        text: "abcdefgh",
+        nextOffset: 8,
+      });
+    });
+
+    it("should clamp offsets past the end", () => {
+      expect(sliceContent(text, 100, 10)).toEqual({ text: "", offset: 30, totalLength: 30 });
+    });
   });
 
   describe("screenshot management", () => {